@@ -15,6 +15,7 @@ import { natsEndpoint } from "../core/nats.js";
 import { registryEndpointInternal } from "../core/registry.js";
 import { k8sProvider } from "../providers.js";
 import { builderImageUrl } from "./builder.js";
+import { runnerEndpoint } from "./runner.js";
 
 export { controlApiImage };
 
@@ -130,11 +131,15 @@ const controlApiConfig = new kubernetes.core.v1.ConfigMap(
       ORIGAN_COOKIE_DOMAIN: ".origan.dev",
       DATABASE_RUN_MIGRATIONS: "true",
       GATEWAY_HOSTNAME: "gateway.origan.app",
+      RUNNER_URL: runnerEndpoint,
     },
   },
   { provider: k8sProvider },
 );
 
+// Authenticates the gateways reading domain configs
+export const gatewayToken = crypto.randomBytes(32).toString("hex");
+
 // Secrets
 const controlApiSecret = new kubernetes.core.v1.Secret(
   "control-api-secret",
@@ -156,6 +161,7 @@ const controlApiSecret = new kubernetes.core.v1.Secret(
       BUCKET_SECRET_KEY: garageSecretKeyValue?.apply((k) => k || "") || "",
       BUCKET_REGION: "garage",
       JWT_SECRET: crypto.randomBytes(32).toString("hex"),
+      GATEWAY_TOKEN: gatewayToken,
       GITHUB_CLIENT_ID: githubClientId,
       GITHUB_CLIENT_SECRET: githubClientSecret,
       GITHUB_APP_ID: githubAppId,
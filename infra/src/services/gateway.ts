@@ -9,8 +9,9 @@ import {
 } from "../core/garage.js";
 import { gatewayImage, imagesBakeResource } from "../core/images.js";
 import { namespaceName_ } from "../core/namespace.js";
+import { natsEndpoint } from "../core/nats.js";
 import { k8sProvider } from "../providers.js";
-import { controlApiServiceName } from "./control-api.js";
+import { controlApiServiceName, gatewayToken } from "./control-api.js";
 import { runnerEndpoint } from "./runner.js";
 
 export { gatewayImage };
@@ -39,6 +40,7 @@ const gatewayConfig = new kubernetes.core.v1.ConfigMap(
       HAS_TLS_SERVER: "true", // Gateway handles TLS termination for wildcard domain
       TLS_CERT_FILE: "/etc/tls/tls.crt", // Mounted from wildcard-tls secret
       TLS_KEY_FILE: "/etc/tls/tls.key", // Mounted from wildcard-tls secret
+      EVENTS_NATS_SERVER: natsEndpoint, // Domain config cache invalidations
     },
   },
   { provider: k8sProvider },
@@ -59,6 +61,7 @@ const gatewaySecret = new kubernetes.core.v1.Secret(
     stringData: {
       BUCKET_ACCESS_KEY: garageAccessKeyValue || "",
       BUCKET_SECRET_KEY: garageSecretKeyValue?.apply((k) => k || "") || "",
+      GATEWAY_TOKEN: gatewayToken,
     },
   },
   { provider: k8sProvider },
@@ -92,6 +95,8 @@ const gatewayDeployment = new kubernetes.apps.v1.Deployment(
           },
           annotations: {
             "origan.dev/collect-logs": "true",
+            "prometheus.io/scrape": "true",
+            "prometheus.io/port": "9091",
           },
         },
         spec: {
@@ -117,6 +122,10 @@ const gatewayDeployment = new kubernetes.apps.v1.Deployment(
                   containerPort: 7778,
                   name: "https",
                 },
+                {
+                  containerPort: 9091,
+                  name: "metrics",
+                },
               ],
               envFrom: [
                 {
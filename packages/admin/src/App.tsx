@@ -125,6 +125,9 @@ function App() {
               <Route path="/deployments/:reference/logs">
                 <DeploymentDetailsPage />
               </Route>
+              <Route path="/deployments/:reference/cron">
+                <DeploymentDetailsPage />
+              </Route>
             </Switch>
           </Router>
         </Box>
@@ -0,0 +1,336 @@
+import {
+  ActionIcon,
+  Badge,
+  Button,
+  Card,
+  Group,
+  Modal,
+  NumberInput,
+  SegmentedControl,
+  Select,
+  Stack,
+  Table,
+  Text,
+  TextInput,
+  Title,
+} from "@mantine/core";
+import { useForm } from "@mantine/form";
+import { useDisclosure } from "@mantine/hooks";
+import { notifications } from "@mantine/notifications";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { PlusIcon, TrashIcon } from "lucide-react";
+import { queryClient as globalQueryClient, trpc } from "../utils/trpc";
+
+interface AccessRulesManagerProps {
+  projectReference: string;
+}
+
+type AccessRuleFormValues = {
+  type: "allow" | "deny" | "rate_limit";
+  trackName: string;
+  cidr: string;
+  requests: number;
+  windowSeconds: number;
+  keyHeader: string;
+  scope: "all" | "dynamic";
+};
+
+const ALL_TRACKS = "";
+
+const RULE_TYPE_LABELS: Record<AccessRuleFormValues["type"], string> = {
+  allow: "Allow",
+  deny: "Deny",
+  rate_limit: "Rate limit",
+};
+
+export function AccessRulesManager({
+  projectReference,
+}: AccessRulesManagerProps) {
+  const [modalOpened, { open: openModal, close: closeModal }] =
+    useDisclosure(false);
+  const form = useForm<AccessRuleFormValues>({
+    initialValues: {
+      type: "deny",
+      trackName: ALL_TRACKS,
+      cidr: "",
+      requests: 100,
+      windowSeconds: 60,
+      keyHeader: "",
+      scope: "all",
+    },
+  });
+
+  const rulesQuery = useQuery(
+    trpc.accessRules.list.queryOptions({ projectReference }),
+  );
+
+  const tracksQuery = useQuery(
+    trpc.projects.listTracks.queryOptions({ projectReference }),
+  );
+
+  const invalidateRules = () => {
+    const key = trpc.accessRules.list.queryKey({ projectReference });
+    globalQueryClient.invalidateQueries({ queryKey: key });
+  };
+
+  const createRuleMutation = useMutation(
+    trpc.accessRules.create.mutationOptions({
+      onSuccess: () => {
+        invalidateRules();
+        closeModal();
+        form.reset();
+        notifications.show({
+          title: "Access rule created",
+          message: "The gateway applies it within a few seconds",
+          color: "green",
+        });
+      },
+      onError: (error) => {
+        notifications.show({
+          title: "Failed to create access rule",
+          message: error.message,
+          color: "red",
+        });
+      },
+    }),
+  );
+
+  const deleteRuleMutation = useMutation(
+    trpc.accessRules.delete.mutationOptions({
+      onSuccess: () => {
+        invalidateRules();
+        notifications.show({
+          title: "Access rule removed",
+          message: "The access rule has been deleted",
+          color: "green",
+        });
+      },
+      onError: (error) => {
+        notifications.show({
+          title: "Failed to delete access rule",
+          message: error.message,
+          color: "red",
+        });
+      },
+    }),
+  );
+
+  const handleSubmit = form.onSubmit((values) => {
+    const target = {
+      projectReference,
+      trackName: values.trackName || undefined,
+    };
+    if (values.type === "rate_limit") {
+      createRuleMutation.mutate({
+        ...target,
+        type: "rate_limit",
+        requests: values.requests,
+        windowSeconds: values.windowSeconds,
+        keyHeader: values.keyHeader || undefined,
+        scope: values.scope,
+      });
+    } else {
+      createRuleMutation.mutate({
+        ...target,
+        type: values.type,
+        cidr: values.cidr,
+      });
+    }
+  });
+
+  const handleDelete = (ruleId: string) => {
+    const confirmed = window.confirm(
+      "Are you sure you want to delete this access rule?",
+    );
+    if (!confirmed) return;
+
+    deleteRuleMutation.mutate({ projectReference, ruleId });
+  };
+
+  const trackOptions = [
+    { value: ALL_TRACKS, label: "All tracks" },
+    ...(tracksQuery.data?.map((track) => ({
+      value: track.name,
+      label: track.name,
+    })) ?? []),
+  ];
+
+  return (
+    <Stack gap="xl">
+      <Card withBorder padding="xl">
+        <Stack gap="md">
+          <Group justify="space-between">
+            <Stack gap={4}>
+              <Title order={4}>Access Rules</Title>
+              <Text size="sm" c="dimmed">
+                Deny rules always win. Once an allow rule exists, only the
+                listed addresses can reach the track.
+              </Text>
+            </Stack>
+            <Button leftSection={<PlusIcon size={16} />} onClick={openModal}>
+              Add rule
+            </Button>
+          </Group>
+          {!rulesQuery.data?.length ? (
+            <Text c="dimmed">No access rules configured yet.</Text>
+          ) : (
+            <Table striped highlightOnHover withTableBorder>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Type</Table.Th>
+                  <Table.Th>Track</Table.Th>
+                  <Table.Th>Rule</Table.Th>
+                  <Table.Th style={{ width: "80px" }}>Actions</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {rulesQuery.data?.map((rule) => (
+                  <Table.Tr key={rule.id}>
+                    <Table.Td>
+                      <Badge
+                        color={
+                          rule.type === "allow"
+                            ? "green"
+                            : rule.type === "deny"
+                              ? "red"
+                              : "blue"
+                        }
+                      >
+                        {RULE_TYPE_LABELS[rule.type]}
+                      </Badge>
+                    </Table.Td>
+                    <Table.Td>{rule.track?.name ?? "All tracks"}</Table.Td>
+                    <Table.Td>
+                      {rule.type === "rate_limit" ? (
+                        <Text size="sm">
+                          {rule.requests} requests / {rule.windowSeconds}s per{" "}
+                          {rule.keyHeader ? `${rule.keyHeader} header` : "IP"}
+                          {rule.scope === "dynamic" && " (functions only)"}
+                        </Text>
+                      ) : (
+                        <Text size="sm" ff="monospace">
+                          {rule.cidr}
+                        </Text>
+                      )}
+                    </Table.Td>
+                    <Table.Td>
+                      <Group gap="xs" justify="flex-end" wrap="nowrap">
+                        <ActionIcon
+                          variant="subtle"
+                          color="red"
+                          aria-label="Delete"
+                          onClick={() => handleDelete(rule.id)}
+                        >
+                          <TrashIcon size={16} />
+                        </ActionIcon>
+                      </Group>
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          )}
+        </Stack>
+      </Card>
+
+      <Modal
+        opened={modalOpened}
+        onClose={() => {
+          closeModal();
+          form.reset();
+        }}
+        title="Create access rule"
+        centered
+      >
+        <form onSubmit={handleSubmit}>
+          <Stack>
+            <SegmentedControl
+              data={[
+                { value: "deny", label: "Deny" },
+                { value: "allow", label: "Allow" },
+                { value: "rate_limit", label: "Rate limit" },
+              ]}
+              value={form.values.type}
+              onChange={(value) =>
+                form.setFieldValue(
+                  "type",
+                  value as AccessRuleFormValues["type"],
+                )
+              }
+            />
+            <Select
+              label="Track"
+              data={trackOptions}
+              value={form.values.trackName}
+              onChange={(value) =>
+                form.setFieldValue("trackName", value ?? ALL_TRACKS)
+              }
+              allowDeselect={false}
+            />
+            {form.values.type === "rate_limit" ? (
+              <>
+                <Group grow>
+                  <NumberInput
+                    label="Requests"
+                    min={1}
+                    required
+                    {...form.getInputProps("requests")}
+                  />
+                  <NumberInput
+                    label="Window (seconds)"
+                    min={1}
+                    max={86400}
+                    required
+                    {...form.getInputProps("windowSeconds")}
+                  />
+                </Group>
+                <TextInput
+                  label="Client key header"
+                  description="Count requests per header value (e.g. x-api-key) instead of per IP"
+                  placeholder="Client IP"
+                  {...form.getInputProps("keyHeader")}
+                />
+                <Select
+                  label="Applies to"
+                  data={[
+                    { value: "all", label: "All requests" },
+                    { value: "dynamic", label: "Functions only" },
+                  ]}
+                  value={form.values.scope}
+                  onChange={(value) =>
+                    form.setFieldValue(
+                      "scope",
+                      (value as AccessRuleFormValues["scope"]) ?? "all",
+                    )
+                  }
+                  allowDeselect={false}
+                />
+              </>
+            ) : (
+              <TextInput
+                label="IP address or CIDR range"
+                placeholder="203.0.113.0/24 or 2001:db8::/32"
+                required
+                {...form.getInputProps("cidr")}
+              />
+            )}
+            <Group justify="flex-end">
+              <Button
+                variant="subtle"
+                onClick={() => {
+                  closeModal();
+                  form.reset();
+                }}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" loading={createRuleMutation.isPending}>
+                Create rule
+              </Button>
+            </Group>
+          </Stack>
+        </form>
+      </Modal>
+    </Stack>
+  );
+}
@@ -0,0 +1,182 @@
+import {
+  Badge,
+  Card,
+  Group,
+  Progress,
+  SegmentedControl,
+  SimpleGrid,
+  Stack,
+  Table,
+  Text,
+  Title,
+} from "@mantine/core";
+import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { trpc } from "../utils/trpc";
+
+interface ProjectAnalyticsProps {
+  projectReference: string;
+}
+
+type Period = "24h" | "7d" | "30d";
+
+function formatBytes(bytes: number) {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+function statusColor(statusCode: number) {
+  if (statusCode >= 500) return "red";
+  if (statusCode >= 400) return "orange";
+  if (statusCode >= 300) return "blue";
+  return "green";
+}
+
+export function ProjectAnalytics({ projectReference }: ProjectAnalyticsProps) {
+  const [period, setPeriod] = useState<Period>("24h");
+
+  const bandwidthQuery = useQuery(
+    trpc.analytics.bandwidth.queryOptions({ projectReference, period }),
+  );
+  const topPathsQuery = useQuery(
+    trpc.analytics.topPaths.queryOptions({ projectReference, period }),
+  );
+  const statusCodesQuery = useQuery(
+    trpc.analytics.statusCodes.queryOptions({ projectReference, period }),
+  );
+
+  const bandwidth = bandwidthQuery.data;
+  const maxPointBytes = Math.max(
+    1,
+    ...(bandwidth?.points.map((point) => point.bytes) ?? []),
+  );
+  const totalStatusRequests =
+    statusCodesQuery.data?.reduce((total, row) => total + row.requests, 0) ?? 0;
+
+  return (
+    <Stack gap="xl">
+      <Group justify="space-between">
+        <Title order={4}>Traffic</Title>
+        <SegmentedControl
+          data={[
+            { value: "24h", label: "24 hours" },
+            { value: "7d", label: "7 days" },
+            { value: "30d", label: "30 days" },
+          ]}
+          value={period}
+          onChange={(value) => setPeriod(value as Period)}
+        />
+      </Group>
+
+      <SimpleGrid cols={2}>
+        <Card withBorder padding="lg">
+          <Text size="sm" c="dimmed">
+            Requests
+          </Text>
+          <Title order={3}>
+            {(bandwidth?.totalRequests ?? 0).toLocaleString()}
+          </Title>
+        </Card>
+        <Card withBorder padding="lg">
+          <Text size="sm" c="dimmed">
+            Bandwidth
+          </Text>
+          <Title order={3}>{formatBytes(bandwidth?.totalBytes ?? 0)}</Title>
+        </Card>
+      </SimpleGrid>
+
+      <Card withBorder padding="xl">
+        <Stack gap="md">
+          <Title order={5}>
+            Bandwidth per {bandwidth?.granularity ?? "hour"}
+          </Title>
+          {!bandwidth?.points.length ? (
+            <Text c="dimmed">No traffic recorded for this period.</Text>
+          ) : (
+            <Stack gap="xs">
+              {bandwidth.points.map((point) => (
+                <Group key={String(point.bucketStart)} wrap="nowrap">
+                  <Text size="xs" w={140}>
+                    {new Date(point.bucketStart).toLocaleString()}
+                  </Text>
+                  <Progress
+                    value={(point.bytes / maxPointBytes) * 100}
+                    style={{ flex: 1 }}
+                  />
+                  <Text size="xs" w={80} ta="right">
+                    {formatBytes(point.bytes)}
+                  </Text>
+                </Group>
+              ))}
+            </Stack>
+          )}
+        </Stack>
+      </Card>
+
+      <Card withBorder padding="xl">
+        <Stack gap="md">
+          <Title order={5}>Status codes</Title>
+          {!statusCodesQuery.data?.length ? (
+            <Text c="dimmed">No traffic recorded for this period.</Text>
+          ) : (
+            <Group gap="xs">
+              {statusCodesQuery.data.map((row) => (
+                <Badge
+                  key={row.statusCode}
+                  color={statusColor(row.statusCode)}
+                  variant="light"
+                  size="lg"
+                >
+                  {row.statusCode}: {row.requests.toLocaleString()} (
+                  {((row.requests / totalStatusRequests) * 100).toFixed(1)}%)
+                </Badge>
+              ))}
+            </Group>
+          )}
+        </Stack>
+      </Card>
+
+      <Card withBorder padding="xl">
+        <Stack gap="md">
+          <Title order={5}>Top paths</Title>
+          {!topPathsQuery.data?.length ? (
+            <Text c="dimmed">No traffic recorded for this period.</Text>
+          ) : (
+            <Table striped highlightOnHover withTableBorder>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Path</Table.Th>
+                  <Table.Th style={{ textAlign: "right" }}>Requests</Table.Th>
+                  <Table.Th style={{ textAlign: "right" }}>Bandwidth</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {topPathsQuery.data.map((row) => (
+                  <Table.Tr key={row.path}>
+                    <Table.Td>
+                      <Text size="sm" ff="monospace">
+                        {row.path}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {row.requests.toLocaleString()}
+                    </Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {formatBytes(row.bytes)}
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          )}
+        </Stack>
+      </Card>
+    </Stack>
+  );
+}
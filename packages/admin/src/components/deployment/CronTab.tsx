@@ -0,0 +1,138 @@
+import { Badge, Card, Stack, Table, Text, Title } from "@mantine/core";
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { trpc } from "../../utils/trpc";
+
+function getRunStatusColor(status: string) {
+  switch (status) {
+    case "success":
+      return "green";
+    case "error":
+      return "red";
+    default:
+      return "blue";
+  }
+}
+
+function formatDuration(durationMs: number | null) {
+  if (durationMs === null) return "-";
+  if (durationMs < 1000) return `${durationMs} ms`;
+  return `${(durationMs / 1000).toFixed(1)} s`;
+}
+
+export const CronTab = () => {
+  const params = useParams();
+  const reference = params?.reference;
+
+  const { data: schedules } = useQuery(
+    trpc.cron.listSchedules.queryOptions(
+      { deploymentRef: reference || "" },
+      { enabled: Boolean(reference) },
+    ),
+  );
+  const { data: runs } = useQuery(
+    trpc.cron.listRuns.queryOptions(
+      { deploymentRef: reference || "" },
+      // Pick up runs as the scheduler records them
+      { enabled: Boolean(reference), refetchInterval: 30_000 },
+    ),
+  );
+
+  return (
+    <Stack gap="md">
+      <Card withBorder padding="xl">
+        <Stack gap="md">
+          <Title order={5}>Schedules</Title>
+          {!schedules?.length ? (
+            <Text c="dimmed">This deployment has no scheduled functions.</Text>
+          ) : (
+            <Table striped withTableBorder>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Function</Table.Th>
+                  <Table.Th>Schedule (UTC)</Table.Th>
+                  <Table.Th>Next run</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {schedules.map((schedule) => (
+                  <Table.Tr key={schedule.urlPath}>
+                    <Table.Td>
+                      <Text size="sm" ff="monospace">
+                        {schedule.urlPath}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="sm" ff="monospace">
+                        {schedule.schedule}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td>
+                      {schedule.nextRunAt
+                        ? new Date(schedule.nextRunAt).toLocaleString()
+                        : "Never"}
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          )}
+        </Stack>
+      </Card>
+
+      <Card withBorder padding="xl">
+        <Stack gap="md">
+          <Title order={5}>Executions</Title>
+          {!runs?.length ? (
+            <Text c="dimmed">No executions recorded.</Text>
+          ) : (
+            <Table striped highlightOnHover withTableBorder>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Function</Table.Th>
+                  <Table.Th>Scheduled at</Table.Th>
+                  <Table.Th>Status</Table.Th>
+                  <Table.Th style={{ textAlign: "right" }}>Duration</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {runs.map((run) => (
+                  <Table.Tr key={run.id}>
+                    <Table.Td>
+                      <Text size="sm" ff="monospace">
+                        {run.urlPath}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td>
+                      {new Date(run.scheduledAt).toLocaleString()}
+                    </Table.Td>
+                    <Table.Td>
+                      <Stack gap={4}>
+                        <Badge
+                          color={getRunStatusColor(run.status)}
+                          variant="light"
+                        >
+                          {run.statusCode
+                            ? `${run.status} (${run.statusCode})`
+                            : run.status}
+                        </Badge>
+                        {run.error && (
+                          <Text size="xs" c="red" lineClamp={2}>
+                            {run.error}
+                          </Text>
+                        )}
+                      </Stack>
+                    </Table.Td>
+                    <Table.Td style={{ textAlign: "right" }}>
+                      {formatDuration(run.durationMs)}
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          )}
+        </Stack>
+      </Card>
+    </Stack>
+  );
+};
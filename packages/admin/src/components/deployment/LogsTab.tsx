@@ -32,6 +32,7 @@ interface LogEntry {
   level: string;
   message: string;
   functionPath?: string;
+  traceId?: string;
 }
 
 function normalizeLogEntry(input: unknown): LogEntry | null {
@@ -244,6 +245,16 @@ export const LogsTab = () => {
                         >
                           {log.message}
                         </Text>
+                        {log.traceId && (
+                          <Text
+                            c="dimmed"
+                            size="xs"
+                            title={`Trace ${log.traceId}`}
+                            style={{ flexShrink: 0, fontSize: "0.7rem" }}
+                          >
+                            {log.traceId.slice(0, 8)}
+                          </Text>
+                        )}
                       </Group>
                     </Box>
                   ))
@@ -11,10 +11,11 @@ import {
   Title,
 } from "@mantine/core";
 import { useQuery } from "@tanstack/react-query";
-import { ArrowLeftIcon, Hammer, Terminal } from "lucide-react";
+import { ArrowLeftIcon, Clock, Hammer, Terminal } from "lucide-react";
 import { useEffect, useState } from "react";
 import { Route, Switch, useLocation, useParams } from "wouter";
 import { BuildTab } from "../components/deployment/BuildTab";
+import { CronTab } from "../components/deployment/CronTab";
 import { LogsTab } from "../components/deployment/LogsTab";
 import { trpc } from "../utils/trpc";
 
@@ -50,6 +51,8 @@ export const DeploymentDetailsPage = () => {
     const path = location.split("/").pop();
     if (path === "logs") {
       setActiveTab("logs");
+    } else if (path === "cron") {
+      setActiveTab("cron");
     } else if (path === "build" || path === reference) {
       setActiveTab("build");
     }
@@ -64,6 +67,8 @@ export const DeploymentDetailsPage = () => {
     setActiveTab(value);
     if (value === "logs") {
       navigate(`/deployments/${reference}/logs`);
+    } else if (value === "cron") {
+      navigate(`/deployments/${reference}/cron`);
     } else {
       navigate(`/deployments/${reference}/build`);
     }
@@ -131,6 +136,11 @@ export const DeploymentDetailsPage = () => {
                 Logs
               </Tabs.Tab>
             )}
+            {deployment.status === "success" && (
+              <Tabs.Tab value="cron" leftSection={<Clock size={16} />}>
+                Scheduled
+              </Tabs.Tab>
+            )}
           </Tabs.List>
         </Tabs>
 
@@ -149,6 +159,9 @@ export const DeploymentDetailsPage = () => {
                 </Card>
               )}
             </Route>
+            <Route path="/deployments/:reference/cron">
+              <CronTab />
+            </Route>
             <Route path="/deployments/:reference/build">
               <BuildTab />
             </Route>
@@ -21,10 +21,12 @@ import {
 } from "lucide-react";
 import { useMemo, useState } from "react";
 import { Link, Route, useLocation, useParams } from "wouter";
+import { AccessRulesManager } from "../components/AccessRulesManager";
 import { BranchRulesManager } from "../components/BranchRulesManager";
 import { CustomDomainsManager } from "../components/CustomDomainsManager";
 import { DeployModal } from "../components/DeployModal";
 import { EnvironmentManager } from "../components/EnvironmentManager";
+import { ProjectAnalytics } from "../components/ProjectAnalytics";
 import { trpc } from "../utils/trpc";
 
 function getStatusColor(status: string) {
@@ -247,6 +249,8 @@ export const ProjectPage = () => {
     if (location.includes("/domains")) return "domains";
     if (location.includes("/environments")) return "environments";
     if (location.includes("/github")) return "github";
+    if (location.includes("/security")) return "security";
+    if (location.includes("/analytics")) return "analytics";
     return "deployments";
   };
   const activeTab = getActiveTab();
@@ -334,6 +338,18 @@ export const ProjectPage = () => {
                 GitHub Rules
               </TabLink>
             )}
+            <TabLink
+              href={`/projects/${projectReference}/security`}
+              isActive={activeTab === "security"}
+            >
+              Security
+            </TabLink>
+            <TabLink
+              href={`/projects/${projectReference}/analytics`}
+              isActive={activeTab === "analytics"}
+            >
+              Analytics
+            </TabLink>
           </Group>
         </Box>
 
@@ -360,6 +376,12 @@ export const ProjectPage = () => {
             )
           }
         </Route>
+        <Route path="/projects/:reference/security">
+          {() => <AccessRulesManager projectReference={projectReference} />}
+        </Route>
+        <Route path="/projects/:reference/analytics">
+          {() => <ProjectAnalytics projectReference={projectReference} />}
+        </Route>
       </Stack>
 
       {/* Deploy Modal */}
@@ -29,6 +29,13 @@ export const BuildRunnerEnvSchema = z.object({
 
   // Working directory for cloning (optional, defaults to /app for containers)
   WORK_DIR: z.string().optional().default("/app"),
+
+  // Ship brotli/gzip variants of text assets alongside the originals
+  PRECOMPRESS_ASSETS: z
+    .enum(["true", "false"])
+    .optional()
+    .default("true")
+    .transform((value) => value === "true"),
 });
 
 // Parse and validate the environment variables
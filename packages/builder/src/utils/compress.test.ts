@@ -0,0 +1,68 @@
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { brotliDecompressSync, gunzipSync } from "node:zlib";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { isCompressibleFile, precompressAssets } from "./compress.js";
+
+describe("precompressAssets", () => {
+  const testDir = join(process.cwd(), "test-temp-compress");
+  const distDir = join(testDir, "dist");
+  const outputDir = join(testDir, "precompressed");
+
+  beforeEach(() => {
+    mkdirSync(join(distDir, "assets"), { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it("writes brotli and gzip variants for large text assets", async () => {
+    const script = "console.log('hello world');\n".repeat(200);
+    writeFileSync(join(distDir, "assets", "app.js"), script);
+
+    const result = await precompressAssets(
+      distDir,
+      ["assets/app.js"],
+      outputDir,
+    );
+
+    const variants = result.get("assets/app.js");
+    expect(variants?.map((variant) => variant.encoding)).toEqual([
+      "br",
+      "gzip",
+    ]);
+    expect(variants?.map((variant) => variant.relativePath)).toEqual([
+      "assets/app.js.br",
+      "assets/app.js.gz",
+    ]);
+
+    const brotli = await readFile(join(outputDir, "assets/app.js.br"));
+    expect(brotliDecompressSync(brotli).toString()).toBe(script);
+    const gzipped = await readFile(join(outputDir, "assets/app.js.gz"));
+    expect(gunzipSync(gzipped).toString()).toBe(script);
+  });
+
+  it("skips small and binary files", async () => {
+    writeFileSync(join(distDir, "small.css"), "body{}");
+    writeFileSync(join(distDir, "logo.png"), Buffer.alloc(4096));
+
+    const result = await precompressAssets(
+      distDir,
+      ["small.css", "logo.png"],
+      outputDir,
+    );
+
+    expect(result.size).toBe(0);
+    expect(existsSync(outputDir)).toBe(false);
+  });
+
+  it("detects compressible files by extension", () => {
+    expect(isCompressibleFile("index.html")).toBe(true);
+    expect(isCompressibleFile("assets/app.JS")).toBe(true);
+    expect(isCompressibleFile("photo.jpg")).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, extname, join } from "node:path";
+import { promisify } from "node:util";
+import { brotliCompress, constants, gzip } from "node:zlib";
+
+const brotliCompressAsync = promisify(brotliCompress);
+const gzipAsync = promisify(gzip);
+
+export type ContentEncoding = "br" | "gzip";
+
+export interface PrecompressedVariant {
+  encoding: ContentEncoding;
+  // Path of the compressed file on disk
+  filePath: string;
+  // Path of the compressed file relative to the build directory
+  relativePath: string;
+}
+
+const ENCODING_EXTENSIONS: Record<ContentEncoding, string> = {
+  br: ".br",
+  gzip: ".gz",
+};
+
+const COMPRESSIBLE_EXTENSIONS = new Set([
+  ".html",
+  ".htm",
+  ".css",
+  ".js",
+  ".mjs",
+  ".json",
+  ".map",
+  ".svg",
+  ".txt",
+  ".xml",
+  ".webmanifest",
+  ".wasm",
+]);
+
+// Below this size the encoding overhead outweighs the savings
+const MIN_SIZE_BYTES = 1024;
+// Variants must save at least 10% to be worth storing
+const MIN_RATIO = 0.9;
+
+export function isCompressibleFile(file: string) {
+  return COMPRESSIBLE_EXTENSIONS.has(extname(file).toLowerCase());
+}
+
+async function compress(encoding: ContentEncoding, content: Buffer) {
+  if (encoding === "br") {
+    return brotliCompressAsync(content, {
+      params: {
+        [constants.BROTLI_PARAM_QUALITY]: constants.BROTLI_MAX_QUALITY,
+        [constants.BROTLI_PARAM_SIZE_HINT]: content.length,
+      },
+    });
+  }
+  return gzipAsync(content, { level: constants.Z_BEST_COMPRESSION });
+}
+
+/**
+ * Writes brotli and gzip variants of compressible build files to
+ * `outputDir`, mirroring the build directory layout. Returns the variants
+ * kept for each file, keyed by the file path relative to `sourceDir`.
+ */
+export async function precompressAssets(
+  sourceDir: string,
+  files: string[],
+  outputDir: string,
+): Promise<Map<string, PrecompressedVariant[]>> {
+  const result = new Map<string, PrecompressedVariant[]>();
+
+  for (const file of files) {
+    if (!isCompressibleFile(file)) continue;
+
+    const content = await readFile(join(sourceDir, file));
+    if (content.length < MIN_SIZE_BYTES) continue;
+
+    const variants: PrecompressedVariant[] = [];
+    for (const encoding of Object.keys(
+      ENCODING_EXTENSIONS,
+    ) as ContentEncoding[]) {
+      const compressed = await compress(encoding, content);
+      if (compressed.length > content.length * MIN_RATIO) continue;
+
+      const relativePath = `${file}${ENCODING_EXTENSIONS[encoding]}`;
+      const filePath = join(outputDir, relativePath);
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(filePath, compressed);
+      variants.push({ encoding, filePath, relativePath });
+    }
+
+    if (variants.length > 0) {
+      result.set(file, variants);
+    }
+  }
+
+  return result;
+}
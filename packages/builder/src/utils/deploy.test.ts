@@ -1,4 +1,10 @@
-import { createReadStream, existsSync, mkdirSync, rmSync } from "node:fs";
+import {
+  createReadStream,
+  existsSync,
+  mkdirSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
 import { readFile } from "node:fs/promises";
 import { join } from "node:path";
 import * as unzipper from "unzipper";
@@ -244,6 +250,49 @@ describe("Deploy Utils", () => {
       expect(usersBundled).toContain("Bob");
     });
 
+    it("should add precompressed variants next to app files", async () => {
+      const distDir = join(testDir, "dist");
+      mkdirSync(distDir, { recursive: true });
+      writeFileSync(join(distDir, "index.html"), "<html></html>");
+      writeFileSync(join(testDir, "index.html.br"), "brotli");
+
+      const appFiles = ["index.html"];
+      const result = await createDeploymentArchive(
+        testDir,
+        "test-build-precompressed",
+        appFiles,
+        [],
+        distDir,
+        null,
+        buildManifest(appFiles, []),
+        mockLogger,
+        new Map([
+          [
+            "index.html",
+            [
+              {
+                encoding: "br",
+                filePath: join(testDir, "index.html.br"),
+                relativePath: "index.html.br",
+              },
+            ],
+          ],
+        ]),
+      );
+
+      const extractDir = join(testDir, "extracted-precompressed");
+      mkdirSync(extractDir, { recursive: true });
+
+      await createReadStream(result.path)
+        .pipe(unzipper.Extract({ path: extractDir }))
+        .promise();
+
+      expect(existsSync(join(extractDir, "app", "index.html"))).toBe(true);
+      expect(
+        await readFile(join(extractDir, "app", "index.html.br"), "utf-8"),
+      ).toBe("brotli");
+    });
+
     it("should handle bundling errors gracefully", async () => {
       const appFiles = ["index.html"];
       const routes: Route[] = [
@@ -4,36 +4,68 @@ import {
   mkdirSync,
   readFileSync,
 } from "node:fs";
-import { readdir, stat } from "node:fs/promises";
-import { join, relative } from "node:path";
+import { readdir, readFile, stat } from "node:fs/promises";
+import { join, posix, relative } from "node:path";
+import {
+  extractFunctionConfig,
+  extractHandlerMethods,
+  type FunctionConfig,
+} from "@origan/function-config";
 import archiver from "archiver";
 import * as esbuild from "esbuild";
 import { getConfig } from "../config.js";
 import { createControlApiClient } from "../libs/client.js";
+import {
+  type ContentEncoding,
+  type PrecompressedVariant,
+  precompressAssets,
+} from "./compress.js";
 import type { Logger } from "./logger.js";
+import { type HeaderRule, readOriganConfig } from "./origan-config.js";
 
 interface Route {
   urlPath: string;
   functionPath: string;
+  // Methods with a named handler export, all methods when undefined
+  methods?: string[];
+  // Function paths of the middleware run before the route, outermost first
+  middleware?: string[];
 }
 
+const MIDDLEWARE_FILE = /^_middleware\.(js|ts|jsx|tsx|mjs)$/;
+
 interface BundleResult {
   path: string;
   size: number;
 }
 
 interface ManifestResource {
-  kind: "static" | "dynamic";
+  kind: "static" | "dynamic" | "cron";
   urlPath: string;
   resourcePath: string;
   methods?: string[];
   headers?: Record<string, string>;
   wildcard?: boolean;
+  encodings?: Partial<Record<ContentEncoding, string>>;
+  timeoutMs?: number;
+  memoryLimitMb?: number;
+  maxBodyBytes?: number;
+  middleware?: string[];
+  schedule?: string;
+}
+
+interface ManifestRouting {
+  spaFallback?: boolean;
+  cleanUrls?: boolean;
+  trailingSlash?: "always" | "never" | "ignore";
+  errorPages?: Record<string, string>;
 }
 
 interface DeploymentManifest {
   version: number;
   resources: ManifestResource[];
+  routing?: ManifestRouting;
+  headers?: HeaderRule[];
 }
 
 const controlApiClient = createControlApiClient(
@@ -63,6 +95,25 @@ const listdirPath = async (
 
 const toPosixPath = (value: string) => value.replace(/\\/g, "/");
 
+const ERROR_PAGE_STATUSES = ["404", "500"];
+
+// Picks up root level 404.html / 500.html as custom error pages
+const detectRouting = (appFiles: string[]): ManifestRouting | undefined => {
+  const files = new Set(appFiles.map(toPosixPath));
+  const errorPages = Object.fromEntries(
+    ERROR_PAGE_STATUSES.filter((status) => files.has(`${status}.html`)).map(
+      (status) => [status, `/${status}.html`],
+    ),
+  );
+  if (Object.keys(errorPages).length === 0) {
+    return undefined;
+  }
+  // A site shipping its own 404 page is not a single-page app
+  return errorPages["404"]
+    ? { spaFallback: false, errorPages }
+    : { errorPages };
+};
+
 const normalizeUrlPath = (value: string) => {
   const normalized = toPosixPath(value);
   const trimmed = normalized.replace(/^\/+/, "").replace(/\/+$/, "");
@@ -164,6 +215,7 @@ async function createDeploymentArchive(
   apiPath: string | null,
   manifest: DeploymentManifest,
   logger: Logger,
+  precompressed: Map<string, PrecompressedVariant[]> = new Map(),
 ): Promise<BundleResult> {
   // Bundle API routes first (before creating the Promise)
   const bundledRoutes: Array<{ code: string; route: Route }> = [];
@@ -198,6 +250,12 @@ async function createDeploymentArchive(
     for (const file of appFiles) {
       const fullPath = join(distPath, file);
       archive.file(fullPath, { name: join("app", file) });
+
+      for (const variant of precompressed.get(file) ?? []) {
+        archive.file(variant.filePath, {
+          name: join("app", variant.relativePath),
+        });
+      }
     }
 
     // Add bundled API routes to zip
@@ -216,15 +274,33 @@ async function createDeploymentArchive(
   });
 }
 
+// Middleware applies to every route of its directory and subdirectories,
+// outermost directory first
+function findRouteMiddleware(route: Route, middleware: Route[]) {
+  const depth = (dir: string) => (dir === "." ? 0 : dir.split("/").length);
+  const chain = middleware
+    .map((entry) => ({
+      functionPath: entry.functionPath,
+      dir: posix.dirname(entry.functionPath),
+    }))
+    .filter(
+      ({ dir }) => dir === "." || route.functionPath.startsWith(`${dir}/`),
+    )
+    .sort((a, b) => depth(a.dir) - depth(b.dir))
+    .map(({ functionPath }) => functionPath);
+  return chain.length > 0 ? chain : undefined;
+}
+
 async function detectApiRoutes(
   apiPath: string,
   logger: Logger,
-): Promise<Route[]> {
+): Promise<{ routes: Route[]; middleware: Route[] }> {
   const routes: Route[] = [];
+  const middleware: Route[] = [];
 
   if (!existsSync(apiPath)) {
     await logger.info("No /api directory found, skipping API route detection");
-    return routes;
+    return { routes, middleware };
   }
 
   await logger.info("Detecting API routes...");
@@ -240,8 +316,15 @@ async function detectApiRoutes(
         // Recursively scan subdirectories
         await scanDirectory(itemPath, join(basePath, item));
       } else if (stats.isFile()) {
-        // Check if it's a valid API file
-        if (
+        if (MIDDLEWARE_FILE.test(item)) {
+          const functionPath = join(basePath, item).replace(/\\/g, "/");
+          middleware.push({
+            urlPath: normalizeUrlPath(join("/api", basePath)),
+            functionPath,
+          });
+          await logger.info(`Found API middleware: ${functionPath}`);
+          // Check if it's a valid API file
+        } else if (
           item.match(/\.(js|ts|jsx|tsx|mjs)$/) &&
           !item.includes(".test.") &&
           !item.includes(".spec.")
@@ -254,12 +337,19 @@ async function detectApiRoutes(
 
           const functionPath = join(basePath, item).replace(/\\/g, "/");
 
+          const methods = extractHandlerMethods(
+            await readFile(itemPath, "utf-8"),
+          );
+
           routes.push({
             urlPath,
             functionPath,
+            methods,
           });
 
-          await logger.info(`Found API route: ${urlPath} -> ${functionPath}`);
+          await logger.info(
+            `Found API route: ${urlPath} -> ${functionPath}${methods ? ` (${methods.join(", ")})` : ""}`,
+          );
         }
       }
     }
@@ -267,8 +357,12 @@ async function detectApiRoutes(
 
   await scanDirectory(apiPath);
 
+  for (const route of routes) {
+    route.middleware = findRouteMiddleware(route, middleware);
+  }
+
   await logger.info(`Detected ${routes.length} API routes`);
-  return routes;
+  return { routes, middleware };
 }
 
 export interface CreateDeploymentOptions {
@@ -295,7 +389,37 @@ export async function createDeployment(options: CreateDeploymentOptions) {
 
   // Detect and bundle API routes
   const apiPath = join(process.cwd(), "api");
-  const apiRoutes = await detectApiRoutes(apiPath, logger);
+  const { routes: apiRoutes, middleware } = await detectApiRoutes(
+    apiPath,
+    logger,
+  );
+
+  const origanConfig = readOriganConfig(process.cwd());
+
+  // A config export in the function wins over origan.jsonc
+  const functionsConfig = origanConfig.functions ?? {};
+  const routeConfigs = new Map<string, FunctionConfig>(
+    apiRoutes.map((route) => [
+      route.urlPath,
+      {
+        ...functionsConfig[route.urlPath],
+        ...extractFunctionConfig(
+          readFileSync(join(apiPath, route.functionPath), "utf-8"),
+        ),
+      },
+    ]),
+  );
+
+  const precompressed = getConfig().PRECOMPRESS_ASSETS
+    ? await precompressAssets(
+        buildDir,
+        appFiles,
+        join(workDir, ".origan", "precompressed"),
+      )
+    : new Map<string, PrecompressedVariant[]>();
+  if (precompressed.size > 0) {
+    await logger.info(`Precompressed ${precompressed.size} static assets`);
+  }
 
   // Create deployment manifest
   const manifest: DeploymentManifest = {
@@ -303,30 +427,57 @@ export async function createDeployment(options: CreateDeploymentOptions) {
     resources: [
       ...appFiles.map((file) => {
         const normalized = toPosixPath(file);
+        const variants = precompressed.get(file);
         return {
           kind: "static" as const,
           urlPath: `/${normalized}`,
           resourcePath: toPosixPath(join("app", normalized)),
+          ...(variants && {
+            encodings: Object.fromEntries(
+              variants.map((variant) => [
+                variant.encoding,
+                toPosixPath(join("app", variant.relativePath)),
+              ]),
+            ),
+          }),
         };
       }),
       ...apiRoutes.map((route) => ({
-        kind: "dynamic" as const,
+        // Scheduled functions are invoked by control-api only
+        kind: routeConfigs.get(route.urlPath)?.schedule
+          ? ("cron" as const)
+          : ("dynamic" as const),
         urlPath: route.urlPath,
         resourcePath: toPosixPath(join("api", route.functionPath)),
+        ...(route.methods && { methods: route.methods }),
+        ...(route.middleware && {
+          middleware: route.middleware.map((functionPath) =>
+            toPosixPath(join("api", functionPath)),
+          ),
+        }),
+        ...routeConfigs.get(route.urlPath),
       })),
     ],
   };
+  const routing = detectRouting(appFiles);
+  if (routing) {
+    manifest.routing = routing;
+  }
+  if (origanConfig.headers && origanConfig.headers.length > 0) {
+    manifest.headers = origanConfig.headers;
+  }
 
   // Create archive
   const bundle = await createDeploymentArchive(
     artifactsDir,
     buildId,
     appFiles,
-    apiRoutes,
+    [...middleware, ...apiRoutes],
     buildDir,
     existsSync(apiPath) ? apiPath : null,
     manifest,
     logger,
+    precompressed,
   );
 
   await logger.info("Uploading deployment...");
@@ -360,9 +511,9 @@ export async function createDeployment(options: CreateDeploymentOptions) {
 }
 
 export {
+  type BundleResult,
   bundleApiRoute,
   createDeploymentArchive,
-  type Route,
-  type BundleResult,
   type DeploymentManifest,
+  type Route,
 };
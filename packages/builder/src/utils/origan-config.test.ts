@@ -0,0 +1,42 @@
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { readOriganConfig } from "./origan-config.js";
+
+describe("readOriganConfig", () => {
+  const testDir = join(process.cwd(), "test-temp-origan-config");
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it("reads deployment settings from origan.jsonc", () => {
+    mkdirSync(testDir, { recursive: true });
+    writeFileSync(
+      join(testDir, "origan.jsonc"),
+      `{
+        // Project settings
+        "version": 1,
+        "appDir": "dist",
+        "functions": {
+          /* Long running export */
+          "/api/report": { "timeoutMs": 120000, },
+        },
+        "headers": [
+          { "source": "/*", "set": { "X-Frame-Options": "DENY" } },
+        ],
+      }`,
+    );
+
+    expect(readOriganConfig(testDir)).toEqual({
+      functions: { "/api/report": { timeoutMs: 120000 } },
+      headers: [{ source: "/*", set: { "X-Frame-Options": "DENY" } }],
+    });
+  });
+
+  it("returns an empty config without origan.jsonc", () => {
+    expect(readOriganConfig(testDir)).toEqual({});
+  });
+});
@@ -0,0 +1,65 @@
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { FunctionConfig } from "@origan/function-config";
+
+export interface HeaderRule {
+  source: string;
+  add?: Record<string, string>;
+  set?: Record<string, string>;
+  remove?: string[];
+}
+
+export interface OriganConfigFile {
+  /** Per-route function limits, keyed by route path (e.g. `/api/report`) */
+  functions?: Record<string, FunctionConfig>;
+  headers?: HeaderRule[];
+}
+
+/**
+ * Deployment settings of origan.jsonc that the builder forwards to the
+ * manifest. The file is optional for builds triggered from GitHub.
+ */
+export function readOriganConfig(projectDir: string): OriganConfigFile {
+  const configPath = join(projectDir, "origan.jsonc");
+  if (!existsSync(configPath)) {
+    return {};
+  }
+  const parsed = JSON.parse(
+    stripJsonComments(readFileSync(configPath, "utf-8")),
+  );
+  return {
+    functions: parsed?.functions,
+    headers: parsed?.headers,
+  };
+}
+
+// The builder does not ship a JSONC parser: drop comments and trailing
+// commas, leaving string contents untouched
+function stripJsonComments(content: string) {
+  let output = "";
+  let inString = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inString) {
+      output += char;
+      if (char === "\\") {
+        output += content[++i] ?? "";
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      output += char;
+    } else if (char === "/" && content[i + 1] === "/") {
+      while (i < content.length && content[i] !== "\n") i++;
+      output += "\n";
+    } else if (char === "/" && content[i + 1] === "*") {
+      i = content.indexOf("*/", i + 2);
+      if (i === -1) break;
+      i++;
+    } else {
+      output += char;
+    }
+  }
+  return output.replace(/,(\s*[}\]])/g, "$1");
+}
@@ -0,0 +1,110 @@
+import { Command, Option } from "clipanion";
+import { checkAuthStatus } from "../services/auth.service.js";
+import { purgeResponseCache } from "../services/cache.service.js";
+import { log } from "../utils/logger.js";
+import {
+  OriganConfigInvalidError,
+  OriganConfigNotFoundError,
+  parseOriganConfig,
+} from "../utils/origan.js";
+
+async function getProjectFromConfig() {
+  try {
+    const config = await parseOriganConfig();
+    return config.projectRef;
+  } catch (error) {
+    let err: string;
+    if (error instanceof OriganConfigNotFoundError) {
+      err = "No origan.jsonc file found. Retry in a project directory";
+    } else if (error instanceof OriganConfigInvalidError) {
+      err = `Invalid origan.jsonc file: ${error.message}. Fix the error`;
+    } else {
+      throw error;
+    }
+    log.error(`${err} or pass \`--project <project-ref>\` as an argument.`);
+    return;
+  }
+}
+
+export class CachePurgeCommand extends Command {
+  static paths = [["cache", "purge"]];
+
+  static usage = Command.Usage({
+    description: "Purge cached function responses",
+    details:
+      "Drops the responses the gateways cached for the project's functions. Responses are matched by path prefix or by the tags of their `Cache-Tag` header. Without any, every cached response of the deployment, or of the whole project, is dropped.",
+    examples: [
+      ["Purge the whole project", "$0 cache purge"],
+      ["Purge a path prefix", "$0 cache purge --prefix /api/posts"],
+      ["Purge tagged responses", "$0 cache purge --tag posts --tag home"],
+      ["Purge one deployment", "$0 cache purge --deployment <deployment-ref>"],
+    ],
+  });
+
+  project = Option.String("-p,--project", {
+    description: "Project reference",
+  });
+
+  deployment = Option.String("-d,--deployment", {
+    description: "Deployment reference, defaults to every deployment",
+  });
+
+  prefixes = Option.Array("--prefix", {
+    description: "Path prefix of the responses to purge",
+  });
+
+  tags = Option.Array("--tag", {
+    description: "Cache tag of the responses to purge",
+  });
+
+  async execute() {
+    const projectRef = this.project || (await getProjectFromConfig());
+    if (!projectRef) {
+      return 1;
+    }
+
+    const isAuthenticated = await checkAuthStatus();
+    if (!isAuthenticated) {
+      log.error("You need to be logged in to purge the cache.");
+      log.info("Run 'origan login' to authenticate.");
+      return 1;
+    }
+
+    const invalidPrefix = this.prefixes?.find(
+      (prefix) => !prefix.startsWith("/"),
+    );
+    if (invalidPrefix) {
+      log.error(`Invalid prefix: ${invalidPrefix}. Prefixes start with /`);
+      return 1;
+    }
+
+    try {
+      const result = await purgeResponseCache(projectRef, {
+        deploymentReference: this.deployment,
+        pathPrefixes: this.prefixes,
+        tags: this.tags,
+      });
+
+      const targets = [
+        ...result.pathPrefixes.map((prefix) => `prefix ${prefix}`),
+        ...result.tags.map((tag) => `tag ${tag}`),
+      ];
+      const scope = result.deploymentReference
+        ? `deployment ${result.deploymentReference}`
+        : "all deployments";
+      log.success(
+        targets.length > 0
+          ? `Purged cached responses matching ${targets.join(", ")} (${scope})`
+          : `Purged every cached response (${scope})`,
+      );
+    } catch (error) {
+      log.error(
+        "Failed to purge the cache:",
+        error instanceof Error ? error.message : "Unknown error",
+      );
+      return 1;
+    }
+
+    return 0;
+  }
+}
@@ -1,6 +1,7 @@
 #!/usr/bin/env node
 import { Cli } from "clipanion";
 import { LoginCommand, LogoutCommand, WhoamiCommand } from "./commands/auth.js";
+import { CachePurgeCommand } from "./commands/cache.js";
 import { DeployCommand } from "./commands/deploy.js";
 import { DevCommand } from "./commands/dev.js";
 import {
@@ -34,5 +35,6 @@ cli.register(EnvListCommand);
 cli.register(EnvGetVarsCommand);
 cli.register(EnvSetVarCommand);
 cli.register(EnvUnsetVarCommand);
+cli.register(CachePurgeCommand);
 
 cli.runExit(process.argv.slice(2));
@@ -0,0 +1,23 @@
+import { trpc } from "../libs/trpc-client.js";
+import { getCurrentOrganization } from "./organization.service.js";
+
+export async function purgeResponseCache(
+  projectReference: string,
+  options: {
+    deploymentReference?: string;
+    pathPrefixes?: string[];
+    tags?: string[];
+  },
+) {
+  const currentOrg = await getCurrentOrganization();
+  if (!currentOrg) {
+    throw new Error("No organization selected");
+  }
+
+  return trpc.cache.purge.mutate({
+    projectReference,
+    deploymentReference: options.deploymentReference,
+    pathPrefixes: options.pathPrefixes,
+    tags: options.tags,
+  });
+}
@@ -1,7 +1,16 @@
 import { readFile, stat, writeFile } from "node:fs/promises";
-import { join, relative } from "node:path";
+import { basename, join, relative } from "node:path";
+import {
+  extractFunctionConfig,
+  type FunctionConfig,
+} from "@origan/function-config";
 import { trpc } from "../libs/trpc-client.js";
 import type { OriganConfig } from "../types.js";
+import {
+  type ContentEncoding,
+  type PrecompressedVariant,
+  precompressAssets,
+} from "../utils/compress.js";
 import {
   cleanDirectory,
   collectFiles,
@@ -15,45 +24,162 @@ import {
   parseOriganConfig,
 } from "../utils/origan.js";
 import type { Route } from "../utils/path.js";
-import { createRouteFromFile } from "../utils/path.js";
+import {
+  createMiddlewareFromFile,
+  createRouteFromFile,
+  findRouteMiddleware,
+  MIDDLEWARE_FILE,
+} from "../utils/path.js";
 import { bundleApiRoute, createDeploymentArchive } from "../utils/zip.js";
 import { getProjectByRef } from "./project.service.js";
 
 interface ManifestResource {
-  kind: "static" | "dynamic";
+  kind: "static" | "dynamic" | "cron";
   urlPath: string;
   resourcePath: string;
   methods?: string[];
   headers?: Record<string, string>;
   wildcard?: boolean;
+  encodings?: Partial<Record<ContentEncoding, string>>;
+  timeoutMs?: number;
+  memoryLimitMb?: number;
+  maxBodyBytes?: number;
+  middleware?: string[];
+  schedule?: string;
+}
+
+interface ManifestRule {
+  type: "redirect" | "rewrite";
+  source: string;
+  destination: string;
+  status?: number;
+  preserveQuery?: boolean;
+  conditions?: {
+    host?: string;
+  };
+}
+
+interface ManifestHeaderRule {
+  source: string;
+  add?: Record<string, string>;
+  set?: Record<string, string>;
+  remove?: string[];
+}
+
+interface ManifestRouting {
+  spaFallback?: boolean;
+  cleanUrls?: boolean;
+  trailingSlash?: "always" | "never" | "ignore";
+  errorPages?: Record<string, string>;
 }
 
 interface DeploymentManifest {
   version: number;
   resources: ManifestResource[];
+  rules?: ManifestRule[];
+  routing?: ManifestRouting;
+  headers?: ManifestHeaderRule[];
+}
+
+const ERROR_PAGE_STATUSES = ["404", "500"];
+
+function generateRouting(
+  config: OriganConfig,
+  appFiles: string[],
+  appDir: string,
+): ManifestRouting | undefined {
+  const relPaths = new Set(
+    appFiles.map((file) => relative(appDir, file).replace(/\\/g, "/")),
+  );
+  const detectedErrorPages = Object.fromEntries(
+    ERROR_PAGE_STATUSES.filter((status) => relPaths.has(`${status}.html`)).map(
+      (status) => [status, `/${status}.html`],
+    ),
+  );
+
+  const errorPages = {
+    ...detectedErrorPages,
+    ...config.routing?.errorPages,
+  };
+  const routing: ManifestRouting = {
+    // A site shipping its own 404 page is not a single-page app
+    ...(errorPages["404"] && { spaFallback: false }),
+    ...config.routing,
+    ...(Object.keys(errorPages).length > 0 && { errorPages }),
+  };
+
+  return Object.keys(routing).length > 0 ? routing : undefined;
+}
+
+function generateRules(config: OriganConfig): ManifestRule[] {
+  return [
+    ...(config.redirects ?? []).map((rule) => ({
+      type: "redirect" as const,
+      ...rule,
+    })),
+    ...(config.rewrites ?? []).map((rule) => ({
+      type: "rewrite" as const,
+      ...rule,
+    })),
+  ];
+}
+
+async function generateFunctionConfigs(
+  config: OriganConfig,
+  routes: Route[],
+): Promise<Map<string, FunctionConfig>> {
+  const configs = new Map<string, FunctionConfig>();
+  for (const route of routes) {
+    const source = await readFile(route.filePath, "utf-8");
+    // A config export in the function wins over origan.jsonc
+    configs.set(route.urlPath, {
+      ...config.functions?.[route.urlPath],
+      ...extractFunctionConfig(source),
+    });
+  }
+  return configs;
 }
 
 function generateManifest(
   appFiles: string[],
   api: Route[],
   appDir: string,
+  precompressed: Map<string, PrecompressedVariant[]>,
+  functionConfigs: Map<string, FunctionConfig>,
 ): DeploymentManifest {
   const toPosix = (value: string) => value.replace(/\\/g, "/");
   return {
     version: 1,
     resources: [
       ...appFiles.map((file) => {
-        const relPath = toPosix(relative(appDir, file));
+        const relPath = relative(appDir, file);
+        const variants = precompressed.get(relPath);
         return {
           kind: "static",
-          urlPath: `/${relPath}`,
+          urlPath: `/${toPosix(relPath)}`,
           resourcePath: toPosix(join("app", relPath)),
+          ...(variants && {
+            encodings: Object.fromEntries(
+              variants.map((variant) => [
+                variant.encoding,
+                toPosix(join("app", variant.relativePath)),
+              ]),
+            ),
+          }),
         };
       }),
       ...api.map((route) => ({
-        kind: "dynamic",
+        // Scheduled functions are invoked by control-api only
+        kind: functionConfigs.get(route.urlPath)?.schedule ? "cron" : "dynamic",
         urlPath: route.urlPath,
         resourcePath: toPosix(join("api", route.bundlePath)),
+        ...(route.methods && { methods: route.methods }),
+        ...(route.middleware && {
+          middleware: route.middleware.map((bundlePath) =>
+            toPosix(join("api", bundlePath)),
+          ),
+        }),
+        ...functionConfigs.get(route.urlPath),
       })),
     ],
   };
@@ -149,19 +275,38 @@ export async function deploy(trackName?: string): Promise<void> {
 
     // Discover API routes if api directory exists
     let routes: Route[] = [];
+    let middleware: Route[] = [];
 
     if (apiDir && validateDirectory(apiDir)) {
       log.info("Discovering API routes...");
 
-      const apiFiles = collectFiles(apiDir).filter(
-        (file) => file.endsWith(".ts") && !file.includes("/_"),
+      const apiFiles = collectFiles(apiDir).filter((file) =>
+        file.endsWith(".ts"),
       );
 
-      routes = apiFiles
-        .map((file) => createRouteFromFile(apiDir, file))
+      middleware = apiFiles
+        .filter((file) => basename(file) === MIDDLEWARE_FILE)
+        .map((file) => createMiddlewareFromFile(apiDir, file));
+
+      routes = (
+        await Promise.all(
+          apiFiles
+            .filter((file) => !file.includes("/_"))
+            .map(async (file) =>
+              createRouteFromFile(apiDir, file, await readFile(file, "utf-8")),
+            ),
+        )
+      )
+        .map((route) => ({
+          ...route,
+          middleware: findRouteMiddleware(route, middleware),
+        }))
         .sort((a, b) => a.urlPath.length - b.urlPath.length);
 
       log.info(`Found ${routes.length} API routes`);
+      if (middleware.length > 0) {
+        log.info(`Found ${middleware.length} middleware`);
+      }
     } else if (config.apiDir) {
       log.info(`No ${config.apiDir}/ directory found, skipping API routes`);
     }
@@ -177,13 +322,44 @@ export async function deploy(trackName?: string): Promise<void> {
     }
     log.info(`Found ${appFiles.length} app files in ${config.appDir}/`);
 
+    const precompressed =
+      config.precompress === false
+        ? new Map<string, PrecompressedVariant[]>()
+        : await precompressAssets(
+            appDir,
+            appFiles.map((file) => relative(appDir, file)),
+            join(buildDir, "precompressed"),
+          );
+    if (precompressed.size > 0) {
+      log.info(`Precompressed ${precompressed.size} static assets`);
+    }
+
     log.info("Generating deployment manifest...");
-    const deployConfig = generateManifest(appFiles, routes, appDir);
+    const deployConfig = generateManifest(
+      appFiles,
+      routes,
+      appDir,
+      precompressed,
+      await generateFunctionConfigs(config, routes),
+    );
+    const rules = generateRules(config);
+    if (rules.length > 0) {
+      deployConfig.rules = rules;
+      log.info(`Added ${rules.length} redirect/rewrite rules`);
+    }
+    const routing = generateRouting(config, appFiles, appDir);
+    if (routing) {
+      deployConfig.routing = routing;
+    }
+    if (config.headers && config.headers.length > 0) {
+      deployConfig.headers = config.headers;
+      log.info(`Added ${config.headers.length} header rules`);
+    }
 
-    // Bundle routes
+    // Bundle routes, and the middleware they chain
     if (routes.length > 0) {
       log.info("\nProcessing API routes:");
-      for (const route of routes) {
+      for (const route of [...middleware, ...routes]) {
         try {
           const content = await bundleApiRoute(route);
           await writeFile(
@@ -210,10 +386,11 @@ export async function deploy(trackName?: string): Promise<void> {
       artifactsDir,
       uuid,
       appFiles,
-      routes,
+      [...middleware, ...routes],
       appDir,
       join(buildDir, "api"),
       deployConfig,
+      precompressed,
     );
 
     log.success("\nDeployment Summary:");
@@ -1,5 +1,89 @@
 import { z } from "zod";
 
+const ruleConditionsSchema = z.object({
+  /** Only apply the rule on this host (`*.` prefix for subdomains) */
+  host: z.string().optional(),
+});
+
+/**
+ * Redirect rule, e.g. `/old-blog/*` -> `/blog/:splat`
+ */
+export const redirectRuleSchema = z.object({
+  /** Route pattern, supports `:param` segments and a trailing `*` */
+  source: z.string().startsWith("/"),
+  /** Path or URL, `:param` and `:splat` are replaced by captured values */
+  destination: z.string().min(1),
+  /** Redirect status code (defaults to 301) */
+  status: z
+    .union([
+      z.literal(301),
+      z.literal(302),
+      z.literal(303),
+      z.literal(307),
+      z.literal(308),
+    ])
+    .optional(),
+  /** Append the request query string to the destination (defaults to true) */
+  preserveQuery: z.boolean().optional(),
+  conditions: ruleConditionsSchema.optional(),
+});
+
+/**
+ * Rewrite rule: serves another path, or proxies to an absolute URL
+ */
+export const rewriteRuleSchema = redirectRuleSchema.omit({ status: true });
+
+/**
+ * How static paths are resolved. Error pages are detected from `404.html`
+ * and `500.html` at the root of `appDir` unless set explicitly.
+ */
+export const routingSchema = z.object({
+  /** Serve index.html for unknown paths (defaults to true without 404.html) */
+  spaFallback: z.boolean().optional(),
+  /** Resolve `/about` to `about.html` */
+  cleanUrls: z.boolean().optional(),
+  /** Redirect to add or remove trailing slashes */
+  trailingSlash: z.enum(["always", "never", "ignore"]).optional(),
+  /** Page served for each error status, e.g. `{ "404": "/404.html" }` */
+  errorPages: z
+    .record(z.string().regex(/^[45]\d\d$/), z.string().startsWith("/"))
+    .optional(),
+});
+
+const headerNameSchema = z
+  .string()
+  .regex(/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/, "Invalid header name");
+
+/**
+ * Response header rule, e.g. security headers on `/*` or CORS on `/api/*`.
+ * Every matching rule applies, in order.
+ */
+export const headerRuleSchema = z.object({
+  /** Route pattern, supports `:param` segments and a trailing `*` */
+  source: z.string().startsWith("/"),
+  /** Headers added when the response does not already have them */
+  add: z.record(headerNameSchema, z.string()).optional(),
+  /** Headers replacing any value set by the response */
+  set: z.record(headerNameSchema, z.string()).optional(),
+  /** Headers removed from the response */
+  remove: z.array(headerNameSchema).optional(),
+});
+
+/**
+ * Limits of an API route, capped by the project's plan. A
+ * `export const config = { ... }` in the function takes precedence.
+ */
+export const functionConfigSchema = z.object({
+  /** Maximum duration of a request, including the streamed response */
+  timeoutMs: z.number().int().positive().optional(),
+  /** Memory available to the function worker */
+  memoryLimitMb: z.number().int().positive().optional(),
+  /** Maximum request body size */
+  maxBodyBytes: z.number().int().positive().optional(),
+  /** Cron expression (UTC) running the function on a schedule instead of over HTTP */
+  schedule: z.string().optional(),
+});
+
 /**
  * Origan configuration schema
  */
@@ -12,6 +96,19 @@ export const origanConfigSchema = z.object({
   apiDir: z.string().optional(),
   /** Reference to the project in the Origan control panel */
   projectRef: z.string(),
+  /** Ship brotli/gzip variants of text assets (defaults to true) */
+  precompress: z.boolean().optional(),
+  /** Redirect rules, evaluated before static files and API routes */
+  redirects: z.array(redirectRuleSchema).optional(),
+  /** Rewrite rules, evaluated before static files and API routes */
+  rewrites: z.array(rewriteRuleSchema).optional(),
+  routing: routingSchema.optional(),
+  /** Response header rules for static files, API routes and error pages */
+  headers: z.array(headerRuleSchema).optional(),
+  /** Per-route function limits, keyed by route path (e.g. `/api/report`) */
+  functions: z
+    .record(z.string().startsWith("/"), functionConfigSchema)
+    .optional(),
 });
 
 /**
@@ -1,6 +1,11 @@
 import { join } from "node:path";
 import { describe, expect, it } from "vitest";
-import { createRouteFromFile, normalizeApiPath } from "./path.js";
+import {
+  createMiddlewareFromFile,
+  createRouteFromFile,
+  findRouteMiddleware,
+  normalizeApiPath,
+} from "./path.js";
 
 describe("cli path utils", () => {
   it("normalizes api paths", () => {
@@ -17,4 +22,33 @@ describe("cli path utils", () => {
     expect(route.urlPath).toBe("/api/users");
     expect(route.bundlePath).toBe("users/index.js");
   });
+
+  it("chains the middleware of the route directories", () => {
+    const apiDir = "/tmp/api";
+    const middleware = [
+      join(apiDir, "admin", "users", "_middleware.ts"),
+      join(apiDir, "_middleware.ts"),
+      join(apiDir, "admin", "_middleware.ts"),
+      join(apiDir, "public", "_middleware.ts"),
+    ].map((file) => createMiddlewareFromFile(apiDir, file));
+
+    expect(middleware[1].urlPath).toBe("/api");
+    expect(middleware[2].urlPath).toBe("/api/admin");
+    expect(
+      findRouteMiddleware(
+        createRouteFromFile(apiDir, join(apiDir, "admin", "users", "[id].ts")),
+        middleware,
+      ),
+    ).toEqual([
+      "_middleware.js",
+      "admin/_middleware.js",
+      "admin/users/_middleware.js",
+    ]);
+    expect(
+      findRouteMiddleware(
+        createRouteFromFile(apiDir, join(apiDir, "hello.ts")),
+        middleware.slice(2),
+      ),
+    ).toBeUndefined();
+  });
 });
@@ -1,11 +1,18 @@
 import { basename, dirname, join, relative } from "node:path";
+import { extractHandlerMethods } from "@origan/function-config";
 
 export interface Route {
   filePath: string;
   urlPath: string;
   bundlePath: string;
+  // Methods with a named handler export, all methods when undefined
+  methods?: string[];
+  // Bundle paths of the middleware run before the route, outermost first
+  middleware?: string[];
 }
 
+export const MIDDLEWARE_FILE = "_middleware.ts";
+
 export interface RouteConfig {
   urlPath: string;
   functionPath: string;
@@ -55,7 +62,11 @@ export function resolveAppFiles(
   );
 }
 
-export function createRouteFromFile(apiDir: string, filePath: string): Route {
+export function createRouteFromFile(
+  apiDir: string,
+  filePath: string,
+  source?: string,
+): Route {
   const relPath = relative(apiDir, filePath);
   const isIndex = basename(filePath) === "index.ts";
 
@@ -70,5 +81,42 @@ export function createRouteFromFile(apiDir: string, filePath: string): Route {
     filePath,
     urlPath,
     bundlePath: relPath.replace(/\.ts$/, ".js"),
+    methods: source ? extractHandlerMethods(source) : undefined,
+  };
+}
+
+// Middleware applies to every route of its directory and subdirectories,
+// its urlPath is the one of the directory
+export function createMiddlewareFromFile(
+  apiDir: string,
+  filePath: string,
+): Route {
+  const relPath = relative(apiDir, filePath);
+  const dir = dirname(relPath);
+
+  return {
+    filePath,
+    urlPath: normalizeApiPath(dir === "." ? "" : dir),
+    bundlePath: relPath.replace(/\.ts$/, ".js"),
   };
 }
+
+export function findRouteMiddleware(
+  route: Route,
+  middleware: Route[],
+): string[] | undefined {
+  const toPosix = (value: string) => value.replace(/\\/g, "/");
+  const depth = (dir: string) => (dir === "." ? 0 : dir.split("/").length);
+  const routePath = toPosix(route.bundlePath);
+
+  const chain = middleware
+    .map((entry) => ({
+      bundlePath: toPosix(entry.bundlePath),
+      dir: toPosix(dirname(entry.bundlePath)),
+    }))
+    .filter(({ dir }) => dir === "." || routePath.startsWith(`${dir}/`))
+    // Outermost directory first
+    .sort((a, b) => depth(a.dir) - depth(b.dir))
+    .map(({ bundlePath }) => bundlePath);
+  return chain.length > 0 ? chain : undefined;
+}
@@ -2,6 +2,7 @@ import { createWriteStream } from "node:fs";
 import { join, relative } from "node:path";
 import archiver from "archiver";
 import * as esbuild from "esbuild";
+import type { ContentEncoding, PrecompressedVariant } from "./compress.js";
 import type { Route } from "./path.js";
 
 export interface BundleResult {
@@ -38,14 +39,16 @@ export async function createDeploymentArchive(
   manifest: {
     version: number;
     resources: {
-      kind: "static" | "dynamic";
+      kind: "static" | "dynamic" | "cron";
       urlPath: string;
       resourcePath: string;
       methods?: string[];
       headers?: Record<string, string>;
       wildcard?: boolean;
+      encodings?: Partial<Record<ContentEncoding, string>>;
     }[];
   },
+  precompressed: Map<string, PrecompressedVariant[]> = new Map(),
 ): Promise<BundleResult> {
   return new Promise((resolve, reject) => {
     const zipPath = join(artifactsDir, `${uuid}.zip`);
@@ -66,6 +69,12 @@ export async function createDeploymentArchive(
     for (const file of appFiles) {
       const relativePath = relative(distPath, file);
       archive.file(file, { name: join("app", relativePath) });
+
+      for (const variant of precompressed.get(relativePath) ?? []) {
+        archive.file(variant.filePath, {
+          name: join("app", variant.relativePath),
+        });
+      }
     }
 
     // Add routes to zip
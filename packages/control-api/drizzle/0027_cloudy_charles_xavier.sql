@@ -0,0 +1,3 @@
+ALTER TABLE "domain" ADD COLUMN "force_https" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "domain" ADD COLUMN "hsts_max_age" integer;--> statement-breakpoint
+ALTER TABLE "domain" ADD COLUMN "redirect_to" text;
\ No newline at end of file
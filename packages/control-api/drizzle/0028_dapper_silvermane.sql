@@ -0,0 +1,19 @@
+CREATE TYPE "public"."access_rule_scope" AS ENUM('all', 'dynamic');--> statement-breakpoint
+CREATE TYPE "public"."access_rule_type" AS ENUM('allow', 'deny', 'rate_limit');--> statement-breakpoint
+CREATE TABLE "access_rule" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"track_id" uuid,
+	"type" "access_rule_type" NOT NULL,
+	"cidr" text,
+	"requests" integer,
+	"window_seconds" integer,
+	"key_header" text,
+	"scope" "access_rule_scope" DEFAULT 'all' NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"deleted_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "access_rule" ADD CONSTRAINT "access_rule_project_id_project_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."project"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "access_rule" ADD CONSTRAINT "access_rule_track_id_track_id_fk" FOREIGN KEY ("track_id") REFERENCES "public"."track"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
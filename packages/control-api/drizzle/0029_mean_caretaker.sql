@@ -0,0 +1,4 @@
+ALTER TABLE "environments" ADD COLUMN "protection_password_hash" text;--> statement-breakpoint
+ALTER TABLE "environments" ADD COLUMN "protection_bypass_token_hash" text;--> statement-breakpoint
+ALTER TABLE "track" ADD COLUMN "protection_password_hash" text;--> statement-breakpoint
+ALTER TABLE "track" ADD COLUMN "protection_bypass_token_hash" text;
\ No newline at end of file
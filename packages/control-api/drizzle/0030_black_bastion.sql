@@ -0,0 +1,3 @@
+ALTER TABLE "track" ADD COLUMN "canary_deployment_id" uuid;--> statement-breakpoint
+ALTER TABLE "track" ADD COLUMN "canary_weight" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "track" ADD CONSTRAINT "track_canary_deployment_id_deployment_id_fk" FOREIGN KEY ("canary_deployment_id") REFERENCES "public"."deployment"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TYPE "public"."access_log_source" AS ENUM('static', 'dynamic', 'cache', 'gateway');--> statement-breakpoint
+CREATE TABLE "access_stat" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"deployment_id" uuid NOT NULL,
+	"bucket_start" timestamp with time zone NOT NULL,
+	"path" text NOT NULL,
+	"status_code" integer NOT NULL,
+	"source" "access_log_source" NOT NULL,
+	"requests" integer DEFAULT 0 NOT NULL,
+	"bytes" bigint DEFAULT 0 NOT NULL,
+	"total_duration_ms" bigint DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "access_stat" ADD CONSTRAINT "access_stat_project_id_project_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."project"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "access_stat_bucket_idx" ON "access_stat" USING btree ("project_id","bucket_start","deployment_id","path","status_code","source");
\ No newline at end of file
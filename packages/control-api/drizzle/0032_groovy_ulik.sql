@@ -0,0 +1,19 @@
+CREATE TYPE "public"."cron_run_status" AS ENUM('running', 'success', 'error');--> statement-breakpoint
+CREATE TABLE "cron_run" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"deployment_id" uuid NOT NULL,
+	"url_path" text NOT NULL,
+	"schedule" text NOT NULL,
+	"scheduled_at" timestamp with time zone NOT NULL,
+	"started_at" timestamp with time zone NOT NULL,
+	"finished_at" timestamp with time zone,
+	"duration_ms" integer,
+	"status" "cron_run_status" DEFAULT 'running' NOT NULL,
+	"status_code" integer,
+	"error" text
+);
+--> statement-breakpoint
+ALTER TABLE "cron_run" ADD CONSTRAINT "cron_run_project_id_project_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."project"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cron_run" ADD CONSTRAINT "cron_run_deployment_id_deployment_id_fk" FOREIGN KEY ("deployment_id") REFERENCES "public"."deployment"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "cron_run_slot_idx" ON "cron_run" USING btree ("deployment_id","url_path","scheduled_at");
\ No newline at end of file
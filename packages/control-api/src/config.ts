@@ -23,6 +23,9 @@ export const config = z.object({
 
   // Security Configuration
   JWT_SECRET: z.string(),
+  // Sent by the gateways to read domain configs, which hold the preview
+  // protection hashes
+  GATEWAY_TOKEN: z.string().min(32),
 
   EVENTS_NATS_SERVER: z.string(),
   EVENTS_NATS_NKEY_CREDS: z.string().optional(),
@@ -31,6 +34,31 @@ export const config = z.object({
   AXIOM_TOKEN: z.string().optional(),
   AXIOM_DATASET: z.string().optional(),
 
+  // Plan limits for per-route function settings declared in manifests
+  FUNCTION_MAX_TIMEOUT_MS: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(5 * 60 * 1000),
+  FUNCTION_MAX_MEMORY_MB: z.coerce.number().int().positive().default(512),
+  FUNCTION_MAX_BODY_BYTES: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(50 * 1024 * 1024),
+
+  // Hourly traffic statistics older than this are deleted
+  ANALYTICS_RETENTION_DAYS: z.coerce.number().int().positive().default(90),
+
+  // Runner invoked by the cron scheduler, scheduled functions do not run
+  // when unset
+  RUNNER_URL: z.string().optional(),
+  // Scheduled function executions older than this are deleted
+  CRON_HISTORY_RETENTION_DAYS: z.coerce.number().int().positive().default(30),
+
+  // Bearer token required to scrape /metrics, open when unset
+  METRICS_TOKEN: z.string().optional(),
+
   // ACME/SSL Configuration
   ACME_ACCOUNT_KEY: z.string().optional(),
   ACME_SERVER_URL: z.string().optional(),
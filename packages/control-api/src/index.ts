@@ -9,7 +9,10 @@ import { getLogger, loggerMiddleware } from "./instrumentation.js";
 import { csrf } from "./middleware/csrf.js";
 import { authRouter } from "./routers/auth.js";
 import { githubRouter } from "./routers/github.js";
+import { metricsRouter } from "./routers/metrics.js";
+import { startAccessLogsConsumer } from "./service/analytics/index.js";
 import { startBuildEventsConsumer } from "./service/build/index.js";
+import { startCronScheduler } from "./service/cron/index.js";
 import { createContext } from "./trpc/context.js";
 import { appRouter } from "./trpc/router.js";
 
@@ -26,6 +29,19 @@ await startBuildEventsConsumer({
 
 log.info("Build events consumer started");
 
+// Aggregate the gateway access logs into hourly traffic statistics
+await startAccessLogsConsumer();
+
+log.info("Access logs consumer started");
+
+// Invoke the scheduled functions of active deployments
+if (env.RUNNER_URL) {
+  startCronScheduler(env.RUNNER_URL);
+  log.info("Cron scheduler started");
+} else {
+  log.warn("RUNNER_URL is not set, scheduled functions will not run");
+}
+
 // Create Hono app with TRPC
 const app = new Hono()
   .use(requestId())
@@ -39,6 +55,7 @@ const app = new Hono()
   )
   .use(csrf())
   .get("/.healthz", (c) => c.json({ message: "OK" }))
+  .route("/metrics", metricsRouter)
   .route("/auth", authRouter)
   .route("/github", githubRouter)
   .use(
@@ -50,6 +67,7 @@ const app = new Hono()
         // Return as plain object for TRPC
         return {
           userId: ctx.userId,
+          isGateway: ctx.isGateway,
           db: ctx.db,
           honoCtx: ctx.honoCtx,
         };
@@ -1,5 +1,7 @@
 import { relations } from "drizzle-orm";
 import {
+  type AnyPgColumn,
+  bigint,
   boolean,
   integer, // Add integer type
   jsonb,
@@ -85,6 +87,15 @@ export const trackSchema = pgTable(
     environmentId: uuid("environment_id").references(
       () => environmentsSchema.id,
     ),
+    // Preview protection, overrides the one of the environment when set
+    protectionPasswordHash: text("protection_password_hash"),
+    protectionBypassTokenHash: text("protection_bypass_token_hash"),
+    // Candidate deployment receiving canaryWeight percent of the traffic
+    canaryDeploymentId: uuid("canary_deployment_id").references(
+      (): AnyPgColumn => deploymentSchema.id,
+      { onDelete: "set null" },
+    ),
+    canaryWeight: integer("canary_weight").notNull().default(0),
     ...timestamps,
   },
   (table) => ({
@@ -119,6 +130,9 @@ export const environmentsSchema = pgTable(
     name: text("name").notNull(),
     isSystem: boolean("is_system").notNull().default(false),
     isDefault: boolean("is_default").notNull().default(false),
+    // Preview protection of every track using this environment
+    protectionPasswordHash: text("protection_password_hash"),
+    protectionBypassTokenHash: text("protection_bypass_token_hash"),
     ...timestamps,
   },
   (table) => ({
@@ -305,6 +319,12 @@ export const domainSchema = pgTable("domain", {
     withTimezone: true,
   }),
   lastCertificateError: text("last_certificate_error"),
+  // Redirect plain HTTP requests to HTTPS
+  forceHttps: boolean("force_https").notNull().default(false),
+  // Strict-Transport-Security max-age in seconds, null disables the header
+  hstsMaxAge: integer("hsts_max_age"),
+  // Another domain of the same track every request is redirected to
+  redirectTo: text("redirect_to"),
   ...timestamps,
 });
 
@@ -485,6 +505,7 @@ export const projectRelations = relations(projectSchema, ({ many, one }) => ({
   environments: many(environmentsSchema),
   tracks: many(trackSchema),
   githubBranchRules: many(githubBranchRuleSchema),
+  accessRules: many(accessRuleSchema),
 }));
 
 export const buildStatusEnum = pgEnum("build_status", [
@@ -528,3 +549,133 @@ export const buildRelations = relations(buildSchema, ({ one }) => ({
     relationName: "deployment_build",
   }),
 }));
+
+// Access rules enforced by the gateway, for a whole project or a single track
+export const accessRuleTypeEnum = pgEnum("access_rule_type", [
+  "allow",
+  "deny",
+  "rate_limit",
+]);
+
+export const accessRuleScopeEnum = pgEnum("access_rule_scope", [
+  "all",
+  "dynamic",
+]);
+
+export const accessRuleSchema = pgTable("access_rule", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  projectId: uuid("project_id")
+    .references(() => projectSchema.id, { onDelete: "cascade" })
+    .notNull(),
+  // Null applies the rule to every track of the project
+  trackId: uuid("track_id").references(() => trackSchema.id, {
+    onDelete: "cascade",
+  }),
+  type: accessRuleTypeEnum("type").notNull(),
+  // IPv4 or IPv6 CIDR of allow and deny rules
+  cidr: text("cidr"),
+  // Rate limits: requests allowed per window for each client
+  requests: integer("requests"),
+  windowSeconds: integer("window_seconds"),
+  // Header identifying clients (e.g. an API key), client IP when null
+  keyHeader: text("key_header"),
+  // Rate limits can apply to every request or to functions only
+  scope: accessRuleScopeEnum("scope").notNull().default("all"),
+  ...timestamps,
+});
+
+export const accessRuleRelations = relations(accessRuleSchema, ({ one }) => ({
+  project: one(projectSchema, {
+    fields: [accessRuleSchema.projectId],
+    references: [projectSchema.id],
+  }),
+  track: one(trackSchema, {
+    fields: [accessRuleSchema.trackId],
+    references: [trackSchema.id],
+  }),
+}));
+
+// Hourly traffic aggregates built from the gateway access logs
+export const accessLogSourceEnum = pgEnum("access_log_source", [
+  "static",
+  "dynamic",
+  "cache",
+  "gateway",
+]);
+
+export const accessStatSchema = pgTable(
+  "access_stat",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    projectId: uuid("project_id")
+      .references(() => projectSchema.id, { onDelete: "cascade" })
+      .notNull(),
+    // No foreign key: statistics outlive the deployments they describe
+    deploymentId: uuid("deployment_id").notNull(),
+    bucketStart: timestamp("bucket_start", { withTimezone: true }).notNull(),
+    path: text("path").notNull(),
+    statusCode: integer("status_code").notNull(),
+    source: accessLogSourceEnum("source").notNull(),
+    requests: integer("requests").notNull().default(0),
+    bytes: bigint("bytes", { mode: "number" }).notNull().default(0),
+    totalDurationMs: bigint("total_duration_ms", { mode: "number" })
+      .notNull()
+      .default(0),
+  },
+  (table) => ({
+    accessStatBucketIdx: uniqueIndex("access_stat_bucket_idx").on(
+      table.projectId,
+      table.bucketStart,
+      table.deploymentId,
+      table.path,
+      table.statusCode,
+      table.source,
+    ),
+  }),
+);
+
+// Executions of the scheduled functions of a deployment
+export const cronRunStatusEnum = pgEnum("cron_run_status", [
+  "running",
+  "success",
+  "error",
+]);
+
+export const cronRunSchema = pgTable(
+  "cron_run",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    projectId: uuid("project_id")
+      .references(() => projectSchema.id, { onDelete: "cascade" })
+      .notNull(),
+    deploymentId: uuid("deployment_id")
+      .references(() => deploymentSchema.id, { onDelete: "cascade" })
+      .notNull(),
+    urlPath: text("url_path").notNull(),
+    schedule: text("schedule").notNull(),
+    // Schedule slot the run belongs to, startedAt can lag behind it
+    scheduledAt: timestamp("scheduled_at", { withTimezone: true }).notNull(),
+    startedAt: timestamp("started_at", { withTimezone: true }).notNull(),
+    finishedAt: timestamp("finished_at", { withTimezone: true }),
+    durationMs: integer("duration_ms"),
+    status: cronRunStatusEnum("status").notNull().default("running"),
+    // Response status of the function, null when it could not be reached
+    statusCode: integer("status_code"),
+    error: text("error"),
+  },
+  (table) => ({
+    // A slot runs once, even with several control-api instances
+    cronRunSlotIdx: uniqueIndex("cron_run_slot_idx").on(
+      table.deploymentId,
+      table.urlPath,
+      table.scheduledAt,
+    ),
+  }),
+);
+
+export const cronRunRelations = relations(cronRunSchema, ({ one }) => ({
+  deployment: one(deploymentSchema, {
+    fields: [cronRunSchema.deploymentId],
+    references: [deploymentSchema.id],
+  }),
+}));
@@ -0,0 +1,34 @@
+import { MetricsRegistry, metricNames } from "@origan/metrics";
+import { count, inArray } from "drizzle-orm";
+import { db } from "./db/index.js";
+import { buildSchema } from "./db/schema.js";
+
+const QUEUED_BUILD_STATUSES = ["pending", "in_progress"] as const;
+
+export const metricsRegistry = new MetricsRegistry("control-api");
+
+export const trpcProcedureDuration = metricsRegistry.histogram({
+  name: metricNames.trpcProcedureDurationSeconds,
+  help: "tRPC procedure duration in seconds",
+  labelNames: ["procedure", "type", "status"],
+});
+
+const buildQueueDepth = metricsRegistry.gauge({
+  name: metricNames.buildQueueDepth,
+  help: "Builds waiting for or running on a builder",
+  labelNames: ["status"],
+});
+
+// Read on scrape, the builds table is the source of truth for the queue
+metricsRegistry.addCollector(async () => {
+  const rows = await db
+    .select({ status: buildSchema.status, builds: count() })
+    .from(buildSchema)
+    .where(inArray(buildSchema.status, [...QUEUED_BUILD_STATUSES]))
+    .groupBy(buildSchema.status);
+
+  for (const status of QUEUED_BUILD_STATUSES) {
+    const row = rows.find((row) => row.status === status);
+    buildQueueDepth.set({ status }, row?.builds ?? 0);
+  }
+});
@@ -0,0 +1,26 @@
+import { NatsClient } from "@origan/nats";
+import { env } from "../config.js";
+
+let natsClientPromise: Promise<NatsClient> | null = null;
+
+/**
+ * Shared NATS client used to publish events from request handlers.
+ * The connection is opened lazily on first use and reused afterwards.
+ */
+export function getNatsClient(): Promise<NatsClient> {
+  if (!natsClientPromise) {
+    const client = new NatsClient({
+      server: env.EVENTS_NATS_SERVER,
+      nkeyCreds: env.EVENTS_NATS_NKEY_CREDS,
+    });
+    natsClientPromise = client
+      .connect()
+      .then(() => client)
+      .catch((error) => {
+        // Allow the next caller to retry the connection
+        natsClientPromise = null;
+        throw error;
+      });
+  }
+  return natsClientPromise;
+}
@@ -0,0 +1,29 @@
+import { timingSafeEqual } from "node:crypto";
+import { METRICS_CONTENT_TYPE } from "@origan/metrics";
+import { Hono } from "hono";
+import { HTTPException } from "hono/http-exception";
+import { env } from "../config.js";
+import type { Env } from "../instrumentation.js";
+import { metricsRegistry } from "../libs/metrics.js";
+
+// The API is public, scrapers authenticate when a token is configured
+function isAuthorized(authorization: string | undefined) {
+  if (!env.METRICS_TOKEN) {
+    return true;
+  }
+  const expected = Buffer.from(`Bearer ${env.METRICS_TOKEN}`);
+  const received = Buffer.from(authorization ?? "");
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+export const metricsRouter = new Hono<Env>().get("/", async (c) => {
+  if (!isAuthorized(c.req.header("authorization"))) {
+    throw new HTTPException(401, { message: "Unauthorized" });
+  }
+
+  return c.body(await metricsRegistry.render(), 200, {
+    "Content-Type": METRICS_CONTENT_TYPE,
+  });
+});
@@ -24,6 +24,78 @@ describe("deployment manifest schema", () => {
     expect(result.success).toBe(true);
   });
 
+  it("keeps the middleware chain of dynamic resources", () => {
+    const result = DeploymentManifestSchema.safeParse({
+      version: 1,
+      resources: [
+        {
+          kind: "dynamic",
+          urlPath: "/api/admin/users",
+          resourcePath: "api/admin/users.js",
+          middleware: ["api/_middleware.js", "api/admin/_middleware.js"],
+        },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.resources[0].middleware).toEqual([
+      "api/_middleware.js",
+      "api/admin/_middleware.js",
+    ]);
+  });
+
+  it("validates the schedule of cron resources", () => {
+    const parse = (schedule?: string) =>
+      DeploymentManifestSchema.safeParse({
+        version: 1,
+        resources: [
+          {
+            kind: "cron",
+            urlPath: "/api/nightly",
+            resourcePath: "api/nightly.js",
+            schedule,
+          },
+        ],
+      }).success;
+
+    expect(parse("0 3 * * *")).toBe(true);
+    expect(parse("@hourly")).toBe(true);
+    expect(parse("0 3 * *")).toBe(false);
+    expect(parse(undefined)).toBe(false);
+  });
+
+  it("accepts precompressed encodings on static resources", () => {
+    const result = DeploymentManifestSchema.safeParse({
+      version: 1,
+      resources: [
+        {
+          kind: "static",
+          urlPath: "/app.js",
+          resourcePath: "app/app.js",
+          encodings: { br: "app/app.js.br", gzip: "app/app.js.gz" },
+        },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects unknown encodings", () => {
+    const result = DeploymentManifestSchema.safeParse({
+      version: 1,
+      resources: [
+        {
+          kind: "static",
+          urlPath: "/app.js",
+          resourcePath: "app/app.js",
+          encodings: { zstd: "app/app.js.zst" },
+        },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+  });
+
   it("rejects invalid resources", () => {
     const result = DeploymentManifestSchema.safeParse({
       version: 1,
@@ -37,4 +109,97 @@ describe("deployment manifest schema", () => {
 
     expect(result.success).toBe(false);
   });
+
+  it("accepts redirect and rewrite rules", () => {
+    const result = DeploymentManifestSchema.safeParse({
+      version: 1,
+      resources: [],
+      rules: [
+        {
+          type: "redirect",
+          source: "/old-blog/*",
+          destination: "/blog/:splat",
+          status: 301,
+          conditions: { host: "www.example.com" },
+        },
+        {
+          type: "rewrite",
+          source: "/docs/*",
+          destination: "https://docs.example.com/:splat",
+          preserveQuery: false,
+        },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects a status on rewrite rules", () => {
+    const result = DeploymentManifestSchema.safeParse({
+      version: 1,
+      resources: [],
+      rules: [
+        {
+          type: "rewrite",
+          source: "/a",
+          destination: "/b",
+          status: 301,
+        },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it("accepts routing options", () => {
+    const result = DeploymentManifestSchema.safeParse({
+      version: 1,
+      resources: [],
+      routing: {
+        spaFallback: false,
+        cleanUrls: true,
+        trailingSlash: "never",
+        errorPages: { "404": "/404.html", "500": "/500.html" },
+      },
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects error pages for non-error statuses", () => {
+    const result = DeploymentManifestSchema.safeParse({
+      version: 1,
+      resources: [],
+      routing: { errorPages: { "200": "/index.html" } },
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it("accepts header rules", () => {
+    const result = DeploymentManifestSchema.safeParse({
+      version: 1,
+      resources: [],
+      headers: [
+        {
+          source: "/*",
+          add: { "Content-Security-Policy": "default-src 'self'" },
+          set: { "X-Frame-Options": "DENY" },
+          remove: ["X-Powered-By"],
+        },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it("rejects header values with line breaks", () => {
+    const result = DeploymentManifestSchema.safeParse({
+      version: 1,
+      resources: [],
+      headers: [{ source: "/*", set: { "X-Test": "a\r\nSet-Cookie: b" } }],
+    });
+
+    expect(result.success).toBe(false);
+  });
 });
@@ -1,17 +1,116 @@
 import { z } from "zod";
+import { isValidCron } from "../utils/cron.js";
 
-export const ManifestResourceSchema = z.object({
-  kind: z.enum(["static", "dynamic"]),
-  urlPath: z.string(),
-  resourcePath: z.string(),
-  methods: z.array(z.string()).optional(),
-  headers: z.record(z.string()).optional(),
-  wildcard: z.boolean().optional(),
+export const ContentEncodingSchema = z.enum(["br", "gzip"]);
+
+export const ManifestResourceSchema = z
+  .object({
+    // `cron` resources are functions invoked on their schedule only, they are
+    // not routed by the gateway
+    kind: z.enum(["static", "dynamic", "cron"]),
+    urlPath: z.string(),
+    resourcePath: z.string(),
+    methods: z.array(z.string()).optional(),
+    headers: z.record(z.string()).optional(),
+    wildcard: z.boolean().optional(),
+    // Precompressed variants of a static resource, keyed by content encoding
+    encodings: z.record(ContentEncodingSchema, z.string()).optional(),
+    // Limits of a dynamic resource, capped by the project's plan
+    timeoutMs: z.number().int().positive().optional(),
+    memoryLimitMb: z.number().int().positive().optional(),
+    maxBodyBytes: z.number().int().positive().optional(),
+    // `_middleware` bundles run before a dynamic or cron resource, outermost
+    // first
+    middleware: z.array(z.string()).optional(),
+    // Five field cron expression (UTC) of a cron resource
+    schedule: z
+      .string()
+      .refine(isValidCron, "Invalid cron expression")
+      .optional(),
+  })
+  .refine((resource) => resource.kind !== "cron" || resource.schedule, {
+    message: "cron resources need a schedule",
+    path: ["schedule"],
+  });
+
+export const RedirectStatusSchema = z.union([
+  z.literal(301),
+  z.literal(302),
+  z.literal(303),
+  z.literal(307),
+  z.literal(308),
+]);
+
+export const ManifestRuleSchema = z
+  .object({
+    type: z.enum(["redirect", "rewrite"]),
+    // Route pattern, same syntax as resource urlPath (`:param`, trailing `*`)
+    source: z.string().startsWith("/"),
+    // Path or absolute URL; `:param` and `:splat` are replaced by the
+    // values captured from the source pattern
+    destination: z.string().min(1),
+    status: RedirectStatusSchema.optional(),
+    // Append the original query string to the destination (default true)
+    preserveQuery: z.boolean().optional(),
+    conditions: z
+      .object({
+        // Exact host or `*.` prefixed wildcard, port excluded
+        host: z.string().optional(),
+      })
+      .optional(),
+  })
+  .refine((rule) => rule.type === "redirect" || rule.status === undefined, {
+    message: "status is only allowed on redirect rules",
+    path: ["status"],
+  });
+
+export const ManifestRoutingSchema = z.object({
+  // Serve /index.html for unknown paths (default true)
+  spaFallback: z.boolean().optional(),
+  // Resolve `/about` to `/about.html` (default false)
+  cleanUrls: z.boolean().optional(),
+  // Redirect to add or remove trailing slashes (default "ignore")
+  trailingSlash: z.enum(["always", "never", "ignore"]).optional(),
+  // Static urlPath served for gateway errors, keyed by status code
+  errorPages: z
+    .record(z.string().regex(/^[45]\d\d$/), z.string().startsWith("/"))
+    .optional(),
 });
 
+// Header field names are RFC 9110 tokens, values must not break the header block
+const HeaderNameSchema = z
+  .string()
+  .regex(/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/, "Invalid header name");
+const HeaderValueSchema = z
+  .string()
+  .regex(/^[^\r\n]*$/, "Header values cannot contain line breaks");
+
+export const ManifestHeaderRuleSchema = z
+  .object({
+    // Route pattern, same syntax as resource urlPath (`:param`, trailing `*`)
+    source: z.string().startsWith("/"),
+    // Headers added when the response does not already have them
+    add: z.record(HeaderNameSchema, HeaderValueSchema).optional(),
+    // Headers replacing any value set by the response
+    set: z.record(HeaderNameSchema, HeaderValueSchema).optional(),
+    // Headers removed from the response
+    remove: z.array(HeaderNameSchema).optional(),
+  })
+  .refine((rule) => rule.add || rule.set || rule.remove, {
+    message: "A header rule needs at least one of add, set or remove",
+  });
+
 export const DeploymentManifestSchema = z.object({
   version: z.number().int(),
   resources: z.array(ManifestResourceSchema),
+  // Redirect and rewrite rules, evaluated before resources
+  rules: z.array(ManifestRuleSchema).optional(),
+  routing: ManifestRoutingSchema.optional(),
+  // Response header rules, all matching rules apply in order
+  headers: z.array(ManifestHeaderRuleSchema).optional(),
 });
 
+export type ManifestRule = z.infer<typeof ManifestRuleSchema>;
+export type ManifestHeaderRule = z.infer<typeof ManifestHeaderRuleSchema>;
+export type ManifestRouting = z.infer<typeof ManifestRoutingSchema>;
 export type DeploymentManifest = z.infer<typeof DeploymentManifestSchema>;
@@ -0,0 +1,177 @@
+import { TRPCError } from "@trpc/server";
+import { and, desc, eq, isNull, or } from "drizzle-orm";
+import { db } from "../libs/db/index.js";
+import {
+  accessRuleSchema,
+  domainSchema,
+  trackSchema,
+} from "../libs/db/schema.js";
+import { normalizeCidr } from "../utils/cidr.js";
+import { invalidateDomainConfigs } from "./domain.service.js";
+
+type AccessRuleSelect = typeof accessRuleSchema.$inferSelect;
+
+export type CreateAccessRuleInput = {
+  projectId: string;
+  // Omitted for rules covering every track of the project
+  trackName?: string;
+} & (
+  | { type: "allow" | "deny"; cidr: string }
+  | {
+      type: "rate_limit";
+      requests: number;
+      windowSeconds: number;
+      keyHeader?: string;
+      scope?: "all" | "dynamic";
+    }
+);
+
+/**
+ * Access settings delivered to the gateway with the domain config
+ */
+export type AccessSettings = {
+  ipRules: { action: "allow" | "deny"; cidr: string }[];
+  rateLimits: {
+    id: string;
+    requests: number;
+    windowSeconds: number;
+    keyHeader: string | null;
+    scope: "all" | "dynamic";
+  }[];
+};
+
+export async function listAccessRules(projectId: string) {
+  return db.query.accessRuleSchema.findMany({
+    where: eq(accessRuleSchema.projectId, projectId),
+    orderBy: [desc(accessRuleSchema.createdAt)],
+    with: {
+      track: true,
+    },
+  });
+}
+
+async function resolveTrackId(projectId: string, trackName?: string) {
+  if (!trackName) {
+    return null;
+  }
+
+  const track = await db.query.trackSchema.findFirst({
+    where: and(
+      eq(trackSchema.projectId, projectId),
+      eq(trackSchema.name, trackName),
+    ),
+  });
+
+  if (!track) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Track '${trackName}' not found in this project`,
+    });
+  }
+
+  return track.id;
+}
+
+export async function createAccessRule(input: CreateAccessRuleInput) {
+  const trackId = await resolveTrackId(input.projectId, input.trackName);
+
+  let values: typeof accessRuleSchema.$inferInsert;
+  if (input.type === "rate_limit") {
+    values = {
+      projectId: input.projectId,
+      trackId,
+      type: input.type,
+      requests: input.requests,
+      windowSeconds: input.windowSeconds,
+      keyHeader: input.keyHeader?.trim().toLowerCase() || null,
+      scope: input.scope ?? "all",
+    };
+  } else {
+    const cidr = normalizeCidr(input.cidr);
+    if (!cidr) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `Invalid IP address or CIDR range: ${input.cidr}`,
+      });
+    }
+    values = { projectId: input.projectId, trackId, type: input.type, cidr };
+  }
+
+  const [rule] = await db.insert(accessRuleSchema).values(values).returning();
+
+  await invalidateRuleDomains(rule, "access-rule-created");
+
+  return rule;
+}
+
+export async function deleteAccessRule(projectId: string, ruleId: string) {
+  const [deletedRule] = await db
+    .delete(accessRuleSchema)
+    .where(
+      and(
+        eq(accessRuleSchema.id, ruleId),
+        eq(accessRuleSchema.projectId, projectId),
+      ),
+    )
+    .returning();
+
+  if (!deletedRule) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Access rule not found",
+    });
+  }
+
+  await invalidateRuleDomains(deletedRule, "access-rule-deleted");
+
+  return deletedRule;
+}
+
+/**
+ * Rules applying to a domain: the project-wide ones and those of its track
+ */
+export async function getAccessSettings(
+  projectId: string,
+  trackId: string | null,
+): Promise<AccessSettings> {
+  const rules = await db.query.accessRuleSchema.findMany({
+    where: and(
+      eq(accessRuleSchema.projectId, projectId),
+      trackId
+        ? or(
+            isNull(accessRuleSchema.trackId),
+            eq(accessRuleSchema.trackId, trackId),
+          )
+        : isNull(accessRuleSchema.trackId),
+    ),
+  });
+
+  const settings: AccessSettings = { ipRules: [], rateLimits: [] };
+  for (const rule of rules) {
+    if (rule.type === "rate_limit") {
+      if (!rule.requests || !rule.windowSeconds) continue;
+      settings.rateLimits.push({
+        id: rule.id,
+        requests: rule.requests,
+        windowSeconds: rule.windowSeconds,
+        keyHeader: rule.keyHeader,
+        scope: rule.scope,
+      });
+    } else if (rule.cidr) {
+      settings.ipRules.push({ action: rule.type, cidr: rule.cidr });
+    }
+  }
+  return settings;
+}
+
+async function invalidateRuleDomains(rule: AccessRuleSelect, reason: string) {
+  const domains = await db.query.domainSchema.findMany({
+    where: rule.trackId
+      ? eq(domainSchema.trackId, rule.trackId)
+      : eq(domainSchema.projectId, rule.projectId),
+  });
+  await invalidateDomainConfigs(
+    domains.map((domain) => domain.name),
+    reason,
+  );
+}
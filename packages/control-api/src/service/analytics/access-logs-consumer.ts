@@ -0,0 +1,151 @@
+import {
+  type AccessLogBatch,
+  NatsClient,
+  type Subscription,
+} from "@origan/nats";
+import { lt, sql } from "drizzle-orm";
+import { env } from "../../config.js";
+import { getLogger } from "../../instrumentation.js";
+import { db } from "../../libs/db/index.js";
+import { accessStatSchema } from "../../libs/db/schema.js";
+import { type AccessStatBucket, aggregateAccessEvents } from "./aggregation.js";
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export class AccessLogsConsumer {
+  private natsClient: NatsClient;
+  private subscription: Subscription | undefined;
+
+  flushIntervalMs = 10_000;
+
+  private buckets: Map<string, AccessStatBucket> = new Map();
+  private flushInterval: NodeJS.Timeout | null = null;
+  private pruneInterval: NodeJS.Timeout | null = null;
+
+  constructor(options?: { flushIntervalMs?: number }) {
+    this.natsClient = new NatsClient({
+      server: env.EVENTS_NATS_SERVER,
+      nkeyCreds: env.EVENTS_NATS_NKEY_CREDS,
+    });
+
+    if (options?.flushIntervalMs)
+      this.flushIntervalMs = options.flushIntervalMs;
+  }
+
+  async start() {
+    const log = getLogger();
+    if (this.subscription) {
+      throw new Error("Consumer already running");
+    }
+
+    await this.natsClient.connect();
+
+    log.info("Starting access logs consumer");
+
+    this.subscription = await this.natsClient.subscriber.onAccessLogs(
+      async (batch: AccessLogBatch) => {
+        aggregateAccessEvents(batch.events, this.buckets);
+      },
+      "control-api", // queue group to ensure only one instance processes each message
+    );
+
+    this.flushInterval = setInterval(
+      () => this.flushBuckets(),
+      this.flushIntervalMs,
+    );
+    this.pruneInterval = setInterval(
+      () => this.pruneOldStats(),
+      PRUNE_INTERVAL_MS,
+    );
+  }
+
+  /**
+   * Adds the aggregated counters to the stored ones. Projects are written
+   * separately so that one deleted project does not fail the others.
+   */
+  private async flushBuckets() {
+    const log = getLogger();
+    if (this.buckets.size === 0) return;
+
+    const buckets = [...this.buckets.values()];
+    this.buckets = new Map();
+
+    const byProject = new Map<string, AccessStatBucket[]>();
+    for (const bucket of buckets) {
+      const stats = byProject.get(bucket.projectId) ?? [];
+      stats.push(bucket);
+      byProject.set(bucket.projectId, stats);
+    }
+    for (const [projectId, stats] of byProject) {
+      try {
+        await db
+          .insert(accessStatSchema)
+          .values(stats)
+          .onConflictDoUpdate({
+            target: [
+              accessStatSchema.projectId,
+              accessStatSchema.bucketStart,
+              accessStatSchema.deploymentId,
+              accessStatSchema.path,
+              accessStatSchema.statusCode,
+              accessStatSchema.source,
+            ],
+            set: {
+              requests: sql`${accessStatSchema.requests} + excluded.requests`,
+              bytes: sql`${accessStatSchema.bytes} + excluded.bytes`,
+              totalDurationMs: sql`${accessStatSchema.totalDurationMs} + excluded.total_duration_ms`,
+            },
+          });
+      } catch (error) {
+        log
+          .withError(error)
+          .error(`Error flushing access stats for project ${projectId}`);
+      }
+    }
+  }
+
+  private async pruneOldStats() {
+    const log = getLogger();
+    const cutoff = new Date(
+      Date.now() - env.ANALYTICS_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+    );
+
+    try {
+      await db
+        .delete(accessStatSchema)
+        .where(lt(accessStatSchema.bucketStart, cutoff));
+    } catch (error) {
+      log.withError(error).error("Error pruning old access stats");
+    }
+  }
+
+  async stop() {
+    if (this.flushInterval) {
+      clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+    if (this.pruneInterval) {
+      clearInterval(this.pruneInterval);
+      this.pruneInterval = null;
+    }
+
+    if (this.subscription) {
+      this.subscription.unsubscribe();
+      this.subscription = undefined;
+    }
+
+    await this.flushBuckets();
+  }
+}
+
+let accessLogsConsumerInstance: AccessLogsConsumer | null = null;
+
+export async function startAccessLogsConsumer(options?: {
+  flushIntervalMs?: number;
+}): Promise<AccessLogsConsumer> {
+  if (!accessLogsConsumerInstance) {
+    accessLogsConsumerInstance = new AccessLogsConsumer(options);
+    await accessLogsConsumerInstance.start();
+  }
+  return accessLogsConsumerInstance;
+}
@@ -0,0 +1,60 @@
+import type { AccessLogEvent } from "@origan/nats";
+import { describe, expect, it } from "vitest";
+import { type AccessStatBucket, aggregateAccessEvents } from "./aggregation.js";
+
+const projectId = "6f1c2f7e-0d7a-4a53-9a57-1b7c7d0c2f11";
+const deploymentId = "0b6f8a4c-54c8-4f0e-9a55-35e5b0d6c1aa";
+
+function createEvent(overrides: Partial<AccessLogEvent>): AccessLogEvent {
+  return {
+    timestamp: "2025-03-01T10:15:00.000Z",
+    host: "site.example.com",
+    projectId,
+    deploymentId,
+    method: "GET",
+    path: "/",
+    status: 200,
+    bytes: 100,
+    durationMs: 10,
+    source: "static",
+    ...overrides,
+  };
+}
+
+describe("access log aggregation", () => {
+  it("sums events of the same hour, path, status and source", () => {
+    const buckets = new Map<string, AccessStatBucket>();
+    aggregateAccessEvents(
+      [
+        createEvent({}),
+        createEvent({ timestamp: "2025-03-01T10:59:59.000Z", bytes: 50 }),
+        createEvent({ timestamp: "2025-03-01T11:00:00.000Z" }),
+        createEvent({ status: 404 }),
+      ],
+      buckets,
+    );
+
+    const stats = [...buckets.values()];
+    expect(stats).toHaveLength(3);
+    expect(stats[0]).toMatchObject({
+      bucketStart: new Date("2025-03-01T10:00:00.000Z"),
+      requests: 2,
+      bytes: 150,
+      totalDurationMs: 20,
+    });
+  });
+
+  it("skips malformed events", () => {
+    const buckets = new Map<string, AccessStatBucket>();
+    aggregateAccessEvents(
+      [
+        createEvent({ projectId: "not-a-uuid" }),
+        createEvent({ timestamp: "yesterday" }),
+        createEvent({ source: "cdn" as AccessLogEvent["source"] }),
+      ],
+      buckets,
+    );
+
+    expect(buckets.size).toBe(0);
+  });
+});
@@ -0,0 +1,72 @@
+import type { AccessLogEvent, AccessLogSource } from "@origan/nats";
+
+export const ACCESS_STAT_BUCKET_MS = 60 * 60 * 1000;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const SOURCES: AccessLogSource[] = ["static", "dynamic", "cache", "gateway"];
+
+export type AccessStatBucket = {
+  projectId: string;
+  deploymentId: string;
+  bucketStart: Date;
+  path: string;
+  statusCode: number;
+  source: AccessLogSource;
+  requests: number;
+  bytes: number;
+  totalDurationMs: number;
+};
+
+/**
+ * Adds access events to the hourly buckets they belong to, keyed like the
+ * unique index of the access_stat table. Malformed events are skipped.
+ */
+export function aggregateAccessEvents(
+  events: AccessLogEvent[],
+  buckets: Map<string, AccessStatBucket>,
+) {
+  for (const event of events) {
+    const time = Date.parse(event.timestamp);
+    if (
+      !UUID_PATTERN.test(event.projectId) ||
+      !UUID_PATTERN.test(event.deploymentId) ||
+      !SOURCES.includes(event.source) ||
+      !Number.isInteger(event.status) ||
+      Number.isNaN(time)
+    ) {
+      continue;
+    }
+
+    const bucketStart = new Date(
+      Math.floor(time / ACCESS_STAT_BUCKET_MS) * ACCESS_STAT_BUCKET_MS,
+    );
+    const key = JSON.stringify([
+      event.projectId,
+      bucketStart.getTime(),
+      event.deploymentId,
+      event.path,
+      event.status,
+      event.source,
+    ]);
+
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = {
+        projectId: event.projectId,
+        deploymentId: event.deploymentId,
+        bucketStart,
+        path: event.path,
+        statusCode: event.status,
+        source: event.source,
+        requests: 0,
+        bytes: 0,
+        totalDurationMs: 0,
+      };
+      buckets.set(key, bucket);
+    }
+    bucket.requests++;
+    bucket.bytes += Math.max(0, event.bytes || 0);
+    bucket.totalDurationMs += Math.max(0, event.durationMs || 0);
+  }
+}
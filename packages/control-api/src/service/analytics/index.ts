@@ -0,0 +1,3 @@
+export * from "./access-logs-consumer.js";
+export * from "./aggregation.js";
+export * from "./queries.js";
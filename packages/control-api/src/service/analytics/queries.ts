@@ -0,0 +1,85 @@
+import { and, asc, desc, eq, gte, sql, sum } from "drizzle-orm";
+import { db } from "../../libs/db/index.js";
+import { accessStatSchema } from "../../libs/db/schema.js";
+
+export type AnalyticsPeriod = "24h" | "7d" | "30d";
+
+const PERIOD_HOURS: Record<AnalyticsPeriod, number> = {
+  "24h": 24,
+  "7d": 7 * 24,
+  "30d": 30 * 24,
+};
+
+function periodFilter(projectId: string, period: AnalyticsPeriod) {
+  const since = new Date(Date.now() - PERIOD_HOURS[period] * 60 * 60 * 1000);
+  return and(
+    eq(accessStatSchema.projectId, projectId),
+    gte(accessStatSchema.bucketStart, since),
+  );
+}
+
+// sum() of integers is a numeric, returned as a string by the driver
+const totalRequests =
+  sql<number>`coalesce(${sum(accessStatSchema.requests)}, 0)`.mapWith(Number);
+const totalBytes =
+  sql<number>`coalesce(${sum(accessStatSchema.bytes)}, 0)`.mapWith(Number);
+
+export async function getTopPaths(
+  projectId: string,
+  period: AnalyticsPeriod,
+  limit: number,
+) {
+  return db
+    .select({
+      path: accessStatSchema.path,
+      requests: totalRequests,
+      bytes: totalBytes,
+    })
+    .from(accessStatSchema)
+    .where(periodFilter(projectId, period))
+    .groupBy(accessStatSchema.path)
+    .orderBy(desc(totalRequests))
+    .limit(limit);
+}
+
+export async function getStatusCodeBreakdown(
+  projectId: string,
+  period: AnalyticsPeriod,
+) {
+  return db
+    .select({
+      statusCode: accessStatSchema.statusCode,
+      requests: totalRequests,
+    })
+    .from(accessStatSchema)
+    .where(periodFilter(projectId, period))
+    .groupBy(accessStatSchema.statusCode)
+    .orderBy(asc(accessStatSchema.statusCode));
+}
+
+/**
+ * Requests and bytes served over time, hourly for the last day and
+ * daily for longer periods.
+ */
+export async function getBandwidth(projectId: string, period: AnalyticsPeriod) {
+  const unit = period === "24h" ? "hour" : "day";
+  const bucket = sql<Date>`date_trunc(${unit}, ${accessStatSchema.bucketStart})`;
+
+  const points = await db
+    .select({
+      bucketStart: bucket,
+      requests: totalRequests,
+      bytes: totalBytes,
+    })
+    .from(accessStatSchema)
+    .where(periodFilter(projectId, period))
+    .groupBy(bucket)
+    .orderBy(asc(bucket));
+
+  return {
+    granularity: unit,
+    totalRequests: points.reduce((total, point) => total + point.requests, 0),
+    totalBytes: points.reduce((total, point) => total + point.bytes, 0),
+    points,
+  };
+}
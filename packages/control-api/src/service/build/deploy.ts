@@ -11,7 +11,7 @@ export async function deployBuild(
   config: {
     version: number;
     resources: {
-      kind: "static" | "dynamic";
+      kind: "static" | "dynamic" | "cron";
       urlPath: string;
       resourcePath: string;
       methods?: string[];
@@ -0,0 +1,75 @@
+import { TRPCError } from "@trpc/server";
+import { and, eq } from "drizzle-orm";
+import { getLogger } from "../instrumentation.js";
+import { db } from "../libs/db/index.js";
+import { deploymentSchema } from "../libs/db/schema.js";
+import { getNatsClient } from "../libs/nats.js";
+
+const log = getLogger();
+
+export type PurgeResponseCacheOptions = {
+  // Limits the purge to one deployment instead of the whole project
+  deploymentReference?: string;
+  pathPrefixes?: string[];
+  tags?: string[];
+};
+
+/**
+ * Asks every gateway to drop the cached function responses of a project
+ * matching a path prefix or a `Cache-Tag`. Without any of them, all the
+ * responses of the deployment, or of the project, are dropped.
+ */
+export async function purgeResponseCache(
+  projectId: string,
+  options: PurgeResponseCacheOptions = {},
+) {
+  let deploymentId: string | undefined;
+  if (options.deploymentReference) {
+    const deployment = await db.query.deploymentSchema.findFirst({
+      where: and(
+        eq(deploymentSchema.projectId, projectId),
+        eq(deploymentSchema.reference, options.deploymentReference),
+      ),
+    });
+    if (!deployment) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: `Deployment '${options.deploymentReference}' not found in this project`,
+      });
+    }
+    deploymentId = deployment.id;
+  }
+
+  const pathPrefixes = options.pathPrefixes?.length
+    ? options.pathPrefixes
+    : undefined;
+  const tags = options.tags?.length ? options.tags : undefined;
+
+  // Unlike config invalidations, cached responses do not expire on their
+  // own soon enough: a purge that was not delivered must be reported
+  try {
+    const natsClient = await getNatsClient();
+    await natsClient.publisher.publishResponseCachePurge({
+      timestamp: new Date().toISOString(),
+      projectId,
+      deploymentId,
+      pathPrefixes,
+      tags,
+    });
+  } catch (error) {
+    log
+      .withError(error)
+      .error(`Failed to publish cache purge for ${projectId}`);
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to purge the response cache",
+      cause: error,
+    });
+  }
+
+  return {
+    deploymentReference: options.deploymentReference ?? null,
+    pathPrefixes: pathPrefixes ?? [],
+    tags: tags ?? [],
+  };
+}
@@ -0,0 +1,159 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { domainSchema, trackSchema } from "../libs/db/schema.js";
+
+const { db, invalidateDomainConfigs } = vi.hoisted(() => ({
+  db: {
+    query: {
+      trackSchema: { findFirst: vi.fn() },
+      deploymentSchema: { findFirst: vi.fn() },
+      domainSchema: { findMany: vi.fn() },
+    },
+    update: vi.fn(),
+    transaction: vi.fn(),
+  },
+  invalidateDomainConfigs: vi.fn(),
+}));
+
+vi.mock("../libs/db/index.js", () => ({ db }));
+vi.mock("./domain.service.js", () => ({ invalidateDomainConfigs }));
+
+import {
+  abortCanary,
+  getWeightedDeployments,
+  promoteCanary,
+} from "./canary.service.js";
+
+const stable = { id: "stable-id", config: { version: 1, resources: [] } };
+const canary = {
+  id: "canary-id",
+  reference: "canary-ref",
+  config: { version: 1, resources: [{ kind: "static" }] },
+};
+const track = {
+  id: "track-id",
+  projectId: "project-id",
+  name: "prod",
+  canaryDeploymentId: canary.id,
+  canaryWeight: 20,
+};
+const domains = [{ name: "site.example.com" }, { name: "www.example.com" }];
+
+// Records the values written by `update(table).set(values)`, the rows
+// returned are the track once updated and the domains of the track
+function mockUpdates() {
+  const updates: { table: unknown; values: Record<string, unknown> }[] = [];
+  const update = (table: unknown) => {
+    let values: Record<string, unknown> = {};
+    const chain = {
+      set: (next: Record<string, unknown>) => {
+        values = next;
+        updates.push({ table, values });
+        return chain;
+      },
+      where: () => chain,
+      returning: async () =>
+        table === trackSchema ? [{ ...track, ...values }] : domains,
+    };
+    return chain;
+  };
+  db.update.mockImplementation(update);
+  db.transaction.mockImplementation((run) => run({ update }));
+  return updates;
+}
+
+describe("canary releases", () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("splits the traffic of a track between stable and canary", async () => {
+    db.query.trackSchema.findFirst.mockResolvedValue(track);
+    db.query.deploymentSchema.findFirst.mockResolvedValue(canary);
+
+    expect(await getWeightedDeployments(track.id, stable)).toEqual([
+      { deploymentId: stable.id, config: stable.config, weight: 80 },
+      { deploymentId: canary.id, config: canary.config, weight: 20 },
+    ]);
+  });
+
+  it("serves the stable deployment alone without a running canary", async () => {
+    expect(await getWeightedDeployments(null, stable)).toBeUndefined();
+
+    db.query.trackSchema.findFirst.mockResolvedValueOnce({
+      ...track,
+      canaryDeploymentId: null,
+      canaryWeight: 0,
+    });
+    expect(await getWeightedDeployments(track.id, stable)).toBeUndefined();
+
+    db.query.trackSchema.findFirst.mockResolvedValueOnce({
+      ...track,
+      canaryWeight: 0,
+    });
+    expect(await getWeightedDeployments(track.id, stable)).toBeUndefined();
+
+    // Already promoted, the domains serve the canary
+    db.query.trackSchema.findFirst.mockResolvedValueOnce({
+      ...track,
+      canaryDeploymentId: stable.id,
+    });
+    expect(await getWeightedDeployments(track.id, stable)).toBeUndefined();
+    expect(db.query.deploymentSchema.findFirst).not.toHaveBeenCalled();
+  });
+
+  it("promotes the canary to every domain of the track", async () => {
+    db.query.trackSchema.findFirst.mockResolvedValue(track);
+    const updates = mockUpdates();
+
+    expect(await promoteCanary(track.projectId, track.name)).toEqual({
+      deploymentId: canary.id,
+    });
+    expect(updates).toEqual([
+      { table: domainSchema, values: { deploymentId: canary.id } },
+      {
+        table: trackSchema,
+        values: { canaryDeploymentId: null, canaryWeight: 0 },
+      },
+    ]);
+    expect(invalidateDomainConfigs).toHaveBeenCalledWith(
+      ["site.example.com", "www.example.com"],
+      "canary-promoted",
+    );
+  });
+
+  it("aborts the canary without touching the domains", async () => {
+    db.query.trackSchema.findFirst.mockResolvedValue(track);
+    db.query.domainSchema.findMany.mockResolvedValue(domains);
+    const updates = mockUpdates();
+
+    expect(await abortCanary(track.projectId, track.name)).toBeNull();
+    expect(updates).toEqual([
+      {
+        table: trackSchema,
+        values: { canaryDeploymentId: null, canaryWeight: 0 },
+      },
+    ]);
+    expect(invalidateDomainConfigs).toHaveBeenCalledWith(
+      ["site.example.com", "www.example.com"],
+      "canary-aborted",
+    );
+  });
+
+  it("refuses to promote or abort when no canary runs", async () => {
+    db.query.trackSchema.findFirst.mockResolvedValue({
+      ...track,
+      canaryDeploymentId: null,
+      canaryWeight: 0,
+    });
+    mockUpdates();
+
+    await expect(promoteCanary(track.projectId, track.name)).rejects.toThrow(
+      "No canary running on track 'prod'",
+    );
+    await expect(abortCanary(track.projectId, track.name)).rejects.toThrow(
+      "No canary running on track 'prod'",
+    );
+    expect(db.update).not.toHaveBeenCalled();
+    expect(db.transaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,230 @@
+import { TRPCError } from "@trpc/server";
+import { and, eq } from "drizzle-orm";
+import { db } from "../libs/db/index.js";
+import {
+  deploymentSchema,
+  domainSchema,
+  trackSchema,
+} from "../libs/db/schema.js";
+import { invalidateDomainConfigs } from "./domain.service.js";
+
+/**
+ * Deployment served to `weight` percent of the visitors of a domain
+ */
+export type WeightedDeployment = {
+  deploymentId: string;
+  config: unknown;
+  weight: number;
+};
+
+type TrackSelect = typeof trackSchema.$inferSelect;
+
+export async function getCanary(projectId: string, trackName: string) {
+  const track = await getTrackByName(projectId, trackName);
+  return describeCanary(track);
+}
+
+/**
+ * Starts routing `weight` percent of the track's traffic to another
+ * successful deployment of the project. Replaces any running canary.
+ */
+export async function startCanary(
+  projectId: string,
+  trackName: string,
+  deploymentReference: string,
+  weight: number,
+) {
+  const track = await getTrackByName(projectId, trackName);
+
+  const deployment = await db.query.deploymentSchema.findFirst({
+    where: and(
+      eq(deploymentSchema.projectId, projectId),
+      eq(deploymentSchema.reference, deploymentReference),
+    ),
+  });
+  if (!deployment) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: `Deployment '${deploymentReference}' not found in this project`,
+    });
+  }
+  if (deployment.status !== "success" || !deployment.config) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Only successful deployments can receive canary traffic",
+    });
+  }
+
+  const domains = await getTrackDomains(track.id);
+  if (domains.some((domain) => domain.deploymentId === deployment.id)) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "This deployment is already live on the track",
+    });
+  }
+
+  return updateCanary(
+    track,
+    { canaryDeploymentId: deployment.id, canaryWeight: weight },
+    "canary-started",
+  );
+}
+
+export async function rampCanary(
+  projectId: string,
+  trackName: string,
+  weight: number,
+) {
+  const track = await getTrackWithCanary(projectId, trackName);
+  return updateCanary(track, { canaryWeight: weight }, "canary-ramped");
+}
+
+/**
+ * Sends all the traffic of the track to the canary deployment
+ */
+export async function promoteCanary(projectId: string, trackName: string) {
+  const track = await getTrackWithCanary(projectId, trackName);
+  const canaryDeploymentId = track.canaryDeploymentId as string;
+
+  const domainNames = await db.transaction(async (tx) => {
+    const domains = await tx
+      .update(domainSchema)
+      .set({ deploymentId: canaryDeploymentId })
+      .where(eq(domainSchema.trackId, track.id))
+      .returning({ name: domainSchema.name });
+    await tx
+      .update(trackSchema)
+      .set({ canaryDeploymentId: null, canaryWeight: 0 })
+      .where(eq(trackSchema.id, track.id));
+    return domains.map((domain) => domain.name);
+  });
+
+  // Only notify gateways once the new pointers are committed
+  await invalidateDomainConfigs(domainNames, "canary-promoted");
+
+  return { deploymentId: canaryDeploymentId };
+}
+
+export async function abortCanary(projectId: string, trackName: string) {
+  const track = await getTrackWithCanary(projectId, trackName);
+  return updateCanary(
+    track,
+    { canaryDeploymentId: null, canaryWeight: 0 },
+    "canary-aborted",
+  );
+}
+
+/**
+ * Deployments a domain of the track serves, stable first, or undefined when
+ * no canary receives traffic. Gateways assign visitors by cumulated weight,
+ * so ramping up only moves visitors from the stable to the canary.
+ */
+export async function getWeightedDeployments(
+  trackId: string | null,
+  stable: { id: string; config: unknown },
+): Promise<WeightedDeployment[] | undefined> {
+  if (!trackId) {
+    return undefined;
+  }
+
+  const track = await db.query.trackSchema.findFirst({
+    where: eq(trackSchema.id, trackId),
+  });
+  if (
+    !track?.canaryDeploymentId ||
+    track.canaryWeight === 0 ||
+    track.canaryDeploymentId === stable.id
+  ) {
+    return undefined;
+  }
+
+  const canary = await db.query.deploymentSchema.findFirst({
+    where: eq(deploymentSchema.id, track.canaryDeploymentId),
+  });
+  if (!canary?.config) {
+    return undefined;
+  }
+
+  return [
+    {
+      deploymentId: stable.id,
+      config: stable.config,
+      weight: 100 - track.canaryWeight,
+    },
+    {
+      deploymentId: canary.id,
+      config: canary.config,
+      weight: track.canaryWeight,
+    },
+  ];
+}
+
+async function updateCanary(
+  track: TrackSelect,
+  values: Partial<Pick<TrackSelect, "canaryDeploymentId" | "canaryWeight">>,
+  reason: string,
+) {
+  const [updated] = await db
+    .update(trackSchema)
+    .set(values)
+    .where(eq(trackSchema.id, track.id))
+    .returning();
+
+  const domains = await getTrackDomains(track.id);
+  await invalidateDomainConfigs(
+    domains.map((domain) => domain.name),
+    reason,
+  );
+
+  return describeCanary(updated);
+}
+
+async function describeCanary(track: TrackSelect) {
+  if (!track.canaryDeploymentId) {
+    return null;
+  }
+
+  const deployment = await db.query.deploymentSchema.findFirst({
+    where: eq(deploymentSchema.id, track.canaryDeploymentId),
+  });
+
+  return {
+    deploymentReference: deployment?.reference ?? null,
+    weight: track.canaryWeight,
+  };
+}
+
+async function getTrackDomains(trackId: string) {
+  return db.query.domainSchema.findMany({
+    where: eq(domainSchema.trackId, trackId),
+  });
+}
+
+async function getTrackWithCanary(projectId: string, trackName: string) {
+  const track = await getTrackByName(projectId, trackName);
+  if (!track.canaryDeploymentId) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `No canary running on track '${trackName}'`,
+    });
+  }
+  return track;
+}
+
+async function getTrackByName(projectId: string, trackName: string) {
+  const track = await db.query.trackSchema.findFirst({
+    where: and(
+      eq(trackSchema.projectId, projectId),
+      eq(trackSchema.name, trackName),
+    ),
+  });
+
+  if (!track) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: `Track '${trackName}' not found in this project`,
+    });
+  }
+
+  return track;
+}
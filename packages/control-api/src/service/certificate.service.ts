@@ -4,6 +4,7 @@ import { env } from "../config.js";
 import { getLogger } from "../instrumentation.js";
 import { db } from "../libs/db/index.js";
 import { domainSchema } from "../libs/db/schema.js";
+import { getNatsClient } from "../libs/nats.js";
 import { s3Client } from "../libs/s3.js";
 import {
   deleteCertificate as deleteS3Certificate,
@@ -194,6 +195,8 @@ export async function issueCertificate(domainName: string): Promise<void> {
     log.info(
       `Certificate issuance complete for ${domainName}, expires: ${expiresAt}`,
     );
+
+    await invalidateCertificates([domainName], "certificate-issued");
   } catch (error) {
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error";
@@ -229,4 +232,32 @@ export async function deleteCertificate(domainName: string): Promise<void> {
       .error(`Failed to delete certificate for ${domainName}`);
     throw error;
   }
+
+  await invalidateCertificates([domainName], "certificate-deleted");
+}
+
+/**
+ * Notify gateways that the certificates of these domains changed.
+ * Failures are only logged: gateways also expire cached certificates on their own.
+ */
+export async function invalidateCertificates(
+  domainNames: string[],
+  reason?: string,
+): Promise<void> {
+  if (domainNames.length === 0) return;
+
+  try {
+    const natsClient = await getNatsClient();
+    await natsClient.publisher.publishCertificateInvalidation({
+      timestamp: new Date().toISOString(),
+      domains: domainNames,
+      reason,
+    });
+  } catch (error) {
+    log
+      .withError(error)
+      .warn(
+        `Failed to publish certificate invalidation for ${domainNames.join(", ")}`,
+      );
+  }
 }
@@ -0,0 +1,3 @@
+export * from "./queries.js";
+export * from "./schedule.js";
+export * from "./scheduler.js";
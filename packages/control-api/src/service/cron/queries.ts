@@ -0,0 +1,41 @@
+import { desc, eq, isNotNull } from "drizzle-orm";
+import { db } from "../../libs/db/index.js";
+import {
+  cronRunSchema,
+  deploymentSchema,
+  domainSchema,
+} from "../../libs/db/schema.js";
+import { getCronResources } from "./schedule.js";
+
+/**
+ * Scheduled functions of the active deployment of every track, the one its
+ * domains serve. Deployment preview domains have no track and are skipped.
+ */
+export async function getActiveCronDeployments() {
+  const deployments = await db
+    .selectDistinctOn([deploymentSchema.id], {
+      id: deploymentSchema.id,
+      projectId: deploymentSchema.projectId,
+      config: deploymentSchema.config,
+    })
+    .from(domainSchema)
+    .innerJoin(
+      deploymentSchema,
+      eq(domainSchema.deploymentId, deploymentSchema.id),
+    )
+    .where(isNotNull(domainSchema.trackId));
+
+  return deployments.flatMap(({ config, ...deployment }) => {
+    const resources = getCronResources(config);
+    return resources.length > 0 ? [{ ...deployment, resources }] : [];
+  });
+}
+
+export async function getCronRuns(deploymentId: string, limit: number) {
+  return db
+    .select()
+    .from(cronRunSchema)
+    .where(eq(cronRunSchema.deploymentId, deploymentId))
+    .orderBy(desc(cronRunSchema.scheduledAt))
+    .limit(limit);
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { getCronResources, getDueRun } from "./schedule.js";
+
+describe("getCronResources", () => {
+  it("keeps the cron resources of a manifest", () => {
+    const resources = getCronResources({
+      version: 1,
+      resources: [
+        {
+          kind: "dynamic",
+          urlPath: "/api/users",
+          resourcePath: "api/users.js",
+        },
+        {
+          kind: "cron",
+          urlPath: "/api/nightly",
+          resourcePath: "api/nightly.js",
+          schedule: "0 3 * * *",
+          timeoutMs: 120000,
+          middleware: ["api/_middleware.js"],
+        },
+      ],
+    });
+
+    expect(resources).toEqual([
+      {
+        urlPath: "/api/nightly",
+        resourcePath: "api/nightly.js",
+        schedule: "0 3 * * *",
+        timeoutMs: 120000,
+        memoryLimitMb: undefined,
+        middleware: ["api/_middleware.js"],
+      },
+    ]);
+  });
+
+  it("ignores configs that are not manifests", () => {
+    expect(getCronResources(null)).toEqual([]);
+    expect(getCronResources({ resources: "nope" })).toEqual([]);
+  });
+});
+
+describe("getDueRun", () => {
+  const at = (iso: string) => new Date(iso);
+
+  it("returns the slot reached since the last check", () => {
+    expect(
+      getDueRun(
+        "*/5 * * * *",
+        at("2025-01-01T10:04:45Z"),
+        at("2025-01-01T10:05:15Z"),
+      ),
+    ).toEqual(at("2025-01-01T10:05:00Z"));
+  });
+
+  it("returns nothing between slots", () => {
+    expect(
+      getDueRun(
+        "*/5 * * * *",
+        at("2025-01-01T10:05:15Z"),
+        at("2025-01-01T10:05:45Z"),
+      ),
+    ).toBeNull();
+  });
+
+  it("runs a slot once when the check lands on it", () => {
+    const slot = at("2025-01-01T10:05:00Z");
+
+    expect(getDueRun("*/5 * * * *", at("2025-01-01T10:04:30Z"), slot)).toEqual(
+      slot,
+    );
+    expect(
+      getDueRun("*/5 * * * *", slot, at("2025-01-01T10:05:30Z")),
+    ).toBeNull();
+  });
+
+  it("collapses missed slots into the latest one", () => {
+    expect(
+      getDueRun(
+        "* * * * *",
+        at("2025-01-01T10:00:30Z"),
+        at("2025-01-01T10:03:10Z"),
+      ),
+    ).toEqual(at("2025-01-01T10:03:00Z"));
+  });
+});
@@ -0,0 +1,51 @@
+import { DeploymentManifestSchema } from "../../schemas/manifest.js";
+import { nextCronRun, parseCron } from "../../utils/cron.js";
+
+export type CronResource = {
+  urlPath: string;
+  resourcePath: string;
+  schedule: string;
+  timeoutMs?: number;
+  memoryLimitMb?: number;
+  middleware?: string[];
+};
+
+/**
+ * Scheduled functions of a deployment config. Configs that do not parse,
+ * e.g. from deployments that never finished, have none.
+ */
+export function getCronResources(config: unknown): CronResource[] {
+  const manifest = DeploymentManifestSchema.safeParse(config);
+  if (!manifest.success) {
+    return [];
+  }
+  return manifest.data.resources.flatMap((resource) =>
+    resource.kind === "cron" && resource.schedule
+      ? [
+          {
+            urlPath: resource.urlPath,
+            resourcePath: resource.resourcePath,
+            schedule: resource.schedule,
+            timeoutMs: resource.timeoutMs,
+            memoryLimitMb: resource.memoryLimitMb,
+            middleware: resource.middleware,
+          },
+        ]
+      : [],
+  );
+}
+
+/**
+ * Latest slot of the schedule in `(since, now]`, null when there is none.
+ * Slots missed before `since` are not caught up.
+ */
+export function getDueRun(schedule: string, since: Date, now: Date) {
+  const parsed = parseCron(schedule);
+  let due: Date | null = null;
+  let next = nextCronRun(parsed, since);
+  while (next && next <= now) {
+    due = next;
+    next = nextCronRun(parsed, next);
+  }
+  return due;
+}
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const { db, getActiveCronDeployments } = vi.hoisted(() => ({
+  db: { insert: vi.fn(), update: vi.fn() },
+  getActiveCronDeployments: vi.fn(),
+}));
+
+vi.mock("../../config.js", () => ({
+  env: { CRON_HISTORY_RETENTION_DAYS: 30 },
+}));
+vi.mock("../../instrumentation.js", () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    withError: () => ({ error: vi.fn() }),
+  }),
+}));
+vi.mock("../../libs/db/index.js", () => ({ db }));
+vi.mock("./queries.js", () => ({ getActiveCronDeployments }));
+
+import { CronScheduler } from "./scheduler.js";
+
+const TICK_INTERVAL_MS = 30 * 1000;
+
+const deployment = {
+  id: "deployment-id",
+  projectId: "project-id",
+  resources: [
+    {
+      urlPath: "/api/nightly",
+      resourcePath: "api/nightly.js",
+      schedule: "* * * * *",
+      middleware: ["api/_middleware.js"],
+    },
+  ],
+};
+
+// Every run claims its slot, and records its result
+function mockRuns() {
+  const chain = {
+    values: () => chain,
+    onConflictDoNothing: () => chain,
+    returning: async () => [{ id: "run-id" }],
+    set: () => chain,
+    where: async () => {},
+  };
+  db.insert.mockReturnValue(chain);
+  db.update.mockReturnValue(chain);
+}
+
+describe("CronScheduler", () => {
+  let scheduler: CronScheduler;
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // The first check covers the minute slot of 12:01
+    vi.setSystemTime(new Date("2025-01-01T12:00:45.000Z"));
+    vi.stubGlobal("fetch", fetchMock);
+    fetchMock.mockImplementation(async () => new Response("ok"));
+    mockRuns();
+    scheduler = new CronScheduler("http://runner");
+    scheduler.start();
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it("invokes due functions behind their middleware", async () => {
+    getActiveCronDeployments.mockResolvedValue([deployment]);
+
+    await vi.advanceTimersByTimeAsync(TICK_INTERVAL_MS);
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://runner/api/nightly");
+    expect(init.headers.get("x-origan-middleware-paths")).toBe(
+      JSON.stringify(["deployments/deployment-id/api/_middleware.js"]),
+    );
+    expect(init.headers.get("x-origan-cron-scheduled-at")).toBe(
+      "2025-01-01T12:01:00.000Z",
+    );
+  });
+
+  it("checks the slots of a failed check again", async () => {
+    getActiveCronDeployments
+      .mockRejectedValueOnce(new Error("connection lost"))
+      .mockResolvedValue([deployment]);
+
+    await vi.advanceTimersByTimeAsync(TICK_INTERVAL_MS);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(TICK_INTERVAL_MS);
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    expect(
+      fetchMock.mock.calls[0][1].headers.get("x-origan-cron-scheduled-at"),
+    ).toBe("2025-01-01T12:01:00.000Z");
+  });
+});
@@ -0,0 +1,222 @@
+import { eq, lt } from "drizzle-orm";
+import { env } from "../../config.js";
+import { getLogger } from "../../instrumentation.js";
+import { db } from "../../libs/db/index.js";
+import { cronRunSchema } from "../../libs/db/schema.js";
+import { getActiveCronDeployments } from "./queries.js";
+import { type CronResource, getDueRun } from "./schedule.js";
+
+const TICK_INTERVAL_MS = 30 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+// Same default as the gateway for functions without their own timeout
+const DEFAULT_TIMEOUT_MS = 60 * 1000;
+const MAX_ERROR_LENGTH = 1000;
+
+type CronDeployment = {
+  id: string;
+  projectId: string;
+};
+
+/**
+ * Invokes the scheduled functions of the active deployment of each track.
+ * Every instance checks the schedules, the unique slot of a run makes sure
+ * only one of them invokes the function.
+ */
+export class CronScheduler {
+  private tickInterval: NodeJS.Timeout | null = null;
+  private pruneInterval: NodeJS.Timeout | null = null;
+  private lastCheck: Date | null = null;
+  private ticking = false;
+
+  constructor(private runnerUrl: string) {}
+
+  start() {
+    const log = getLogger();
+    if (this.tickInterval) {
+      throw new Error("Scheduler already running");
+    }
+
+    log.info("Starting cron scheduler");
+
+    // Slots are due from the start of the scheduler on
+    this.lastCheck = new Date();
+    this.tickInterval = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+    this.pruneInterval = setInterval(
+      () => this.pruneOldRuns(),
+      PRUNE_INTERVAL_MS,
+    );
+  }
+
+  private async tick() {
+    const log = getLogger();
+    if (this.ticking) return;
+    this.ticking = true;
+
+    const now = new Date();
+    const since = this.lastCheck ?? new Date(now.getTime() - TICK_INTERVAL_MS);
+
+    try {
+      const deployments = await getActiveCronDeployments();
+      // A failed check is retried over the same slots on the next tick
+      this.lastCheck = now;
+      for (const deployment of deployments) {
+        for (const resource of deployment.resources) {
+          const scheduledAt = getDueRun(resource.schedule, since, now);
+          if (!scheduledAt) continue;
+          // Runs are not awaited so that a slow function does not delay
+          // the other schedules
+          this.run(deployment, resource, scheduledAt).catch((error) => {
+            log
+              .withError(error)
+              .error(
+                `Error running ${resource.urlPath} of deployment ${deployment.id}`,
+              );
+          });
+        }
+      }
+    } catch (error) {
+      log.withError(error).error("Error checking cron schedules");
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async run(
+    deployment: CronDeployment,
+    resource: CronResource,
+    scheduledAt: Date,
+  ) {
+    const log = getLogger();
+    const startedAt = new Date();
+    const [claimed] = await db
+      .insert(cronRunSchema)
+      .values({
+        projectId: deployment.projectId,
+        deploymentId: deployment.id,
+        urlPath: resource.urlPath,
+        schedule: resource.schedule,
+        scheduledAt,
+        startedAt,
+      })
+      .onConflictDoNothing()
+      .returning({ id: cronRunSchema.id });
+    // Another instance already runs this slot
+    if (!claimed) return;
+
+    log.info(
+      `Running ${resource.urlPath} of deployment ${deployment.id} for ${scheduledAt.toISOString()}`,
+    );
+
+    const result = await this.invoke(deployment, resource, scheduledAt);
+    const finishedAt = new Date();
+    await db
+      .update(cronRunSchema)
+      .set({
+        ...result,
+        finishedAt,
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+      })
+      .where(eq(cronRunSchema.id, claimed.id));
+  }
+
+  /**
+   * Sends the synthetic request of a run to the runner, with the headers
+   * the gateway would set for a routed function
+   */
+  private async invoke(
+    deployment: CronDeployment,
+    resource: CronResource,
+    scheduledAt: Date,
+  ): Promise<{
+    status: "success" | "error";
+    statusCode?: number;
+    error?: string;
+  }> {
+    const timeoutMs = resource.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const headers = new Headers({
+      "x-origan-function-path": `deployments/${deployment.id}/${resource.resourcePath}`,
+      "x-origan-deployment-id": deployment.id,
+      "x-origan-project-id": deployment.projectId,
+      "x-origan-timeout-ms": String(timeoutMs),
+      "x-origan-route-pattern": resource.urlPath,
+      "x-origan-route-params": "{}",
+      // Outermost first, as the gateway sends them
+      "x-origan-middleware-paths": JSON.stringify(
+        (resource.middleware ?? []).map(
+          (resourcePath) => `deployments/${deployment.id}/${resourcePath}`,
+        ),
+      ),
+      "x-origan-cron-schedule": resource.schedule,
+      "x-origan-cron-scheduled-at": scheduledAt.toISOString(),
+    });
+    if (resource.memoryLimitMb) {
+      headers.set("x-origan-memory-limit-mb", String(resource.memoryLimitMb));
+    }
+
+    try {
+      const response = await fetch(`${this.runnerUrl}${resource.urlPath}`, {
+        method: "GET",
+        headers,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      const body = await response.text();
+      if (response.ok) {
+        return { status: "success", statusCode: response.status };
+      }
+      return {
+        status: "error",
+        statusCode: response.status,
+        error:
+          body.slice(0, MAX_ERROR_LENGTH) ||
+          `Function responded with ${response.status}`,
+      };
+    } catch (error) {
+      const timedOut =
+        error instanceof DOMException && error.name === "TimeoutError";
+      return {
+        status: "error",
+        error: timedOut
+          ? `Timed out after ${timeoutMs}ms`
+          : error instanceof Error
+            ? error.message
+            : String(error),
+      };
+    }
+  }
+
+  private async pruneOldRuns() {
+    const log = getLogger();
+    const cutoff = new Date(
+      Date.now() - env.CRON_HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000,
+    );
+
+    try {
+      await db
+        .delete(cronRunSchema)
+        .where(lt(cronRunSchema.scheduledAt, cutoff));
+    } catch (error) {
+      log.withError(error).error("Error pruning old cron runs");
+    }
+  }
+
+  stop() {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+    if (this.pruneInterval) {
+      clearInterval(this.pruneInterval);
+      this.pruneInterval = null;
+    }
+  }
+}
+
+let cronSchedulerInstance: CronScheduler | null = null;
+
+export function startCronScheduler(runnerUrl: string): CronScheduler {
+  if (!cronSchedulerInstance) {
+    cronSchedulerInstance = new CronScheduler(runnerUrl);
+    cronSchedulerInstance.start();
+  }
+  return cronSchedulerInstance;
+}
@@ -15,13 +15,16 @@ import {
 } from "../libs/db/schema.js";
 import { putObject } from "../libs/s3.js";
 import { deploymentConfigSchema } from "../schemas/deploy.js";
+import { findLimitViolations } from "../utils/function-limits.js";
 import { generateReference, REFERENCE_PREFIXES } from "../utils/reference.js";
 import { generateDeploymentSubdomain } from "../utils/subdomain.js";
+import { invalidateDomainConfigs } from "./domain.service.js";
 import { getLatestRevision } from "./environment.service.js";
 import {
   updateGithubCheckToFailure,
   updateGithubCheckToSuccess,
 } from "./github-integration.service.js";
+import { getFunctionLimits } from "./plan.service.js";
 import { getOrCreateTrack, updateTrackDomains } from "./track.service.js";
 
 // Custom Error Types
@@ -260,6 +263,13 @@ export async function operateDeployment({
     );
   }
 
+  const violations = findLimitViolations(result.data, getFunctionLimits());
+  if (violations.length > 0) {
+    throw new InvalidConfigError(
+      `Route settings exceed plan limits: ${violations.join("; ")}`,
+    );
+  }
+
   const project = await db.query.projectSchema.findFirst({
     where: and(eq(projectSchema.reference, projectRef)),
   });
@@ -372,6 +382,8 @@ export async function operateDeployment({
         },
       });
 
+    await invalidateDomainConfigs([domain], "deployment-succeeded");
+
     // Update GitHub check to success once domains are persisted
     await updateGithubCheckToSuccess(deploymentId);
 
@@ -7,6 +7,7 @@ import {
   projectSchema,
   trackSchema,
 } from "../libs/db/schema.js";
+import { getNatsClient } from "../libs/nats.js";
 import { deleteCertificate, issueCertificate } from "./certificate.service.js";
 import { validateDnsPointsToGateway } from "./dns.service.js";
 
@@ -98,6 +99,9 @@ export async function addCustomDomain(
     })
     .returning();
 
+  // The gateway may have cached this host as unknown
+  await invalidateDomainConfigs([domainName], "custom-domain-added");
+
   // Trigger certificate issuance asynchronously (don't wait for it)
   issueCertificate(domainName).catch((error) => {
     log.withError(error).error(`Failed to issue certificate for ${domainName}`);
@@ -141,9 +145,85 @@ export async function removeCustomDomain(domainName: string): Promise<void> {
   // Delete domain from database
   await db.delete(domainSchema).where(eq(domainSchema.name, domainName));
 
+  // Domains redirecting to the removed one serve their own content again
+  const unredirected = await db
+    .update(domainSchema)
+    .set({ redirectTo: null })
+    .where(eq(domainSchema.redirectTo, domainName))
+    .returning({ name: domainSchema.name });
+
+  await invalidateDomainConfigs(
+    [domainName, ...unredirected.map((domain) => domain.name)],
+    "custom-domain-removed",
+  );
+
   log.info(`Custom domain removed: ${domainName}`);
 }
 
+export interface DomainSettings {
+  forceHttps?: boolean;
+  hstsMaxAge?: number | null;
+  redirectTo?: string | null;
+}
+
+/**
+ * Update how the gateway serves a domain: HTTPS enforcement, HSTS and
+ * redirection to another domain of the same track (e.g. apex -> www)
+ */
+export async function updateDomainSettings(
+  domainName: string,
+  settings: DomainSettings,
+) {
+  const domain = await db.query.domainSchema.findFirst({
+    where: eq(domainSchema.name, domainName),
+  });
+
+  if (!domain) {
+    throw new Error(`Domain not found: ${domainName}`);
+  }
+
+  if (settings.redirectTo) {
+    if (settings.redirectTo === domain.name) {
+      throw new Error("A domain cannot redirect to itself");
+    }
+
+    const target = await db.query.domainSchema.findFirst({
+      where: eq(domainSchema.name, settings.redirectTo),
+    });
+
+    if (!target || target.trackId !== domain.trackId) {
+      throw new Error(
+        `Redirect target must be a domain of the same track: ${settings.redirectTo}`,
+      );
+    }
+
+    // Chained redirects could loop, both ends have to serve the site
+    if (target.redirectTo) {
+      throw new Error(
+        `Redirect target already redirects to ${target.redirectTo}`,
+      );
+    }
+    const redirectingHere = await db.query.domainSchema.findFirst({
+      where: eq(domainSchema.redirectTo, domain.name),
+    });
+    if (redirectingHere) {
+      throw new Error(
+        `${redirectingHere.name} already redirects to ${domain.name}`,
+      );
+    }
+  }
+
+  const [updated] = await db
+    .update(domainSchema)
+    .set(settings)
+    .where(eq(domainSchema.id, domain.id))
+    .returning();
+
+  await invalidateDomainConfigs([domain.name], "domain-settings-updated");
+
+  return updated;
+}
+
 /**
  * Get custom domains for a project
  */
@@ -168,6 +248,15 @@ export async function getCustomDomainsForProject(projectReference: string) {
   });
 }
 
+/**
+ * Get a domain by name, undefined when it does not exist
+ */
+export async function getDomain(domainName: string) {
+  return db.query.domainSchema.findFirst({
+    where: eq(domainSchema.name, domainName),
+  });
+}
+
 /**
  * Get domain status
  */
@@ -186,5 +275,34 @@ export async function getDomainStatus(domainName: string) {
     certificateIssuedAt: domain.certificateIssuedAt,
     certificateExpiresAt: domain.certificateExpiresAt,
     lastCertificateError: domain.lastCertificateError,
+    forceHttps: domain.forceHttps,
+    hstsMaxAge: domain.hstsMaxAge,
+    redirectTo: domain.redirectTo,
   };
 }
+
+/**
+ * Notify gateways that the config served for these domains changed.
+ * Failures are only logged: gateways still expire their cache entries on their own.
+ */
+export async function invalidateDomainConfigs(
+  domainNames: string[],
+  reason?: string,
+): Promise<void> {
+  if (domainNames.length === 0) return;
+
+  try {
+    const natsClient = await getNatsClient();
+    await natsClient.publisher.publishDomainConfigInvalidation({
+      timestamp: new Date().toISOString(),
+      domains: domainNames,
+      reason,
+    });
+  } catch (error) {
+    log
+      .withError(error)
+      .warn(
+        `Failed to publish config invalidation for ${domainNames.join(", ")}`,
+      );
+  }
+}
@@ -0,0 +1,14 @@
+import { env } from "../config.js";
+import type { FunctionLimits } from "../utils/function-limits.js";
+
+/**
+ * Limits applied to per-route function settings. Every project currently
+ * shares the same plan, configured through the environment.
+ */
+export function getFunctionLimits(): FunctionLimits {
+  return {
+    timeoutMs: env.FUNCTION_MAX_TIMEOUT_MS,
+    memoryLimitMb: env.FUNCTION_MAX_MEMORY_MB,
+    maxBodyBytes: env.FUNCTION_MAX_BODY_BYTES,
+  };
+}
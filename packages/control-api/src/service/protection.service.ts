@@ -0,0 +1,219 @@
+import { TRPCError } from "@trpc/server";
+import { and, eq, inArray } from "drizzle-orm";
+import { db } from "../libs/db/index.js";
+import {
+  domainSchema,
+  environmentsSchema,
+  trackSchema,
+} from "../libs/db/schema.js";
+import {
+  generateSecureToken,
+  hashPassword,
+  hashTokenWithSalt,
+} from "../utils/crypto.js";
+import { invalidateDomainConfigs } from "./domain.service.js";
+
+type ProtectionColumns = {
+  protectionPasswordHash: string | null;
+  protectionBypassTokenHash: string | null;
+};
+
+export type ProtectionUpdate = {
+  // null removes the password, undefined keeps the current one
+  password?: string | null;
+  bypassToken?: "rotate" | "remove";
+};
+
+/**
+ * Protection delivered to the gateway with the domain config
+ */
+export type ProtectionSettings = {
+  passwordHash: string | null;
+  bypassTokenHash: string | null;
+};
+
+export function describeProtection(columns: ProtectionColumns) {
+  return {
+    passwordEnabled: columns.protectionPasswordHash !== null,
+    bypassTokenEnabled: columns.protectionBypassTokenHash !== null,
+  };
+}
+
+function buildProtectionValues(update: ProtectionUpdate) {
+  const values: Partial<ProtectionColumns> = {};
+  let bypassToken: string | undefined;
+
+  if (update.password !== undefined) {
+    values.protectionPasswordHash =
+      update.password === null ? null : hashPassword(update.password);
+  }
+  if (update.bypassToken === "rotate") {
+    bypassToken = generateSecureToken();
+    values.protectionBypassTokenHash = hashTokenWithSalt(bypassToken);
+  } else if (update.bypassToken === "remove") {
+    values.protectionBypassTokenHash = null;
+  }
+
+  return { values, bypassToken };
+}
+
+export async function getTrackProtection(projectId: string, trackName: string) {
+  const track = await getTrackByName(projectId, trackName);
+  return describeProtection(track);
+}
+
+/**
+ * Updates the protection of a single track. The plaintext bypass token is
+ * only returned when rotated, it cannot be read back afterwards.
+ */
+export async function updateTrackProtection(
+  projectId: string,
+  trackName: string,
+  update: ProtectionUpdate,
+) {
+  const track = await getTrackByName(projectId, trackName);
+  const { values, bypassToken } = buildProtectionValues(update);
+
+  const [updated] = await db
+    .update(trackSchema)
+    .set(values)
+    .where(eq(trackSchema.id, track.id))
+    .returning();
+
+  const domains = await db.query.domainSchema.findMany({
+    where: eq(domainSchema.trackId, track.id),
+  });
+  await invalidateDomainConfigs(
+    domains.map((domain) => domain.name),
+    "track-protection-updated",
+  );
+
+  return { ...describeProtection(updated), bypassToken };
+}
+
+export async function getEnvironmentProtection(
+  projectId: string,
+  environmentName: string,
+) {
+  const environment = await getEnvironmentByName(projectId, environmentName);
+  return describeProtection(environment);
+}
+
+/**
+ * Updates the protection shared by every track of an environment, e.g.
+ * all the `pr-N` tracks of the preview environment.
+ */
+export async function updateEnvironmentProtection(
+  projectId: string,
+  environmentName: string,
+  update: ProtectionUpdate,
+) {
+  const environment = await getEnvironmentByName(projectId, environmentName);
+  const { values, bypassToken } = buildProtectionValues(update);
+
+  const [updated] = await db
+    .update(environmentsSchema)
+    .set(values)
+    .where(eq(environmentsSchema.id, environment.id))
+    .returning();
+
+  const tracks = await db.query.trackSchema.findMany({
+    where: eq(trackSchema.environmentId, environment.id),
+  });
+  if (tracks.length > 0) {
+    const domains = await db.query.domainSchema.findMany({
+      where: inArray(
+        domainSchema.trackId,
+        tracks.map((track) => track.id),
+      ),
+    });
+    await invalidateDomainConfigs(
+      domains.map((domain) => domain.name),
+      "environment-protection-updated",
+    );
+  }
+
+  return { ...describeProtection(updated), bypassToken };
+}
+
+/**
+ * Protection applying to a track: its own when it has one, otherwise the
+ * one of its environment. Null when the track is public.
+ */
+export async function getProtectionSettings(
+  trackId: string | null,
+): Promise<ProtectionSettings | null> {
+  if (!trackId) {
+    return null;
+  }
+
+  const track = await db.query.trackSchema.findFirst({
+    where: eq(trackSchema.id, trackId),
+    with: {
+      environment: true,
+    },
+  });
+  if (!track) {
+    return null;
+  }
+
+  const source = hasProtection(track)
+    ? track
+    : track.environment && hasProtection(track.environment)
+      ? track.environment
+      : null;
+  if (!source) {
+    return null;
+  }
+
+  return {
+    passwordHash: source.protectionPasswordHash,
+    bypassTokenHash: source.protectionBypassTokenHash,
+  };
+}
+
+function hasProtection(columns: ProtectionColumns) {
+  return (
+    columns.protectionPasswordHash !== null ||
+    columns.protectionBypassTokenHash !== null
+  );
+}
+
+async function getTrackByName(projectId: string, trackName: string) {
+  const track = await db.query.trackSchema.findFirst({
+    where: and(
+      eq(trackSchema.projectId, projectId),
+      eq(trackSchema.name, trackName),
+    ),
+  });
+
+  if (!track) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: `Track '${trackName}' not found in this project`,
+    });
+  }
+
+  return track;
+}
+
+async function getEnvironmentByName(
+  projectId: string,
+  environmentName: string,
+) {
+  const environment = await db.query.environmentsSchema.findFirst({
+    where: and(
+      eq(environmentsSchema.projectId, projectId),
+      eq(environmentsSchema.name, environmentName),
+    ),
+  });
+
+  if (!environment) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: `Environment '${environmentName}' not found in this project`,
+    });
+  }
+
+  return environment;
+}
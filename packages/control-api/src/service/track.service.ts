@@ -7,6 +7,7 @@ import {
   projectSchema,
   trackSchema,
 } from "../libs/db/schema.js";
+import { invalidateDomainConfigs } from "./domain.service.js";
 
 /**
  * Create a new track and its default domain.
@@ -54,15 +55,23 @@ export async function createTrack({
 export async function deleteTrack(trackId: string) {
   // Direct ORM call: should belong to the domain service
   // CAUTION: this works for internal domain, will need to be adapted for external domains
-  await db.delete(domainSchema).where(eq(domainSchema.trackId, trackId));
+  const deletedDomains = await db
+    .delete(domainSchema)
+    .where(eq(domainSchema.trackId, trackId))
+    .returning({ name: domainSchema.name });
   await db.delete(trackSchema).where(eq(trackSchema.id, trackId));
+
+  await invalidateDomainConfigs(
+    deletedDomains.map((d) => d.name),
+    "track-deleted",
+  );
 }
 
 /**
  * Update all domains for a track to point to the latest deployment.
  */
 export async function updateTrackDomains(trackId: string) {
-  return await db.transaction(async (tx) => {
+  const updatedDomains = await db.transaction(async (tx) => {
     // Direct ORM call: should belong to the domain service
     const domains = await tx.query.domainSchema.findMany({
       where: eq(domainSchema.trackId, trackId),
@@ -74,7 +83,7 @@ export async function updateTrackDomains(trackId: string) {
       orderBy: desc(deploymentSchema.createdAt),
     });
 
-    if (!latestDeployment) return;
+    if (!latestDeployment) return [];
 
     // Direct ORM call: should belong to the domain service
 
@@ -87,7 +96,12 @@ export async function updateTrackDomains(trackId: string) {
           domains.map((d) => d.id),
         ),
       );
+
+    return domains.map((d) => d.name);
   });
+
+  // Only notify gateways once the new pointers are committed
+  await invalidateDomainConfigs(updatedDomains, "track-updated");
 }
 
 /**
@@ -146,6 +160,10 @@ export async function getOrCreateTrack({
 export async function getTracksForProject(projectId: string) {
   return await db.query.trackSchema.findMany({
     where: eq(trackSchema.projectId, projectId),
+    columns: {
+      protectionPasswordHash: false,
+      protectionBypassTokenHash: false,
+    },
     orderBy: [
       desc(trackSchema.isSystem), // System tracks first (prod)
       asc(trackSchema.name), // Then alphabetical
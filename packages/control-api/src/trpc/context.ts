@@ -6,9 +6,14 @@ import { env } from "../config.js";
 import { getLogger } from "../instrumentation.js";
 import { db } from "../libs/db/index.js";
 import { jwtPayloadSchema } from "../schemas/auth.js";
+import { verifySharedSecret } from "../utils/crypto.js";
+
+export const GATEWAY_TOKEN_HEADER = "x-origan-gateway-token";
 
 export interface Context {
   userId: string | null;
+  // Set for requests of the gateways, authenticated by GATEWAY_TOKEN
+  isGateway: boolean;
   db: typeof db;
   honoCtx: HonoContext;
 }
@@ -91,6 +96,10 @@ export async function createContext(opts: {
 
   return {
     userId,
+    isGateway: verifySharedSecret(
+      opts.c.req.header(GATEWAY_TOKEN_HEADER),
+      env.GATEWAY_TOKEN,
+    ),
     db,
     honoCtx: opts.c,
   };
@@ -1,6 +1,7 @@
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import { ZodError } from "zod";
+import { trpcProcedureDuration } from "../libs/metrics.js";
 import type { Context } from "./context.js";
 
 const t = initTRPC.context<Context>().create({
@@ -23,7 +24,15 @@ const t = initTRPC.context<Context>().create({
 });
 
 export const router = t.router;
-export const publicProcedure = t.procedure;
+
+const metricsMiddleware = t.middleware(async ({ path, type, next }) => {
+  const stopTimer = trpcProcedureDuration.startTimer({ procedure: path, type });
+  const result = await next();
+  stopTimer({ status: result.ok ? "ok" : result.error.code });
+  return result;
+});
+
+export const publicProcedure = t.procedure.use(metricsMiddleware);
 
 // Middleware for protected routes
 const authMiddleware = t.middleware(async ({ ctx, next }) => {
@@ -42,4 +51,18 @@ const authMiddleware = t.middleware(async ({ ctx, next }) => {
   });
 });
 
-export const protectedProcedure = t.procedure.use(authMiddleware);
+export const protectedProcedure = publicProcedure.use(authMiddleware);
+
+// Middleware for the internal routes the gateways call
+const gatewayMiddleware = t.middleware(async ({ ctx, next }) => {
+  if (!ctx.isGateway) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: "Only gateways can access this resource",
+    });
+  }
+
+  return next();
+});
+
+export const gatewayProcedure = publicProcedure.use(gatewayMiddleware);
@@ -1,6 +1,10 @@
 import { router } from "./init.js";
+import { accessRulesRouter } from "./routers/access-rules.js";
+import { analyticsRouter } from "./routers/analytics.js";
 import { authRouter } from "./routers/auth.js";
 import { buildsRouter } from "./routers/builds.js";
+import { cacheRouter } from "./routers/cache.js";
+import { cronRouter } from "./routers/cron.js";
 import { deploymentsRouter } from "./routers/deployments.js";
 import { domainsRouter } from "./routers/domains.js";
 import { environmentsRouter } from "./routers/environments.js";
@@ -8,6 +12,7 @@ import { githubRouter } from "./routers/github.js";
 import { logsRouter } from "./routers/logs.js";
 import { organizationsRouter } from "./routers/organizations.js";
 import { projectsRouter } from "./routers/projects.js";
+import { tracksRouter } from "./routers/tracks.js";
 
 export const appRouter = router({
   auth: authRouter,
@@ -19,6 +24,11 @@ export const appRouter = router({
   builds: buildsRouter,
   github: githubRouter,
   logs: logsRouter,
+  accessRules: accessRulesRouter,
+  tracks: tracksRouter,
+  analytics: analyticsRouter,
+  cache: cacheRouter,
+  cron: cronRouter,
 });
 
 export type AppRouter = typeof appRouter;
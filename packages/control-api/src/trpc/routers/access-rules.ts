@@ -0,0 +1,81 @@
+import { z } from "zod";
+import {
+  createAccessRule,
+  deleteAccessRule,
+  listAccessRules,
+} from "../../service/access-rule.service.js";
+import { getProjectWithAccessCheck } from "../../service/authorization.service.js";
+import { protectedProcedure, router } from "../init.js";
+
+const ruleTargetSchema = z.object({
+  projectReference: z.string().min(1),
+  // Omitted for rules covering every track of the project
+  trackName: z.string().min(1).optional(),
+});
+
+export const accessRulesRouter = router({
+  list: protectedProcedure
+    .input(
+      z.object({
+        projectReference: z.string().min(1),
+      }),
+    )
+    .query(async ({ input, ctx }) => {
+      const project = await getProjectWithAccessCheck(
+        ctx.userId,
+        input.projectReference,
+      );
+
+      return listAccessRules(project.id);
+    }),
+
+  create: protectedProcedure
+    .input(
+      z.discriminatedUnion("type", [
+        ruleTargetSchema.extend({
+          type: z.enum(["allow", "deny"]),
+          cidr: z.string().min(1),
+        }),
+        ruleTargetSchema.extend({
+          type: z.literal("rate_limit"),
+          requests: z.number().int().positive(),
+          windowSeconds: z
+            .number()
+            .int()
+            .positive()
+            .max(24 * 60 * 60),
+          keyHeader: z
+            .string()
+            .regex(/^[A-Za-z0-9-]+$/, "Invalid header name")
+            .optional(),
+          scope: z.enum(["all", "dynamic"]).optional(),
+        }),
+      ]),
+    )
+    .mutation(async ({ input, ctx }) => {
+      const { projectReference, ...rule } = input;
+      const project = await getProjectWithAccessCheck(
+        ctx.userId,
+        projectReference,
+      );
+
+      return createAccessRule({ ...rule, projectId: project.id });
+    }),
+
+  delete: protectedProcedure
+    .input(
+      z.object({
+        projectReference: z.string().min(1),
+        ruleId: z.string().uuid(),
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      const project = await getProjectWithAccessCheck(
+        ctx.userId,
+        input.projectReference,
+      );
+
+      await deleteAccessRule(project.id, input.ruleId);
+      return { success: true };
+    }),
+});
@@ -0,0 +1,52 @@
+import { z } from "zod";
+import {
+  getBandwidth,
+  getStatusCodeBreakdown,
+  getTopPaths,
+} from "../../service/analytics/index.js";
+import { getProjectWithAccessCheck } from "../../service/authorization.service.js";
+import { protectedProcedure, router } from "../init.js";
+
+const analyticsInputSchema = z.object({
+  projectReference: z.string().min(1),
+  period: z.enum(["24h", "7d", "30d"]).default("24h"),
+});
+
+export const analyticsRouter = router({
+  topPaths: protectedProcedure
+    .input(
+      analyticsInputSchema.extend({
+        limit: z.number().int().min(1).max(100).default(10),
+      }),
+    )
+    .query(async ({ input, ctx }) => {
+      const project = await getProjectWithAccessCheck(
+        ctx.userId,
+        input.projectReference,
+      );
+
+      return getTopPaths(project.id, input.period, input.limit);
+    }),
+
+  statusCodes: protectedProcedure
+    .input(analyticsInputSchema)
+    .query(async ({ input, ctx }) => {
+      const project = await getProjectWithAccessCheck(
+        ctx.userId,
+        input.projectReference,
+      );
+
+      return getStatusCodeBreakdown(project.id, input.period);
+    }),
+
+  bandwidth: protectedProcedure
+    .input(analyticsInputSchema)
+    .query(async ({ input, ctx }) => {
+      const project = await getProjectWithAccessCheck(
+        ctx.userId,
+        input.projectReference,
+      );
+
+      return getBandwidth(project.id, input.period);
+    }),
+});
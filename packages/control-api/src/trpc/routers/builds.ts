@@ -10,7 +10,10 @@ import {
 } from "../../schemas/build.js";
 import { assertProjectAccess } from "../../service/authorization.service.js";
 import { deployBuild } from "../../service/build/deploy.js";
-import { getDeployment } from "../../service/deployment.service.js";
+import {
+  getDeployment,
+  InvalidConfigError,
+} from "../../service/deployment.service.js";
 import { protectedProcedure, publicProcedure, router } from "../init.js";
 
 type BuildArtifactConfig = z.infer<typeof BuildArtifactConfigSchema>;
@@ -74,6 +77,12 @@ export const buildsRouter = router({
         await deployBuild(buildId, artifact, parsedConfig, token);
         return { success: true };
       } catch (error) {
+        if (error instanceof InvalidConfigError) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error.message,
+          });
+        }
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
           message: "Failed to process build artifact",
@@ -0,0 +1,33 @@
+import { z } from "zod";
+import { getProjectWithAccessCheck } from "../../service/authorization.service.js";
+import { purgeResponseCache } from "../../service/cache.service.js";
+import { protectedProcedure, router } from "../init.js";
+
+export const cacheRouter = router({
+  // Drops gateway cached function responses, by path prefix, by
+  // `Cache-Tag`, or all of them for a deployment or the whole project
+  purge: protectedProcedure
+    .input(
+      z.object({
+        projectReference: z.string().min(1),
+        deploymentReference: z.string().min(1).optional(),
+        pathPrefixes: z
+          .array(z.string().startsWith("/").max(2048))
+          .max(100)
+          .optional(),
+        tags: z.array(z.string().min(1).max(256)).max(100).optional(),
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      const project = await getProjectWithAccessCheck(
+        ctx.userId,
+        input.projectReference,
+      );
+
+      return purgeResponseCache(project.id, {
+        deploymentReference: input.deploymentReference,
+        pathPrefixes: input.pathPrefixes,
+        tags: input.tags,
+      });
+    }),
+});
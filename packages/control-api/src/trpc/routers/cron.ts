@@ -0,0 +1,59 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { assertProjectAccess } from "../../service/authorization.service.js";
+import { getCronResources, getCronRuns } from "../../service/cron/index.js";
+import { getDeployment } from "../../service/deployment.service.js";
+import { nextCronRun, parseCron } from "../../utils/cron.js";
+import { protectedProcedure, router } from "../init.js";
+
+export const cronRouter = router({
+  // Scheduled functions declared by a deployment
+  listSchedules: protectedProcedure
+    .input(z.object({ deploymentRef: z.string() }))
+    .query(async ({ input, ctx }) => {
+      const deployment = await getDeployment({
+        reference: input.deploymentRef,
+      });
+
+      if (!deployment) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Deployment not found",
+        });
+      }
+
+      await assertProjectAccess(ctx.userId, deployment.projectId);
+
+      const now = new Date();
+      return getCronResources(deployment.config).map((resource) => ({
+        urlPath: resource.urlPath,
+        schedule: resource.schedule,
+        nextRunAt: nextCronRun(parseCron(resource.schedule), now),
+      }));
+    }),
+
+  // Execution history of the scheduled functions of a deployment
+  listRuns: protectedProcedure
+    .input(
+      z.object({
+        deploymentRef: z.string(),
+        limit: z.number().int().min(1).max(200).default(50),
+      }),
+    )
+    .query(async ({ input, ctx }) => {
+      const deployment = await getDeployment({
+        reference: input.deploymentRef,
+      });
+
+      if (!deployment) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Deployment not found",
+        });
+      }
+
+      await assertProjectAccess(ctx.userId, deployment.projectId);
+
+      return getCronRuns(deployment.id, input.limit);
+    }),
+});
@@ -9,7 +9,9 @@ import {
   deploymentConfigSchema,
   getConfigRequestSchema,
 } from "../../schemas/deploy.js";
+import { getAccessSettings } from "../../service/access-rule.service.js";
 import { getProjectWithAccessCheck } from "../../service/authorization.service.js";
+import { getWeightedDeployments } from "../../service/canary.service.js";
 import {
   BundleProcessingError,
   getDeployment,
@@ -20,7 +22,8 @@ import {
   ProjectNotFoundError,
   S3UploadError,
 } from "../../service/deployment.service.js";
-import { protectedProcedure, publicProcedure, router } from "../init.js";
+import { getProtectionSettings } from "../../service/protection.service.js";
+import { gatewayProcedure, protectedProcedure, router } from "../init.js";
 
 export const deploymentsRouter = router({
   // Create deployment with native FormData support
@@ -171,8 +174,8 @@ export const deploymentsRouter = router({
       }
     }),
 
-  // Get deployment config by domain for gateway
-  getConfigByDomain: publicProcedure
+  // Get deployment config by domain for gateway, with the protection hashes
+  getConfigByDomain: gatewayProcedure
     .input(z.object({ domain: z.string() }))
     .query(async ({ input }) => {
       const log = getLogger();
@@ -206,6 +209,18 @@ export const deploymentsRouter = router({
           config: domain.deployment.config || { version: 1, resources: [] },
           deploymentId: domain.deployment.id,
           projectId: domain.projectId,
+          domain: {
+            forceHttps: domain.forceHttps,
+            hstsMaxAge: domain.hstsMaxAge,
+            redirectTo: domain.redirectTo,
+          },
+          access: await getAccessSettings(domain.projectId, domain.trackId),
+          protection: await getProtectionSettings(domain.trackId),
+          // Set only while a canary receives part of the traffic
+          deployments: await getWeightedDeployments(domain.trackId, {
+            id: domain.deployment.id,
+            config: domain.deployment.config,
+          }),
         };
       } catch (error) {
         if (error instanceof TRPCError) throw error;
@@ -0,0 +1,86 @@
+import { TRPCError } from "@trpc/server";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const { assertProjectAccess, getDomain, updateDomainSettings } = vi.hoisted(
+  () => ({
+    assertProjectAccess: vi.fn(),
+    getDomain: vi.fn(),
+    updateDomainSettings: vi.fn(),
+  }),
+);
+
+vi.mock("../../libs/db/index.js", () => ({ db: {} }));
+vi.mock("../../instrumentation.js", () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    withError: () => ({ error: vi.fn() }),
+  }),
+}));
+vi.mock("../../service/authorization.service.js", () => ({
+  assertProjectAccess,
+}));
+vi.mock("../../service/domain.service.js", () => ({
+  getDomain,
+  updateDomainSettings,
+}));
+
+import type { Context } from "../context.js";
+import { domainsRouter } from "./domains.js";
+
+function createCaller(userId: string) {
+  return domainsRouter.createCaller({
+    userId,
+    isGateway: false,
+  } as Context);
+}
+
+describe("domains router", () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("updates the settings of a domain of the user's projects", async () => {
+    getDomain.mockResolvedValue({ name: "site.example.com", projectId: "p1" });
+    updateDomainSettings.mockResolvedValue({ forceHttps: true });
+
+    await createCaller("user-1").updateDomainSettings({
+      domain: "site.example.com",
+      forceHttps: true,
+    });
+
+    expect(assertProjectAccess).toHaveBeenCalledWith("user-1", "p1");
+    expect(updateDomainSettings).toHaveBeenCalledWith("site.example.com", {
+      forceHttps: true,
+    });
+  });
+
+  it("refuses to update the domains of other projects", async () => {
+    getDomain.mockResolvedValue({ name: "site.example.com", projectId: "p2" });
+    assertProjectAccess.mockRejectedValue(
+      new TRPCError({
+        code: "FORBIDDEN",
+        message: "You do not have access to this organization",
+      }),
+    );
+
+    await expect(
+      createCaller("user-1").updateDomainSettings({
+        domain: "site.example.com",
+        redirectTo: "evil.example.com",
+      }),
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+    expect(updateDomainSettings).not.toHaveBeenCalled();
+  });
+
+  it("answers unknown domains with NOT_FOUND", async () => {
+    getDomain.mockResolvedValue(undefined);
+
+    await expect(
+      createCaller("user-1").updateDomainSettings({
+        domain: "missing.example.com",
+        forceHttps: true,
+      }),
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(updateDomainSettings).not.toHaveBeenCalled();
+  });
+});
@@ -1,10 +1,14 @@
+import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { getLogger } from "../../instrumentation.js";
+import { assertProjectAccess } from "../../service/authorization.service.js";
 import {
   addCustomDomain,
   getCustomDomainsForProject,
+  getDomain,
   getDomainStatus,
   removeCustomDomain,
+  updateDomainSettings,
 } from "../../service/domain.service.js";
 import { protectedProcedure, router } from "../init.js";
 
@@ -59,6 +63,39 @@ export const domainsRouter = router({
       }
     }),
 
+  // Update HTTPS enforcement, HSTS and redirection of a domain
+  updateDomainSettings: protectedProcedure
+    .input(
+      z.object({
+        domain: z.string().min(1),
+        forceHttps: z.boolean().optional(),
+        // Up to two years, the usual maximum for HSTS preload lists
+        hstsMaxAge: z.number().int().min(0).max(63072000).nullable().optional(),
+        redirectTo: z.string().min(1).nullable().optional(),
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      const { domain, ...settings } = input;
+
+      const existing = await getDomain(domain);
+      if (!existing) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Domain not found",
+        });
+      }
+      await assertProjectAccess(ctx.userId, existing.projectId);
+
+      log.info(`Updating settings of domain: ${domain}`);
+
+      try {
+        return await updateDomainSettings(domain, settings);
+      } catch (error) {
+        log.withError(error).error("Failed to update domain settings");
+        throw error;
+      }
+    }),
+
   // List custom domains for a project
   listCustomDomains: protectedProcedure
     .input(
@@ -2,6 +2,7 @@ import { eq } from "drizzle-orm";
 import { z } from "zod";
 import { db } from "../../libs/db/index.js";
 import { projectSchema } from "../../libs/db/schema.js";
+import { getProjectWithAccessCheck } from "../../service/authorization.service.js";
 import {
   getEnvironmentByName,
   getEnvironmentsByProject,
@@ -9,6 +10,10 @@ import {
   setEnvironmentVariables,
   unsetEnvironmentVariable,
 } from "../../service/environment.service.js";
+import {
+  getEnvironmentProtection,
+  updateEnvironmentProtection,
+} from "../../service/protection.service.js";
 import { protectedProcedure, router } from "../init.js";
 
 export const environmentsRouter = router({
@@ -153,4 +158,43 @@ export const environmentsRouter = router({
         },
       };
     }),
+
+  // Get the preview protection of an environment
+  getProtection: protectedProcedure
+    .input(
+      z.object({
+        projectReference: z.string().min(1),
+        name: z.string().min(1),
+      }),
+    )
+    .query(async ({ input, ctx }) => {
+      const project = await getProjectWithAccessCheck(
+        ctx.userId,
+        input.projectReference,
+      );
+
+      return getEnvironmentProtection(project.id, input.name);
+    }),
+
+  // Protect every track of an environment with a password and/or bypass token
+  updateProtection: protectedProcedure
+    .input(
+      z.object({
+        projectReference: z.string().min(1),
+        name: z.string().min(1),
+        password: z.string().min(8).max(256).nullable().optional(),
+        bypassToken: z.enum(["rotate", "remove"]).optional(),
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      const project = await getProjectWithAccessCheck(
+        ctx.userId,
+        input.projectReference,
+      );
+
+      return updateEnvironmentProtection(project.id, input.name, {
+        password: input.password,
+        bypassToken: input.bypassToken,
+      });
+    }),
 });
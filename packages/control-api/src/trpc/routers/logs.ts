@@ -55,6 +55,7 @@ export const logsRouter = router({
               projectId: deployment.projectId,
               deploymentId: deployment.id,
               functionPath: log.functionPath,
+              traceId: log.traceId,
             };
 
             emitter.emit("log", logEvent);
@@ -0,0 +1,120 @@
+import { z } from "zod";
+import { getProjectWithAccessCheck } from "../../service/authorization.service.js";
+import {
+  abortCanary,
+  getCanary,
+  promoteCanary,
+  rampCanary,
+  startCanary,
+} from "../../service/canary.service.js";
+import {
+  getTrackProtection,
+  updateTrackProtection,
+} from "../../service/protection.service.js";
+import { protectedProcedure, router } from "../init.js";
+
+const trackInputSchema = z.object({
+  projectReference: z.string().min(1),
+  trackName: z.string().min(1),
+});
+
+// Percentage of the track's traffic sent to the canary deployment
+const canaryWeightSchema = z.number().int().min(0).max(100);
+
+export const tracksRouter = router({
+  getProtection: protectedProcedure
+    .input(trackInputSchema)
+    .query(async ({ input, ctx }) => {
+      const project = await getProjectWithAccessCheck(
+        ctx.userId,
+        input.projectReference,
+      );
+
+      return getTrackProtection(project.id, input.trackName);
+    }),
+
+  // Overrides the protection inherited from the track's environment
+  updateProtection: protectedProcedure
+    .input(
+      trackInputSchema.extend({
+        password: z.string().min(8).max(256).nullable().optional(),
+        bypassToken: z.enum(["rotate", "remove"]).optional(),
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      const project = await getProjectWithAccessCheck(
+        ctx.userId,
+        input.projectReference,
+      );
+
+      return updateTrackProtection(project.id, input.trackName, {
+        password: input.password,
+        bypassToken: input.bypassToken,
+      });
+    }),
+
+  getCanary: protectedProcedure
+    .input(trackInputSchema)
+    .query(async ({ input, ctx }) => {
+      const project = await getProjectWithAccessCheck(
+        ctx.userId,
+        input.projectReference,
+      );
+
+      return getCanary(project.id, input.trackName);
+    }),
+
+  startCanary: protectedProcedure
+    .input(
+      trackInputSchema.extend({
+        deploymentReference: z.string().min(1),
+        weight: canaryWeightSchema,
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      const project = await getProjectWithAccessCheck(
+        ctx.userId,
+        input.projectReference,
+      );
+
+      return startCanary(
+        project.id,
+        input.trackName,
+        input.deploymentReference,
+        input.weight,
+      );
+    }),
+
+  rampCanary: protectedProcedure
+    .input(trackInputSchema.extend({ weight: canaryWeightSchema }))
+    .mutation(async ({ input, ctx }) => {
+      const project = await getProjectWithAccessCheck(
+        ctx.userId,
+        input.projectReference,
+      );
+
+      return rampCanary(project.id, input.trackName, input.weight);
+    }),
+
+  promoteCanary: protectedProcedure
+    .input(trackInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      const project = await getProjectWithAccessCheck(
+        ctx.userId,
+        input.projectReference,
+      );
+
+      return promoteCanary(project.id, input.trackName);
+    }),
+
+  abortCanary: protectedProcedure
+    .input(trackInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      const project = await getProjectWithAccessCheck(
+        ctx.userId,
+        input.projectReference,
+      );
+
+      return abortCanary(project.id, input.trackName);
+    }),
+});
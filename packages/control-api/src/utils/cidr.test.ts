@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { normalizeCidr } from "./cidr.js";
+
+describe("normalizeCidr", () => {
+  it("accepts IPv4 and IPv6 ranges", () => {
+    expect(normalizeCidr("10.0.0.0/8")).toBe("10.0.0.0/8");
+    expect(normalizeCidr(" 2001:db8::/32 ")).toBe("2001:db8::/32");
+  });
+
+  it("turns single addresses into host ranges", () => {
+    expect(normalizeCidr("203.0.113.7")).toBe("203.0.113.7/32");
+    expect(normalizeCidr("::1")).toBe("::1/128");
+  });
+
+  it("rejects invalid addresses and prefixes", () => {
+    expect(normalizeCidr("10.0.0.256/8")).toBeNull();
+    expect(normalizeCidr("10.0.0.0/33")).toBeNull();
+    expect(normalizeCidr("10.0.0.0/8/1")).toBeNull();
+    expect(normalizeCidr("example.com")).toBeNull();
+  });
+});
@@ -0,0 +1,26 @@
+import { isIP } from "node:net";
+
+/**
+ * Normalizes an IPv4/IPv6 address or CIDR to `address/prefix`,
+ * or returns null when it is not valid.
+ */
+export function normalizeCidr(value: string): string | null {
+  const [address, prefix, ...rest] = value.trim().split("/");
+  if (rest.length > 0) {
+    return null;
+  }
+
+  const family = isIP(address);
+  if (family === 0) {
+    return null;
+  }
+
+  const maxPrefix = family === 4 ? 32 : 128;
+  if (prefix === undefined) {
+    return `${address}/${maxPrefix}`;
+  }
+  if (!/^\d{1,3}$/.test(prefix) || Number(prefix) > maxPrefix) {
+    return null;
+  }
+  return `${address}/${Number(prefix)}`;
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { isValidCron, nextCronRun, parseCron } from "./cron.js";
+
+describe("parseCron", () => {
+  it("parses values, ranges, steps and lists", () => {
+    const schedule = parseCron("*/15 9-17 1,15 * mon-fri");
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("expands macros and treats 7 as Sunday", () => {
+    expect(parseCron("@daily")).toEqual(parseCron("0 0 * * *"));
+    expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+  });
+
+  it("rejects invalid expressions", () => {
+    expect(isValidCron("* * * *")).toBe(false);
+    expect(isValidCron("60 * * * *")).toBe(false);
+    expect(isValidCron("* * 0 * *")).toBe(false);
+    expect(isValidCron("*/0 * * * *")).toBe(false);
+    expect(isValidCron("5-1 * * * *")).toBe(false);
+    expect(isValidCron("@often")).toBe(false);
+  });
+});
+
+describe("nextCronRun", () => {
+  const at = (iso: string) => new Date(iso);
+
+  it("returns the next matching minute strictly after the given time", () => {
+    const schedule = parseCron("*/15 * * * *");
+    expect(nextCronRun(schedule, at("2025-01-01T10:07:30Z"))).toEqual(
+      at("2025-01-01T10:15:00Z"),
+    );
+    expect(nextCronRun(schedule, at("2025-01-01T10:15:00Z"))).toEqual(
+      at("2025-01-01T10:30:00Z"),
+    );
+  });
+
+  it("rolls over days, months and years", () => {
+    expect(
+      nextCronRun(parseCron("0 3 * * *"), at("2025-01-01T04:00:00Z")),
+    ).toEqual(at("2025-01-02T03:00:00Z"));
+    expect(
+      nextCronRun(parseCron("@yearly"), at("2025-06-01T00:00:00Z")),
+    ).toEqual(at("2026-01-01T00:00:00Z"));
+    expect(
+      nextCronRun(parseCron("0 0 29 2 *"), at("2025-01-01T00:00:00Z")),
+    ).toEqual(at("2028-02-29T00:00:00Z"));
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // 2025-01-03 is a Friday
+    const schedule = parseCron("0 0 15 * fri");
+    expect(nextCronRun(schedule, at("2025-01-01T00:00:00Z"))).toEqual(
+      at("2025-01-03T00:00:00Z"),
+    );
+    expect(
+      nextCronRun(parseCron("0 0 */2 * *"), at("2025-01-01T00:00:00Z")),
+    ).toEqual(at("2025-01-03T00:00:00Z"));
+  });
+
+  it("returns null for schedules that never match", () => {
+    expect(
+      nextCronRun(parseCron("0 0 31 2 *"), at("2025-01-01T00:00:00Z")),
+    ).toBeNull();
+  });
+});
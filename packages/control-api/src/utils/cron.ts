@@ -0,0 +1,200 @@
+/**
+ * Five field cron expressions (minute, hour, day of month, month, day of
+ * week), evaluated in UTC. Fields accept `*`, values, lists, ranges and
+ * steps (`0,30`, `1-5`, `0-30/10`), months and days also accept their
+ * three letter names.
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // With both day fields restricted, either of them matching is enough
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+export class InvalidCronError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidCronError";
+  }
+}
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+type FieldSpec = {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  // Offset of names[0], e.g. months are numbered from 1
+  namesFrom?: number;
+};
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, namesFrom: 1 },
+  // 7 is accepted as Sunday, like 0
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES, namesFrom: 0 },
+];
+
+function parseValue(value: string, spec: FieldSpec) {
+  const nameIndex = spec.names?.indexOf(value.toLowerCase()) ?? -1;
+  const parsed =
+    nameIndex >= 0
+      ? nameIndex + (spec.namesFrom ?? 0)
+      : /^\d+$/.test(value)
+        ? Number(value)
+        : Number.NaN;
+  if (Number.isNaN(parsed) || parsed < spec.min || parsed > spec.max) {
+    throw new InvalidCronError(`Invalid ${spec.name} value '${value}'`);
+  }
+  return parsed;
+}
+
+function parseField(field: string, spec: FieldSpec) {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepValue, ...rest] = part.split("/");
+    if (rest.length > 0 || !range) {
+      throw new InvalidCronError(`Invalid ${spec.name} field '${field}'`);
+    }
+    const step = stepValue === undefined ? 1 : Number(stepValue);
+    if (!Number.isInteger(step) || step <= 0) {
+      throw new InvalidCronError(`Invalid ${spec.name} step '${stepValue}'`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new InvalidCronError(`Invalid ${spec.name} range '${range}'`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      // `5/15` runs from 5 to the end of the field
+      end = stepValue === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== 5) {
+    throw new InvalidCronError(
+      `Expected 5 fields in cron expression '${expression}', got ${fields.length}`,
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (field, index) => parseField(field, FIELDS[index]),
+  );
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: !fields[2].startsWith("*"),
+    daysOfWeekRestricted: !fields[4].startsWith("*"),
+  };
+}
+
+export function isValidCron(expression: string) {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date) {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+// Enough to find any valid date, including February 29th
+const MAX_SEARCH_YEARS = 8;
+
+/**
+ * First time matching the schedule strictly after `after`, at minute
+ * precision. Null when the schedule never matches (e.g. `0 0 31 2 *`).
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date): Date | null {
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+  const limit = after.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+  while (date.getUTCFullYear() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+  return null;
+}
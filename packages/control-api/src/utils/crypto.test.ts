@@ -1,8 +1,11 @@
 import { describe, expect, it } from "vitest";
 import {
   generateSecureToken,
+  hashPassword,
   hashTokenForLookup,
   hashTokenWithSalt,
+  verifyPassword,
+  verifySharedSecret,
   verifyTokenWithSalt,
 } from "./crypto.js";
 
@@ -28,4 +31,22 @@ describe("crypto utils", () => {
     expect(hashA).toBe(hashB);
     expect(hashA).not.toBe(hashC);
   });
+
+  it("verifies scrypt password hashes", () => {
+    const hashed = hashPassword("correct horse");
+
+    expect(hashed).toMatch(/^scrypt:[0-9a-f]{32}:[0-9a-f]{64}$/);
+    expect(verifyPassword("correct horse", hashed)).toBe(true);
+    expect(verifyPassword("wrong horse", hashed)).toBe(false);
+    expect(verifyPassword("correct horse", hashTokenWithSalt("x"))).toBe(false);
+  });
+
+  it("verifies shared secrets", () => {
+    const secret = generateSecureToken();
+
+    expect(verifySharedSecret(secret, secret)).toBe(true);
+    expect(verifySharedSecret(`${secret}x`, secret)).toBe(false);
+    expect(verifySharedSecret("", secret)).toBe(false);
+    expect(verifySharedSecret(undefined, secret)).toBe(false);
+  });
 });
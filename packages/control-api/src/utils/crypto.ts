@@ -1,4 +1,9 @@
-import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import {
+  createHash,
+  randomBytes,
+  scryptSync,
+  timingSafeEqual,
+} from "node:crypto";
 
 /**
  * Unified cryptographic utilities for token hashing.
@@ -14,10 +19,15 @@ import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
  *    - For tokens that must be looked up directly in the database
  *    - Deterministic: same input = same hash (required for WHERE clause)
  *    - Example: refresh tokens (looked up by hash)
+ *
+ * Human chosen secrets, which are too weak for a single SHA-256 round,
+ * go through scrypt instead (hashPassword/verifyPassword).
  */
 
 const SALT_LENGTH = 16;
 const SALTED_HASH_SEPARATOR = ":";
+const PASSWORD_HASH_PREFIX = "scrypt";
+const PASSWORD_KEY_LENGTH = 32;
 
 /**
  * Generates a cryptographically secure random token.
@@ -86,6 +96,60 @@ export function hashTokenForLookup(token: string): string {
   return createHash("sha256").update(token).digest("hex");
 }
 
+// =============================================================================
+// PASSWORD HASHING - For human chosen secrets
+// =============================================================================
+
+/**
+ * Creates a salted scrypt hash of a password, with node's default cost.
+ * The gateway verifies preview protection passwords against this format.
+ *
+ * @param password The plaintext password to hash
+ * @returns Hash in format "scrypt:salt:hash" for storage
+ */
+export function hashPassword(password: string): string {
+  const salt = randomBytes(SALT_LENGTH).toString("hex");
+  const hash = scryptSync(password, salt, PASSWORD_KEY_LENGTH).toString("hex");
+  return [PASSWORD_HASH_PREFIX, salt, hash].join(SALTED_HASH_SEPARATOR);
+}
+
+/**
+ * Verifies a password against a hash created by hashPassword.
+ */
+export function verifyPassword(password: string, storedHash: string): boolean {
+  const [prefix, salt, expectedHash] = storedHash.split(SALTED_HASH_SEPARATOR);
+  if (prefix !== PASSWORD_HASH_PREFIX || !salt || !expectedHash) {
+    return false;
+  }
+
+  const computedHash = scryptSync(password, salt, PASSWORD_KEY_LENGTH).toString(
+    "hex",
+  );
+
+  return timingSafeCompare(computedHash, expectedHash);
+}
+
+// =============================================================================
+// SHARED SECRETS - For services authenticating with a configured token
+// =============================================================================
+
+/**
+ * Compares a received token with the configured one in constant time,
+ * whatever their lengths.
+ */
+export function verifySharedSecret(
+  received: string | undefined,
+  expected: string,
+): boolean {
+  if (received === undefined) {
+    return false;
+  }
+  return timingSafeCompare(
+    hashTokenForLookup(received),
+    hashTokenForLookup(expected),
+  );
+}
+
 // =============================================================================
 // Internal helpers
 // =============================================================================
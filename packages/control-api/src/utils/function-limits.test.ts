@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { findLimitViolations } from "./function-limits.js";
+
+const limits = {
+  timeoutMs: 60_000,
+  memoryLimitMb: 256,
+  maxBodyBytes: 1024,
+};
+
+describe("function limits", () => {
+  it("accepts routes within the limits", () => {
+    expect(
+      findLimitViolations(
+        {
+          version: 1,
+          resources: [
+            {
+              kind: "dynamic",
+              urlPath: "/api/upload",
+              resourcePath: "api/upload.js",
+              timeoutMs: 60_000,
+              maxBodyBytes: 512,
+            },
+            { kind: "static", urlPath: "/", resourcePath: "app/index.html" },
+          ],
+        },
+        limits,
+      ),
+    ).toEqual([]);
+  });
+
+  it("reports every exceeded limit", () => {
+    expect(
+      findLimitViolations(
+        {
+          version: 1,
+          resources: [
+            {
+              kind: "dynamic",
+              urlPath: "/api/report",
+              resourcePath: "api/report.js",
+              timeoutMs: 120_000,
+              memoryLimitMb: 1024,
+            },
+          ],
+        },
+        limits,
+      ),
+    ).toEqual([
+      "/api/report: timeoutMs 120000 exceeds the plan limit of 60000",
+      "/api/report: memoryLimitMb 1024 exceeds the plan limit of 256",
+    ]);
+  });
+});
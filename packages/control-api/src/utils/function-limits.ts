@@ -0,0 +1,31 @@
+import type { DeploymentManifest } from "../schemas/manifest.js";
+
+export interface FunctionLimits {
+  timeoutMs: number;
+  memoryLimitMb: number;
+  maxBodyBytes: number;
+}
+
+const LIMIT_KEYS = ["timeoutMs", "memoryLimitMb", "maxBodyBytes"] as const;
+
+/**
+ * Lists the per-route settings of a manifest that go beyond the given
+ * limits, as human readable messages. An empty list means the manifest fits.
+ */
+export function findLimitViolations(
+  manifest: DeploymentManifest,
+  limits: FunctionLimits,
+) {
+  const violations: string[] = [];
+  for (const resource of manifest.resources) {
+    for (const key of LIMIT_KEYS) {
+      const value = resource[key];
+      if (value !== undefined && value > limits[key]) {
+        violations.push(
+          `${resource.urlPath}: ${key} ${value} exceeds the plan limit of ${limits[key]}`,
+        );
+      }
+    }
+  }
+  return violations;
+}
@@ -15,6 +15,118 @@ const envSchema = z.object({
     .transform((val) => val.toLowerCase() === "true"),
   tlsCertFile: z.string(),
   tlsKeyFile: z.string(),
+
+  eventsNatsServer: z.string().optional(),
+  eventsNatsNkeyCreds: z.string().optional(),
+
+  // Access logs are batched and published to NATS, dropped past the limit
+  accessLogFlushIntervalMs: z.coerce.number().int().positive().default(5000),
+  accessLogMaxBufferedEvents: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(10_000),
+
+  // Prometheus metrics, on a port not exposed publicly
+  metricsPort: z.coerce.number().int().positive().default(9091),
+
+  configCacheMaxEntries: z.coerce.number().int().positive().default(5000),
+  configCacheTtlMs: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(5 * 60 * 1000),
+  configCacheNegativeTtlMs: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(10 * 1000),
+
+  // Static assets are immutable per deployment: small ones are kept in
+  // memory, larger ones on local disk when a directory is configured
+  assetCacheMemoryBytes: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(64 * 1024 * 1024),
+  assetCacheMemoryMaxObjectBytes: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(1024 * 1024),
+  assetCacheDir: z.string().optional(),
+  assetCacheDiskBytes: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(1024 * 1024 * 1024),
+  assetCacheDiskMaxObjectBytes: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(50 * 1024 * 1024),
+  // Most requested assets of the previous deployment warmed on promotion
+  assetCachePrewarmCount: z.coerce.number().int().nonnegative().default(20),
+
+  // Function responses marked `public, s-maxage`, 0 disables the cache
+  responseCacheBytes: z.coerce
+    .number()
+    .int()
+    .nonnegative()
+    .default(64 * 1024 * 1024),
+  responseCacheMaxObjectBytes: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(1024 * 1024),
+
+  // Secure contexts of custom domains, also bounded by the certificate expiry
+  certCacheMaxEntries: z.coerce.number().int().positive().default(1000),
+  certCacheTtlMs: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(60 * 60 * 1000),
+  certCacheNegativeTtlMs: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(10 * 1000),
+
+  // Default limit for request bodies sent to functions, routes may override it
+  maxRequestBodyBytes: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(10 * 1024 * 1024),
+
+  // Use X-Forwarded-For for client IPs, only behind a trusted proxy
+  trustProxy: z
+    .string()
+    .default("false")
+    .transform((val) => val.toLowerCase() === "true"),
+  rateLimitMaxKeys: z.coerce.number().int().positive().default(100_000),
+
+  // Signs preview protection sessions, shared by all gateway instances
+  protectionCookieSecret: z.string().min(32).optional(),
+  protectionSessionTtlSeconds: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(7 * 24 * 60 * 60),
+  // Password attempts per client and protected host, per minute
+  protectionLoginMaxAttempts: z.coerce.number().int().positive().default(10),
+
+  wsIdleTimeoutMs: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(60 * 1000),
+  wsMaxConnectionsPerDeployment: z.coerce
+    .number()
+    .int()
+    .positive()
+    .default(1000),
 });
 
 const parsed = envSchema.safeParse({
@@ -28,6 +140,34 @@ const parsed = envSchema.safeParse({
   tlsCertFile: process.env.TLS_CERT_FILE,
   tlsKeyFile: process.env.TLS_KEY_FILE,
   hasTlsServer: process.env.HAS_TLS_SERVER,
+  eventsNatsServer: process.env.EVENTS_NATS_SERVER,
+  eventsNatsNkeyCreds: process.env.EVENTS_NATS_NKEY_CREDS,
+  accessLogFlushIntervalMs: process.env.ACCESS_LOG_FLUSH_INTERVAL_MS,
+  accessLogMaxBufferedEvents: process.env.ACCESS_LOG_MAX_BUFFERED_EVENTS,
+  metricsPort: process.env.METRICS_PORT,
+  configCacheMaxEntries: process.env.CONFIG_CACHE_MAX_ENTRIES,
+  configCacheTtlMs: process.env.CONFIG_CACHE_TTL_MS,
+  configCacheNegativeTtlMs: process.env.CONFIG_CACHE_NEGATIVE_TTL_MS,
+  assetCacheMemoryBytes: process.env.ASSET_CACHE_MEMORY_BYTES,
+  assetCacheMemoryMaxObjectBytes:
+    process.env.ASSET_CACHE_MEMORY_MAX_OBJECT_BYTES,
+  assetCacheDir: process.env.ASSET_CACHE_DIR,
+  assetCacheDiskBytes: process.env.ASSET_CACHE_DISK_BYTES,
+  assetCacheDiskMaxObjectBytes: process.env.ASSET_CACHE_DISK_MAX_OBJECT_BYTES,
+  assetCachePrewarmCount: process.env.ASSET_CACHE_PREWARM_COUNT,
+  responseCacheBytes: process.env.RESPONSE_CACHE_BYTES,
+  responseCacheMaxObjectBytes: process.env.RESPONSE_CACHE_MAX_OBJECT_BYTES,
+  certCacheMaxEntries: process.env.CERT_CACHE_MAX_ENTRIES,
+  certCacheTtlMs: process.env.CERT_CACHE_TTL_MS,
+  certCacheNegativeTtlMs: process.env.CERT_CACHE_NEGATIVE_TTL_MS,
+  maxRequestBodyBytes: process.env.MAX_REQUEST_BODY_BYTES,
+  trustProxy: process.env.TRUST_PROXY,
+  rateLimitMaxKeys: process.env.RATE_LIMIT_MAX_KEYS,
+  protectionCookieSecret: process.env.PROTECTION_COOKIE_SECRET,
+  protectionSessionTtlSeconds: process.env.PROTECTION_SESSION_TTL_SECONDS,
+  protectionLoginMaxAttempts: process.env.PROTECTION_LOGIN_MAX_ATTEMPTS,
+  wsIdleTimeoutMs: process.env.WS_IDLE_TIMEOUT_MS,
+  wsMaxConnectionsPerDeployment: process.env.WS_MAX_CONNECTIONS_PER_DEPLOYMENT,
 });
 
 if (!parsed.success) {
@@ -0,0 +1,118 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { describe, expect, it, vi } from "vitest";
+import type { AccessSettings } from "../types/config.js";
+
+function setGatewayEnv() {
+  process.env.ORIGAN_DEPLOY_DOMAIN = "example.com";
+  process.env.RUNNER_URL = "http://runner";
+  process.env.BUCKET_URL = "http://bucket";
+  process.env.BUCKET_ACCESS_KEY = "test";
+  process.env.BUCKET_SECRET_KEY = "test";
+  process.env.TLS_CERT_FILE = "/tmp/cert.pem";
+  process.env.TLS_KEY_FILE = "/tmp/key.pem";
+}
+
+async function loadAccessModule() {
+  setGatewayEnv();
+  vi.resetModules();
+  return await import("./access.js");
+}
+
+function createRequest(
+  remoteAddress: string,
+  headers: Record<string, string> = {},
+) {
+  return {
+    headers,
+    socket: { remoteAddress },
+  } as unknown as IncomingMessage;
+}
+
+function createResponse() {
+  return {
+    writeHead: vi.fn(),
+    end: vi.fn(),
+  } as unknown as ServerResponse & { writeHead: ReturnType<typeof vi.fn> };
+}
+
+describe("gateway access rules", () => {
+  it("only lets allowed addresses through when an allow list exists", async () => {
+    const { isIpAllowed } = await loadAccessModule();
+    const access: AccessSettings = {
+      ipRules: [
+        { action: "allow", cidr: "10.0.0.0/8" },
+        { action: "deny", cidr: "10.0.0.13/32" },
+      ],
+      rateLimits: [],
+    };
+
+    expect(isIpAllowed(access, "10.1.2.3")).toBe(true);
+    expect(isIpAllowed(access, "10.0.0.13")).toBe(false);
+    expect(isIpAllowed(access, "192.0.2.1")).toBe(false);
+  });
+
+  it("rejects denied addresses with a 403", async () => {
+    const { handleIpRules } = await loadAccessModule();
+    const access: AccessSettings = {
+      ipRules: [{ action: "deny", cidr: "2001:db8::/32" }],
+      rateLimits: [],
+    };
+
+    const denied = createResponse();
+    expect(handleIpRules(createRequest("2001:db8::1"), denied, access)).toBe(
+      true,
+    );
+    expect(denied.writeHead).toHaveBeenCalledWith(403, expect.any(Object));
+
+    // IPv4 clients of dual-stack sockets show up as mapped addresses
+    const allowed = createResponse();
+    expect(
+      handleIpRules(createRequest("::ffff:192.0.2.1"), allowed, access),
+    ).toBe(false);
+  });
+
+  it("answers 429 with Retry-After over the limit", async () => {
+    const { handleRateLimits } = await loadAccessModule();
+    const access: AccessSettings = {
+      ipRules: [],
+      rateLimits: [
+        {
+          id: "rule-1",
+          requests: 2,
+          windowSeconds: 60,
+          keyHeader: "x-api-key",
+          scope: "dynamic",
+        },
+      ],
+    };
+
+    const request = () =>
+      createRequest("192.0.2.1", { "x-api-key": "client-a" });
+    expect(
+      handleRateLimits(request(), createResponse(), access, "dynamic"),
+    ).toBe(false);
+    expect(
+      handleRateLimits(request(), createResponse(), access, "dynamic"),
+    ).toBe(false);
+
+    const limited = createResponse();
+    expect(handleRateLimits(request(), limited, access, "dynamic")).toBe(true);
+    expect(limited.writeHead).toHaveBeenCalledWith(429, {
+      "Content-Type": "application/json",
+      "Retry-After": "60",
+    });
+
+    // Other clients and other scopes are counted separately
+    expect(
+      handleRateLimits(
+        createRequest("192.0.2.1", { "x-api-key": "client-b" }),
+        createResponse(),
+        access,
+        "dynamic",
+      ),
+    ).toBe(false);
+    expect(handleRateLimits(request(), createResponse(), access, "all")).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { BlockList } from "node:net";
+import { envConfig } from "../config/index.js";
+import type { AccessSettings } from "../types/config.js";
+import { blockListHas, createBlockList, getClientIp } from "../utils/ip.js";
+import { FixedWindowRateLimiter } from "../utils/rate-limit.js";
+
+type IpLists = {
+  // null when no allow rule exists: every address not denied is allowed
+  allow: BlockList | null;
+  deny: BlockList;
+};
+
+// Settings objects live as long as their cached config
+const ipListsCache = new WeakMap<AccessSettings, IpLists>();
+const rateLimiter = new FixedWindowRateLimiter(envConfig.rateLimitMaxKeys);
+
+/**
+ * Rejects requests from denied addresses, or from addresses missing
+ * from the allow list when there is one, with a 403.
+ * Returns true when a response has been sent.
+ */
+export function handleIpRules(
+  req: IncomingMessage,
+  res: ServerResponse,
+  access: AccessSettings | undefined,
+) {
+  if (!access || access.ipRules.length === 0) {
+    return false;
+  }
+  if (isIpAllowed(access, getClientIp(req, envConfig.trustProxy))) {
+    return false;
+  }
+  res.writeHead(403, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ error: "Forbidden" }));
+  return true;
+}
+
+export function isIpAllowed(access: AccessSettings, ip: string) {
+  const lists = getIpLists(access);
+  if (blockListHas(lists.deny, ip)) {
+    return false;
+  }
+  return lists.allow === null || blockListHas(lists.allow, ip);
+}
+
+/**
+ * Counts the request against the rate limits of the given scope and
+ * answers 429 with Retry-After once a limit is exceeded.
+ * Returns true when a response has been sent.
+ */
+export function handleRateLimits(
+  req: IncomingMessage,
+  res: ServerResponse,
+  access: AccessSettings | undefined,
+  scope: "all" | "dynamic",
+) {
+  const retryAfterSeconds = checkRateLimits(req, access, scope);
+  if (retryAfterSeconds === 0) {
+    return false;
+  }
+  res.writeHead(429, {
+    "Content-Type": "application/json",
+    "Retry-After": String(retryAfterSeconds),
+  });
+  res.end(JSON.stringify({ error: "Too many requests" }));
+  return true;
+}
+
+/**
+ * Counts the request against the rate limits of the given scope.
+ * Returns the seconds to wait before retrying, 0 when within the limits.
+ */
+export function checkRateLimits(
+  req: IncomingMessage,
+  access: AccessSettings | undefined,
+  scope: "all" | "dynamic",
+) {
+  const rules = access?.rateLimits.filter((rule) => rule.scope === scope);
+  if (!rules || rules.length === 0) {
+    return 0;
+  }
+
+  let retryAfterSeconds = 0;
+  for (const rule of rules) {
+    const header = rule.keyHeader ? req.headers[rule.keyHeader] : undefined;
+    const clientKey =
+      (Array.isArray(header) ? header[0] : header) ||
+      getClientIp(req, envConfig.trustProxy);
+    const result = rateLimiter.hit(
+      `${rule.id}:${clientKey}`,
+      rule.requests,
+      rule.windowSeconds * 1000,
+    );
+    if (!result.allowed && result.retryAfterSeconds) {
+      retryAfterSeconds = Math.max(retryAfterSeconds, result.retryAfterSeconds);
+    }
+  }
+  return retryAfterSeconds;
+}
+
+function getIpLists(access: AccessSettings): IpLists {
+  let lists = ipListsCache.get(access);
+  if (!lists) {
+    const allowed = access.ipRules
+      .filter((rule) => rule.action === "allow")
+      .map((rule) => rule.cidr);
+    const denied = access.ipRules
+      .filter((rule) => rule.action === "deny")
+      .map((rule) => rule.cidr);
+    lists = {
+      allow: allowed.length > 0 ? createBlockList(allowed) : null,
+      deny: createBlockList(denied),
+    };
+    ipListsCache.set(access, lists);
+  }
+  return lists;
+}
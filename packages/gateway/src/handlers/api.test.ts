@@ -50,4 +50,150 @@ describe("gateway api route matching", () => {
     expect(staticScore).toBeGreaterThan(paramScore);
     expect(paramScore).toBeGreaterThan(wildcardScore);
   });
+
+  it("extracts params and splat", async () => {
+    const { extractRouteParams } = await loadApiModule();
+    expect(extractRouteParams("/api/users/123", "/api/users/:id")).toEqual({
+      id: "123",
+    });
+    expect(extractRouteParams("/blog/2024/post", "/blog/*")).toEqual({
+      splat: "2024/post",
+    });
+    expect(extractRouteParams("/blog", "/blog/*")).toEqual({ splat: "" });
+    expect(extractRouteParams("/other", "/blog/*")).toBeNull();
+  });
+
+  it("builds the route headers sent to the runner", async () => {
+    const { getRouteHeaders } = await loadApiModule();
+    expect(getRouteHeaders("/api/users/j%C3%B6rg", "/api/users/:id")).toEqual({
+      "x-origan-route-params": '{"id":"j%C3%B6rg"}',
+      "x-origan-route-pattern": "/api/users/:id",
+    });
+    expect(getRouteHeaders("api/files/a/b.txt", "/api/files/*")).toEqual({
+      "x-origan-route-params": '{"splat":"a/b.txt"}',
+      "x-origan-route-pattern": "/api/files/*",
+    });
+  });
+
+  it("resolves the middleware paths in the deployment", async () => {
+    const { getMiddlewareHeaders } = await loadApiModule();
+    expect(
+      getMiddlewareHeaders("deployment-1", [
+        "api/_middleware.js",
+        "api/admin/_middleware.js",
+      ]),
+    ).toEqual({
+      "x-origan-middleware-paths": JSON.stringify([
+        "deployments/deployment-1/api/_middleware.js",
+        "deployments/deployment-1/api/admin/_middleware.js",
+      ]),
+    });
+    expect(getMiddlewareHeaders("deployment-1")).toEqual({
+      "x-origan-middleware-paths": "[]",
+    });
+  });
+
+  it("drops internal headers and protection credentials", async () => {
+    const { handleApiRoute } = await loadApiModule();
+    const fetchMock = vi
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValue(new Response("ok"));
+    const config = {
+      version: 1,
+      resources: [
+        {
+          kind: "dynamic" as const,
+          urlPath: "/api/report",
+          resourcePath: "api/report.js",
+        },
+      ],
+    };
+
+    try {
+      await handleApiRoute(
+        {
+          method: "GET",
+          headers: {
+            accept: "text/plain",
+            "x-origan-memory-limit-mb": "1024",
+            "x-origan-function-path": "deployments/other/api/secret.js",
+            "x-origan-bypass-token": "ci-token",
+            cookie: "theme=dark; __origan_protection=123.signature",
+          },
+          url: "/api/report",
+        } as never,
+        {
+          writeHead: vi.fn(),
+          write: vi.fn(() => true),
+          end: vi.fn(),
+          on: vi.fn(),
+          once: vi.fn(),
+        } as never,
+        "/api/report",
+        config,
+        {
+          deploymentId: "deployment",
+          projectId: "project",
+          host: "example.com",
+        },
+      );
+
+      const headers = fetchMock.mock.calls[0][1]?.headers as Headers;
+      expect(headers.get("accept")).toBe("text/plain");
+      expect(headers.get("x-origan-memory-limit-mb")).toBeNull();
+      expect(headers.get("x-origan-function-path")).toBe(
+        "deployments/deployment/api/report.js",
+      );
+      expect(headers.get("x-origan-bypass-token")).toBeNull();
+      expect(headers.get("cookie")).toBe("theme=dark");
+    } finally {
+      fetchMock.mockRestore();
+    }
+  });
+
+  it("rejects methods without a handler export with 405", async () => {
+    const { handleApiRoute } = await loadApiModule();
+    const config = {
+      version: 1,
+      resources: [
+        {
+          kind: "dynamic" as const,
+          urlPath: "/api/posts",
+          resourcePath: "api/posts.js",
+          methods: ["GET", "POST"],
+        },
+      ],
+    };
+    const res = {
+      writeHead: vi.fn(),
+      end: vi.fn(),
+    };
+
+    const handled = await handleApiRoute(
+      { method: "DELETE", headers: {}, url: "/api/posts" } as never,
+      res as never,
+      "/api/posts",
+      config,
+      { deploymentId: "deployment", projectId: "project", host: "example.com" },
+    );
+
+    expect(handled).toBe(true);
+    expect(res.writeHead).toHaveBeenCalledWith(
+      405,
+      expect.objectContaining({ Allow: "GET, HEAD, POST" }),
+    );
+    expect(
+      await handleApiRoute(
+        { method: "GET", headers: {}, url: "/other" } as never,
+        res as never,
+        "/other",
+        config,
+        {
+          deploymentId: "deployment",
+          projectId: "project",
+          host: "example.com",
+        },
+      ),
+    ).toBe(false);
+  });
 });
@@ -1,74 +1,212 @@
-import type { IncomingMessage, ServerResponse } from "node:http";
+import type {
+  IncomingHttpHeaders,
+  IncomingMessage,
+  ServerResponse,
+} from "node:http";
 import { envConfig } from "../config/index.js";
+import type { AccessLogEntry } from "../services/access-logs.js";
+import {
+  CACHE_STATUS_HEADER,
+  type CachePolicy,
+  getCachePolicy,
+  getResponseCacheKey,
+  isCacheableRequest,
+  lookupResponse,
+  revalidateResponse,
+  sendCachedResponse,
+  storeResponse,
+} from "../services/response-cache.js";
+import { getRoutingIndex } from "../services/routing-index.js";
+import {
+  formatTraceparent,
+  type SpanAttributes,
+  TRACEPARENT_HEADER,
+  withSpan,
+} from "../services/tracing.js";
 import type { Config } from "../types/config.js";
-
-const STREAM_TIMEOUT_MS = 60 * 1000; // 60 seconds max for all streaming connections
+import { exceedsDeclaredLength, limitBody } from "../utils/body.js";
+import { removeCookie } from "../utils/cookies.js";
+import { splitPath } from "../utils/routes.js";
+import { PROTECTION_COOKIE_NAME } from "./protection.js";
+import { serveErrorPage } from "./static.js";
+
+export { scoreRoute } from "../utils/routes.js";
+
+const DEFAULT_TIMEOUT_MS = 60 * 1000; // 60 seconds unless the route declares its own
+
+// Values captured by the matched route and its `urlPath`, read by the
+// runner wrapper to build the context given to functions
+const INTERNAL_HEADER_PREFIX = "x-origan-";
+export const ROUTE_PARAMS_HEADER = "x-origan-route-params";
+export const ROUTE_PATTERN_HEADER = "x-origan-route-pattern";
+// Bucket paths of the middleware chained in front of the function,
+// outermost first
+export const MIDDLEWARE_PATHS_HEADER = "x-origan-middleware-paths";
+
+export type ApiRouteContext = {
+  deploymentId: string;
+  projectId: string;
+  host: string;
+  // Marked as answered by the cache on hits
+  accessLog?: AccessLogEntry;
+};
+
+type RunnerRequest = {
+  path: string;
+  method: string | undefined;
+  headers: Headers;
+  body?: AsyncIterable<Uint8Array>;
+  signal: AbortSignal;
+};
 
 export async function handleApiRoute(
   req: IncomingMessage,
   res: ServerResponse,
   path: string,
   config: Config,
-  deploymentId: string,
-  projectId: string,
+  { deploymentId, projectId, host, accessLog }: ApiRouteContext,
 ) {
   const route = findBestDynamicRoute(config, path, req.method);
 
   if (!route) {
-    return false;
+    // Functions exporting named handlers only accept those methods
+    const allowed = getRoutingIndex(config).findAllowedMethods(
+      normalizePath(path),
+    );
+    if (!allowed) {
+      return false;
+    }
+    sendMethodNotAllowed(res, allowed);
+    return true;
   }
 
   console.log("Route found:", route);
   console.log("Runner API URL:", envConfig.runnerUrl);
 
-  try {
-    // Convert IncomingMessage headers to Record<string, string>
-    const headers = new Headers();
-    for (const [key, value] of Object.entries(req.headers)) {
-      if (value) {
-        headers.set(key, Array.isArray(value) ? value[0] : value);
+  const maxBodyBytes = route.maxBodyBytes ?? envConfig.maxRequestBodyBytes;
+  if (exceedsDeclaredLength(req.headers, maxBodyBytes)) {
+    sendPayloadTooLarge(res, maxBodyBytes);
+    return true;
+  }
+
+  const timeoutMs = route.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const spanAttributes = { functionPath: route.resourcePath, deploymentId };
+  const headers = buildRunnerHeaders(req, {
+    functionPath: `deployments/${deploymentId}/${route.resourcePath}`,
+    deploymentId,
+    projectId,
+    timeoutMs,
+    memoryLimitMb: route.memoryLimitMb,
+    route: {
+      ...getRouteHeaders(path, route.urlPath),
+      ...getMiddlewareHeaders(deploymentId, route.middleware),
+    },
+  });
+
+  // Responses marked `public, s-maxage` are served without calling the
+  // runner until they expire, stale ones while being revalidated
+  const cacheKey = isCacheableRequest(req)
+    ? getResponseCacheKey(deploymentId, host, req.url ?? path)
+    : null;
+  const storeIfCacheable = (
+    policy: CachePolicy | null,
+    status: number,
+    responseHeaders: Record<string, string>,
+    body: Buffer,
+  ) => {
+    if (cacheKey && policy && req.method === "GET") {
+      storeResponse(cacheKey, req.headers, policy, {
+        projectId,
+        deploymentId,
+        path: new URL(req.url ?? path, "http://localhost").pathname,
+        status,
+        headers: responseHeaders,
+        body,
+      });
+    }
+  };
+  if (cacheKey) {
+    const cached = lookupResponse(cacheKey, req.headers);
+    if (cached) {
+      if (cached.state === "stale") {
+        revalidateResponse(cacheKey, async () => {
+          const response = await invokeRunner(
+            {
+              path,
+              method: "GET",
+              headers: new Headers(headers),
+              signal: AbortSignal.timeout(timeoutMs),
+            },
+            spanAttributes,
+          );
+          const body = Buffer.from(await response.arrayBuffer());
+          storeIfCacheable(
+            getCachePolicy(response.status, response.headers),
+            response.status,
+            forwardedHeaders(response.headers),
+            body,
+          );
+        });
       }
+      if (accessLog) {
+        accessLog.source = "cache";
+      }
+      sendCachedResponse(req, res, cached);
+      return true;
     }
+  }
 
-    headers.set(
-      "x-origan-function-path",
-      `deployments/${deploymentId}/${route.resourcePath}`,
-    );
-    headers.set("x-origan-deployment-id", deploymentId);
-    headers.set("x-origan-project-id", projectId);
-
-    // Get request body if needed
-    let body: Buffer<ArrayBuffer> | undefined;
-
-    if (req.method !== "GET" && req.method !== "HEAD") {
-      const chunks: Buffer[] = [];
-      for await (const chunk of req) {
-        chunks.push(chunk);
-      }
-      body = Buffer.concat(chunks);
+  // Aborting stops the upstream request when the client goes away,
+  // the body grows past the limit or the route times out
+  const upstream = new AbortController();
+  let bodyTooLarge = false;
+  let timedOut = false;
+  const timeoutId = setTimeout(() => {
+    console.log(`Route timeout reached (${timeoutMs}ms), aborting request`);
+    timedOut = true;
+    upstream.abort();
+  }, timeoutMs);
+  res.on("close", () => {
+    clearTimeout(timeoutId);
+    if (!res.writableFinished) {
+      console.log("Client disconnected, aborting runner request");
+      upstream.abort();
     }
+  });
 
-    const response = await fetch(`${envConfig.runnerUrl}${path}`, {
-      method: req.method,
-      headers,
-      body,
-    });
+  try {
+    // Stream the request body instead of buffering it in memory
+    const hasBody = req.method !== "GET" && req.method !== "HEAD";
+    const body = hasBody
+      ? limitBody(req, maxBodyBytes, () => {
+          bodyTooLarge = true;
+          upstream.abort();
+        })
+      : undefined;
+
+    const response = await invokeRunner(
+      {
+        path,
+        method: req.method,
+        headers,
+        body,
+        signal: upstream.signal,
+      },
+      spanAttributes,
+    );
+    const cachePolicy = cacheKey
+      ? getCachePolicy(response.status, response.headers)
+      : null;
 
     // Check if response has a streamable body
     if (response.body) {
       console.log("Streaming response detected, starting stream");
 
       // Forward all response headers except those Node.js manages
-      const responseHeaders: Record<string, string> = {};
-      for (const [key, value] of response.headers.entries()) {
-        const lowerKey = key.toLowerCase();
-        // Skip headers that Node.js handles automatically
-        if (
-          lowerKey !== "content-encoding" &&
-          lowerKey !== "transfer-encoding"
-        ) {
-          responseHeaders[key] = value;
-        }
+      const responseHeaders = forwardedHeaders(response.headers);
+      const storedHeaders = { ...responseHeaders };
+      if (cachePolicy) {
+        responseHeaders[CACHE_STATUS_HEADER] = "MISS";
       }
 
       // Add streaming optimization headers
@@ -76,20 +214,10 @@ export async function handleApiRoute(
 
       res.writeHead(response.status, responseHeaders);
 
-      // Set up timeout for streaming
-      const timeoutId = setTimeout(() => {
-        console.log(
-          `Stream timeout reached (${STREAM_TIMEOUT_MS}ms), closing stream`,
-        );
-        res.end();
-      }, STREAM_TIMEOUT_MS);
-
-      // Handle client disconnect
-      req.on("close", () => {
-        console.log("Client disconnected from stream");
-        clearTimeout(timeoutId);
-      });
-
+      // Kept while it fits in the cache, stored once fully streamed
+      const cachedChunks: Buffer[] = [];
+      let cachedBytes = 0;
+      let cacheable = Boolean(cachePolicy);
       try {
         // Stream the response as binary data
         const reader = response.body.getReader();
@@ -98,11 +226,25 @@ export async function handleApiRoute(
           const { done, value } = await reader.read();
           if (done) {
             console.log("Stream completed");
+            if (cacheable) {
+              storeIfCacheable(
+                cachePolicy,
+                response.status,
+                storedHeaders,
+                Buffer.concat(cachedChunks),
+              );
+            }
             break;
           }
 
           // Handle as binary data - works for both text and binary streams
           const buffer = Buffer.from(value);
+          if (cacheable) {
+            cachedBytes += buffer.length;
+            cacheable = cachedBytes <= envConfig.responseCacheMaxObjectBytes;
+            cachedChunks.push(buffer);
+            if (!cacheable) cachedChunks.length = 0;
+          }
 
           // Write chunk to response with backpressure handling
           if (!res.write(buffer)) {
@@ -113,7 +255,6 @@ export async function handleApiRoute(
       } catch (streamError) {
         console.error("Error during streaming:", streamError);
       } finally {
-        clearTimeout(timeoutId);
         res.end();
       }
     } else {
@@ -126,41 +267,209 @@ export async function handleApiRoute(
       res.removeHeader("Content-Encoding");
       res.removeHeader("Content-Length");
 
+      const responseBody = Buffer.from(await response.arrayBuffer());
+      if (cachePolicy) {
+        res.setHeader(CACHE_STATUS_HEADER, "MISS");
+        storeIfCacheable(
+          cachePolicy,
+          response.status,
+          forwardedHeaders(response.headers),
+          responseBody,
+        );
+      }
+
       res.writeHead(response.status);
-      res.end(Buffer.from(await response.arrayBuffer()));
+      res.end(responseBody);
     }
 
     return true;
   } catch (error) {
+    if (bodyTooLarge) {
+      if (!res.headersSent) {
+        sendPayloadTooLarge(res, maxBodyBytes);
+      }
+      return true;
+    }
+    if (timedOut) {
+      if (res.headersSent) {
+        res.end();
+      } else {
+        res.writeHead(504, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "Gateway timeout", timeoutMs }));
+      }
+      return true;
+    }
+    if (upstream.signal.aborted) {
+      // The client is gone, there is nobody left to answer
+      return true;
+    }
+
     console.error("Error calling runner API:", error);
+    if (res.headersSent) {
+      res.end();
+      return true;
+    }
+    if (await serveErrorPage(req, res, 500, config, deploymentId)) {
+      return true;
+    }
     res.writeHead(500, { "Content-Type": "application/json" });
     res.end(JSON.stringify({ error: "Internal server error" }));
     return true;
+  } finally {
+    clearTimeout(timeoutId);
   }
 }
 
-function findBestDynamicRoute(config: Config, path: string, method?: string) {
-  const normalizedPath = normalizePath(path);
-  const normalizedMethod = method?.toUpperCase();
-  let best: {
-    route: Config["resources"][number];
-    score: number;
-  } | null = null;
-
-  for (const resource of config.resources) {
-    if (resource.kind !== "dynamic") continue;
-    if (normalizedMethod && resource.methods) {
-      const allowed = resource.methods.map((m) => m.toUpperCase());
-      if (!allowed.includes(normalizedMethod)) continue;
+function buildRunnerHeaders(
+  req: IncomingMessage,
+  options: {
+    functionPath: string;
+    deploymentId: string;
+    projectId: string;
+    timeoutMs: number;
+    memoryLimitMb?: number;
+    route: Record<string, string>;
+  },
+) {
+  // Convert IncomingMessage headers to Record<string, string>
+  const headers = new Headers();
+  for (const [key, value] of Object.entries(
+    withoutInternalHeaders(req.headers),
+  )) {
+    if (value) {
+      headers.set(key, Array.isArray(value) ? value[0] : value);
     }
-    if (!matchRoute(normalizedPath, resource.urlPath)) continue;
-    const score = scoreRoute(resource.urlPath);
-    if (!best || score > best.score) {
-      best = { route: resource, score };
+  }
+
+  headers.set("x-origan-function-path", options.functionPath);
+  headers.set("x-origan-deployment-id", options.deploymentId);
+  headers.set("x-origan-project-id", options.projectId);
+  // The runner sizes the worker from the route limits
+  headers.set("x-origan-timeout-ms", String(options.timeoutMs));
+  if (options.memoryLimitMb) {
+    headers.set("x-origan-memory-limit-mb", String(options.memoryLimitMb));
+  }
+  for (const [name, value] of Object.entries(options.route)) {
+    headers.set(name, value);
+  }
+  return headers;
+}
+
+/**
+ * Client headers without the `x-origan-*` ones, which only the gateway
+ * sets: the runner trusts them for the function path and limits. The
+ * protection session goes too, like the bypass token header, so that the
+ * track credentials never reach user code.
+ */
+export function withoutInternalHeaders(
+  headers: IncomingHttpHeaders,
+): IncomingHttpHeaders {
+  const filtered: IncomingHttpHeaders = Object.fromEntries(
+    Object.entries(headers).filter(
+      ([name]) => !name.toLowerCase().startsWith(INTERNAL_HEADER_PREFIX),
+    ),
+  );
+  const cookie = removeCookie(filtered.cookie, PROTECTION_COOKIE_NAME);
+  if (cookie === undefined) {
+    delete filtered.cookie;
+  } else {
+    filtered.cookie = cookie;
+  }
+  return filtered;
+}
+
+/**
+ * Route headers sent to the runner. Always set, so that clients cannot
+ * pass their own values. Params are forwarded as found in the path,
+ * percent-encoded, the wrapper decodes them.
+ */
+export function getRouteHeaders(path: string, pattern: string) {
+  return {
+    [ROUTE_PARAMS_HEADER]: JSON.stringify(
+      extractRouteParams(normalizePath(path), pattern) ?? {},
+    ),
+    [ROUTE_PATTERN_HEADER]: pattern,
+  };
+}
+
+/**
+ * Middleware of the route, resolved in the deployment like its function.
+ * Always set, an empty list runs the function alone.
+ */
+export function getMiddlewareHeaders(
+  deploymentId: string,
+  middleware: string[] = [],
+) {
+  return {
+    [MIDDLEWARE_PATHS_HEADER]: JSON.stringify(
+      middleware.map(
+        (resourcePath) => `deployments/${deploymentId}/${resourcePath}`,
+      ),
+    ),
+  };
+}
+
+// The runner continues the trace from the invocation span
+function invokeRunner(
+  { path, method, headers, body, signal }: RunnerRequest,
+  attributes: SpanAttributes,
+) {
+  return withSpan("runner.invoke", attributes, async (span) => {
+    headers.set(TRACEPARENT_HEADER, formatTraceparent(span.context));
+    const runnerResponse = await fetch(`${envConfig.runnerUrl}${path}`, {
+      method,
+      headers,
+      // Node's fetch accepts async iterables, its DOM typings do not
+      body: body as unknown as BodyInit | undefined,
+      signal,
+      // Required by fetch to send a streamed body
+      ...(body && { duplex: "half" as const }),
+    });
+    span.setAttributes({ status: runnerResponse.status });
+    return runnerResponse;
+  });
+}
+
+// Response headers without those Node.js manages
+function forwardedHeaders(headers: Headers) {
+  const forwarded: Record<string, string> = {};
+  for (const [key, value] of headers.entries()) {
+    const lowerKey = key.toLowerCase();
+    if (lowerKey !== "content-encoding" && lowerKey !== "transfer-encoding") {
+      forwarded[key] = value;
     }
   }
+  return forwarded;
+}
 
-  return best?.route ?? null;
+export function sendPayloadTooLarge(res: ServerResponse, maxBodyBytes: number) {
+  // Close the connection rather than draining a body we refuse to read
+  res.writeHead(413, {
+    "Content-Type": "application/json",
+    Connection: "close",
+  });
+  res.end(
+    JSON.stringify({
+      error: "Payload too large",
+      maxBodyBytes,
+    }),
+  );
+}
+
+function sendMethodNotAllowed(res: ServerResponse, allowed: string[]) {
+  res.writeHead(405, {
+    "Content-Type": "application/json",
+    Allow: allowed.join(", "),
+  });
+  res.end(JSON.stringify({ error: "Method not allowed", allowed }));
+}
+
+export function findBestDynamicRoute(
+  config: Config,
+  path: string,
+  method?: string,
+) {
+  return getRoutingIndex(config).findDynamic(normalizePath(path), method);
 }
 
 export function normalizePath(path: string) {
@@ -171,57 +480,48 @@ export function normalizePath(path: string) {
 }
 
 export function matchRoute(path: string, pattern: string) {
+  return extractRouteParams(path, pattern) !== null;
+}
+
+/**
+ * Returns the values captured by `:param` segments, plus `splat` for the
+ * remainder matched by a trailing `*`, or null when the path does not match.
+ */
+export function extractRouteParams(
+  path: string,
+  pattern: string,
+): Record<string, string> | null {
   const pathSegments = splitPath(path);
   const patternSegments = splitPath(pattern);
+  const params: Record<string, string> = {};
 
   let i = 0;
   let j = 0;
   while (i < pathSegments.length && j < patternSegments.length) {
     const segment = patternSegments[j];
     if (segment === "*") {
-      return true;
+      params.splat = pathSegments.slice(i).join("/");
+      return params;
     }
     if (segment.startsWith(":")) {
+      params[segment.slice(1)] = pathSegments[i];
       i += 1;
       j += 1;
       continue;
     }
     if (segment !== pathSegments[i]) {
-      return false;
+      return null;
     }
     i += 1;
     j += 1;
   }
 
   if (j < patternSegments.length && patternSegments[j] === "*") {
-    return true;
-  }
-
-  return i === pathSegments.length && j === patternSegments.length;
-}
-
-function splitPath(path: string) {
-  const trimmed = path.replace(/^\/+/, "").replace(/\/+$/, "");
-  if (!trimmed) return [];
-  return trimmed.split("/");
-}
-
-export function scoreRoute(pattern: string) {
-  const segments = splitPath(pattern);
-  let hasWildcard = false;
-  let paramCount = 0;
-  let staticCount = 0;
-
-  for (const segment of segments) {
-    if (segment === "*") {
-      hasWildcard = true;
-    } else if (segment.startsWith(":")) {
-      paramCount += 1;
-    } else {
-      staticCount += 1;
-    }
+    params.splat = "";
+    return params;
   }
 
-  const rank = hasWildcard ? 0 : paramCount > 0 ? 1 : 2;
-  return rank * 1000 + staticCount * 10 + segments.length;
+  return i === pathSegments.length && j === patternSegments.length
+    ? params
+    : null;
 }
@@ -0,0 +1,97 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { describe, expect, it, vi } from "vitest";
+import type { DomainSettings } from "../types/config.js";
+import { handleDomainPolicy } from "./domain.js";
+
+function createRequest(host: string, url: string, encrypted: boolean) {
+  return {
+    headers: { host },
+    url,
+    socket: { encrypted },
+  } as unknown as IncomingMessage;
+}
+
+function createResponse() {
+  return {
+    writeHead: vi.fn(),
+    setHeader: vi.fn(),
+    end: vi.fn(),
+  } as unknown as ServerResponse & {
+    writeHead: ReturnType<typeof vi.fn>;
+    setHeader: ReturnType<typeof vi.fn>;
+  };
+}
+
+const defaults: DomainSettings = {
+  forceHttps: false,
+  hstsMaxAge: null,
+  redirectTo: null,
+};
+
+describe("gateway domain policy", () => {
+  it("redirects plain HTTP to HTTPS when forced", () => {
+    const res = createResponse();
+    const handled = handleDomainPolicy(
+      createRequest("example.dev:7777", "/docs?page=2", false),
+      res,
+      { ...defaults, forceHttps: true },
+    );
+
+    expect(handled).toBe(true);
+    expect(res.writeHead).toHaveBeenCalledWith(308, {
+      Location: "https://example.dev/docs?page=2",
+    });
+  });
+
+  it("redirects to the primary domain", () => {
+    const res = createResponse();
+    const handled = handleDomainPolicy(
+      createRequest("example.dev", "/pricing", true),
+      res,
+      { ...defaults, redirectTo: "www.example.dev" },
+    );
+
+    expect(handled).toBe(true);
+    expect(res.writeHead).toHaveBeenCalledWith(308, {
+      Location: "https://www.example.dev/pricing",
+    });
+  });
+
+  it("sends HSTS on HTTPS responses only", () => {
+    const settings = { ...defaults, hstsMaxAge: 31536000 };
+
+    const secureRes = createResponse();
+    expect(
+      handleDomainPolicy(
+        createRequest("example.dev", "/", true),
+        secureRes,
+        settings,
+      ),
+    ).toBe(false);
+    expect(secureRes.setHeader).toHaveBeenCalledWith(
+      "Strict-Transport-Security",
+      "max-age=31536000",
+    );
+
+    const plainRes = createResponse();
+    handleDomainPolicy(
+      createRequest("example.dev", "/", false),
+      plainRes,
+      settings,
+    );
+    expect(plainRes.setHeader).not.toHaveBeenCalled();
+  });
+
+  it("serves requests untouched without settings", () => {
+    const res = createResponse();
+
+    expect(
+      handleDomainPolicy(
+        createRequest("example.dev", "/", false),
+        res,
+        undefined,
+      ),
+    ).toBe(false);
+    expect(res.writeHead).not.toHaveBeenCalled();
+  });
+});
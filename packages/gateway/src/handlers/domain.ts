@@ -0,0 +1,65 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { TLSSocket } from "node:tls";
+import type { DomainSettings } from "../types/config.js";
+
+// 308 keeps the method and body of non-GET requests
+export const DOMAIN_REDIRECT_STATUS = 308;
+
+/**
+ * Enforces the per-domain settings: redirection to the primary domain,
+ * HTTPS upgrade and HSTS. Returns true when a redirect has been sent.
+ * ACME challenges are answered before this runs, so they stay on HTTP.
+ */
+export function handleDomainPolicy(
+  req: IncomingMessage,
+  res: ServerResponse,
+  settings: DomainSettings | undefined,
+) {
+  if (!settings) {
+    return false;
+  }
+
+  const location = getDomainRedirect(req, settings);
+  if (location) {
+    res.writeHead(DOMAIN_REDIRECT_STATUS, { Location: location });
+    res.end();
+    return true;
+  }
+
+  const secure = isSecureRequest(req);
+  // Browsers ignore HSTS received over plain HTTP (RFC 6797 8.1)
+  if (secure && settings.hstsMaxAge !== null) {
+    res.setHeader(
+      "Strict-Transport-Security",
+      `max-age=${settings.hstsMaxAge}`,
+    );
+  }
+  return false;
+}
+
+/**
+ * Location of the primary domain or HTTPS redirect the settings require
+ * for the request, null when it can be served as is.
+ */
+export function getDomainRedirect(
+  req: IncomingMessage,
+  settings: DomainSettings,
+) {
+  const secure = isSecureRequest(req);
+  const host = req.headers.host ?? "";
+  const hostname = host.replace(/:\d+$/, "");
+
+  if (settings.redirectTo && settings.redirectTo !== hostname) {
+    const protocol = secure || settings.forceHttps ? "https" : "http";
+    return `${protocol}://${settings.redirectTo}${req.url ?? "/"}`;
+  }
+  if (settings.forceHttps && !secure) {
+    // The HTTPS server listens on the standard port in production
+    return `https://${hostname}${req.url ?? "/"}`;
+  }
+  return null;
+}
+
+export function isSecureRequest(req: IncomingMessage) {
+  return (req.socket as TLSSocket).encrypted === true;
+}
@@ -0,0 +1,99 @@
+import { createServer, type RequestListener, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Config } from "../types/config.js";
+
+function setGatewayEnv() {
+  process.env.ORIGAN_DEPLOY_DOMAIN = "example.com";
+  process.env.RUNNER_URL = "http://runner";
+  process.env.BUCKET_URL = "http://bucket";
+  process.env.BUCKET_ACCESS_KEY = "test";
+  process.env.BUCKET_SECRET_KEY = "test";
+  process.env.TLS_CERT_FILE = "/tmp/cert.pem";
+  process.env.TLS_KEY_FILE = "/tmp/key.pem";
+}
+
+async function loadHeadersModule() {
+  setGatewayEnv();
+  vi.resetModules();
+  return await import("./headers.js");
+}
+
+const config: Config = {
+  version: 1,
+  resources: [],
+  headers: [
+    {
+      source: "/*",
+      add: {
+        "X-Frame-Options": "DENY",
+        "Content-Security-Policy": "default-src 'self'",
+      },
+      remove: ["X-Powered-By"],
+    },
+    {
+      source: "/api/*",
+      set: { "Access-Control-Allow-Origin": "*" },
+    },
+  ],
+};
+
+describe("gateway header rules", () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    if (server) {
+      await new Promise((resolve) => server?.close(resolve));
+      server = undefined;
+    }
+  });
+
+  async function request(handler: RequestListener, path: string) {
+    server = createServer(handler);
+    await new Promise<void>((resolve) => server?.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    return await fetch(`http://127.0.0.1:${port}${path}`);
+  }
+
+  it("selects every matching rule in order", async () => {
+    const { findMatchingHeaderRules } = await loadHeadersModule();
+
+    expect(findMatchingHeaderRules(config, "/api/users")).toHaveLength(2);
+    expect(findMatchingHeaderRules(config, "/index.html")).toHaveLength(1);
+  });
+
+  it("adds, overrides and removes headers set by the handler", async () => {
+    const { applyHeaderRules } = await loadHeadersModule();
+
+    const response = await request((req, res) => {
+      applyHeaderRules(res, config, req.url ?? "/");
+      res.setHeader("X-Powered-By", "functions");
+      res.writeHead(200, {
+        "Content-Security-Policy": "default-src 'none'",
+        "Access-Control-Allow-Origin": "https://app.example.com",
+      });
+      res.end("ok");
+    }, "/api/users");
+
+    expect(response.headers.get("x-frame-options")).toBe("DENY");
+    // add keeps the value set by the function
+    expect(response.headers.get("content-security-policy")).toBe(
+      "default-src 'none'",
+    );
+    expect(response.headers.get("access-control-allow-origin")).toBe("*");
+    expect(response.headers.has("x-powered-by")).toBe(false);
+  });
+
+  it("applies to responses ended without writeHead", async () => {
+    const { applyHeaderRules } = await loadHeadersModule();
+
+    const response = await request((req, res) => {
+      applyHeaderRules(res, config, req.url ?? "/");
+      res.statusCode = 404;
+      res.end("not found");
+    }, "/missing");
+
+    expect(response.status).toBe(404);
+    expect(response.headers.get("x-frame-options")).toBe("DENY");
+  });
+});
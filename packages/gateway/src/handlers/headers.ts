@@ -0,0 +1,89 @@
+import type {
+  OutgoingHttpHeader,
+  OutgoingHttpHeaders,
+  ServerResponse,
+} from "node:http";
+import type { Config, HeaderRuleConfig } from "../types/config.js";
+import { matchRoute, normalizePath } from "./api.js";
+
+/**
+ * Applies the deployment header rules matching `path` to whatever response
+ * is sent next: static files, function responses, redirects and error
+ * pages. Rules run right before the headers are written so that they see
+ * the headers set by the handlers.
+ */
+export function applyHeaderRules(
+  res: ServerResponse,
+  config: Config,
+  path: string,
+) {
+  const rules = findMatchingHeaderRules(config, path);
+  if (rules.length === 0) {
+    return;
+  }
+
+  // Node also goes through writeHead for implicit headers (write/end)
+  const writeHead = res.writeHead.bind(res) as (
+    statusCode: number,
+    statusMessage?: string,
+  ) => ServerResponse;
+  res.writeHead = ((statusCode: number, ...args: unknown[]) => {
+    const statusMessage = typeof args[0] === "string" ? args[0] : undefined;
+    const headers = statusMessage === undefined ? args[0] : args[1];
+    if (headers) {
+      mergeHeaders(res, headers as OutgoingHttpHeaders | OutgoingHttpHeader[]);
+    }
+    applyHeaderOperations(res, rules);
+    return writeHead(statusCode, statusMessage);
+  }) as ServerResponse["writeHead"];
+}
+
+/**
+ * Every rule matching the path applies, in manifest order.
+ */
+export function findMatchingHeaderRules(
+  config: Config,
+  path: string,
+): HeaderRuleConfig[] {
+  const normalizedPath = normalizePath(path);
+  return (config.headers ?? []).filter((rule) =>
+    matchRoute(normalizedPath, rule.source),
+  );
+}
+
+export function applyHeaderOperations(
+  res: ServerResponse,
+  rules: HeaderRuleConfig[],
+) {
+  for (const rule of rules) {
+    for (const name of rule.remove ?? []) {
+      res.removeHeader(name);
+    }
+    for (const [name, value] of Object.entries(rule.set ?? {})) {
+      res.setHeader(name, value);
+    }
+    for (const [name, value] of Object.entries(rule.add ?? {})) {
+      if (!res.hasHeader(name)) {
+        res.setHeader(name, value);
+      }
+    }
+  }
+}
+
+export function mergeHeaders(
+  res: ServerResponse,
+  headers: OutgoingHttpHeaders | OutgoingHttpHeader[],
+) {
+  if (Array.isArray(headers)) {
+    // Raw headers: [name, value, name, value, ...]
+    for (let i = 0; i + 1 < headers.length; i += 2) {
+      res.setHeader(String(headers[i]), headers[i + 1]);
+    }
+    return;
+  }
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined) {
+      res.setHeader(name, value);
+    }
+  }
+}
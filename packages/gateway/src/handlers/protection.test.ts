@@ -0,0 +1,164 @@
+import { createHash, scryptSync } from "node:crypto";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { ProtectionSettings } from "../types/config.js";
+
+function setGatewayEnv() {
+  process.env.ORIGAN_DEPLOY_DOMAIN = "example.com";
+  process.env.RUNNER_URL = "http://runner";
+  process.env.BUCKET_URL = "http://bucket";
+  process.env.BUCKET_ACCESS_KEY = "test";
+  process.env.BUCKET_SECRET_KEY = "test";
+  process.env.TLS_CERT_FILE = "/tmp/cert.pem";
+  process.env.TLS_KEY_FILE = "/tmp/key.pem";
+  process.env.PROTECTION_COOKIE_SECRET = "x".repeat(32);
+}
+
+async function loadProtectionModule() {
+  setGatewayEnv();
+  vi.resetModules();
+  return await import("./protection.js");
+}
+
+// Hashes in the formats produced by control-api
+const protection: ProtectionSettings = {
+  passwordHash: `scrypt:salt:${scryptSync("hunter22", "salt", 32).toString("hex")}`,
+  bypassTokenHash: `salt:${createHash("sha256").update("salt").update("ci-token").digest("hex")}`,
+};
+
+describe("gateway preview protection", () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    delete process.env.PROTECTION_LOGIN_MAX_ATTEMPTS;
+    if (server) {
+      await new Promise((resolve) => server?.close(resolve));
+      server = undefined;
+    }
+  });
+
+  // Set up like the gateway, with a header rule and a handler that would
+  // both let shared caches keep the content
+  async function startServer() {
+    const { handleProtection, keepProtectedPrivate } =
+      await loadProtectionModule();
+    const { applyHeaderRules } = await import("./headers.js");
+    server = createServer(async (req, res) => {
+      keepProtectedPrivate(res);
+      applyHeaderRules(
+        res,
+        {
+          version: 1,
+          resources: [],
+          headers: [{ source: "/*", set: { "Cache-Control": "public" } }],
+        },
+        req.url ?? "/",
+      );
+      if (await handleProtection(req, res, "preview.test", protection)) {
+        return;
+      }
+      res.writeHead(200, { "Cache-Control": "public, max-age=3600" });
+      res.end("protected content");
+    });
+    await new Promise<void>((resolve) => server?.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  it("renders the login page for browsers and 401 for other clients", async () => {
+    const baseUrl = await startServer();
+
+    const page = await fetch(`${baseUrl}/docs?a=1`, {
+      headers: { accept: "text/html" },
+    });
+    expect(page.status).toBe(401);
+    expect(page.headers.get("cache-control")).toBe("private, no-store");
+    expect(await page.text()).toContain('value="/docs?a=1"');
+
+    const api = await fetch(`${baseUrl}/api/data`);
+    expect(api.status).toBe(401);
+    expect(await api.json()).toEqual({ error: "Unauthorized" });
+  });
+
+  it("signs a session cookie once the password is submitted", async () => {
+    const baseUrl = await startServer();
+    const login = (password: string) =>
+      fetch(`${baseUrl}/__origan/login`, {
+        method: "POST",
+        body: new URLSearchParams({ password, redirect: "/docs" }),
+        redirect: "manual",
+      });
+
+    const rejected = await login("wrong password");
+    expect(rejected.status).toBe(401);
+    expect(await rejected.text()).toContain("Incorrect password");
+
+    const accepted = await login("hunter22");
+    expect(accepted.status).toBe(303);
+    expect(accepted.headers.get("location")).toBe("/docs");
+    const cookie = accepted.headers.get("set-cookie")?.split(";")[0];
+    expect(cookie).toMatch(/^__origan_protection=\d+\./);
+
+    const content = await fetch(`${baseUrl}/docs`, {
+      headers: { cookie: cookie ?? "" },
+    });
+    expect(await content.text()).toBe("protected content");
+
+    const forged = await fetch(`${baseUrl}/docs`, {
+      headers: { cookie: "__origan_protection=9999999999.forged" },
+    });
+    expect(forged.status).toBe(401);
+  });
+
+  it("lets requests with the bypass token through", async () => {
+    const baseUrl = await startServer();
+
+    const allowed = await fetch(`${baseUrl}/`, {
+      headers: { "x-origan-bypass-token": "ci-token" },
+    });
+    expect(await allowed.text()).toBe("protected content");
+    // Authenticated content is not kept by shared caches either
+    expect(allowed.headers.get("cache-control")).toBe("private, no-store");
+    expect(allowed.headers.get("x-robots-tag")).toBe("noindex");
+
+    const denied = await fetch(`${baseUrl}/`, {
+      headers: { "x-origan-bypass-token": "other-token" },
+    });
+    expect(denied.status).toBe(401);
+  });
+
+  it("never redirects outside of the protected domain", async () => {
+    const baseUrl = await startServer();
+
+    for (const redirect of [
+      "//evil.test/",
+      "/\\evil.test/",
+      "/\t/evil.test/",
+    ]) {
+      const response = await fetch(`${baseUrl}/__origan/login`, {
+        method: "POST",
+        body: new URLSearchParams({ password: "hunter22", redirect }),
+        redirect: "manual",
+      });
+      expect(response.headers.get("location")).toBe("/");
+    }
+  });
+
+  it("limits password attempts", async () => {
+    process.env.PROTECTION_LOGIN_MAX_ATTEMPTS = "2";
+    const baseUrl = await startServer();
+    const login = () =>
+      fetch(`${baseUrl}/__origan/login`, {
+        method: "POST",
+        body: new URLSearchParams({ password: "guess" }),
+        redirect: "manual",
+      });
+
+    expect((await login()).status).toBe(401);
+    expect((await login()).status).toBe(401);
+    const limited = await login();
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("retry-after")).toBeDefined();
+  });
+});
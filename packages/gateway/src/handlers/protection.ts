@@ -0,0 +1,314 @@
+import {
+  createHash,
+  createHmac,
+  randomBytes,
+  scrypt,
+  timingSafeEqual,
+} from "node:crypto";
+import type {
+  IncomingMessage,
+  OutgoingHttpHeader,
+  OutgoingHttpHeaders,
+  ServerResponse,
+} from "node:http";
+import { promisify } from "node:util";
+import { envConfig } from "../config/index.js";
+import type { ProtectionSettings } from "../types/config.js";
+import { exceedsDeclaredLength, limitBody } from "../utils/body.js";
+import { getCookie } from "../utils/cookies.js";
+import { getClientIp } from "../utils/ip.js";
+import { FixedWindowRateLimiter } from "../utils/rate-limit.js";
+import { isSecureRequest } from "./domain.js";
+import { mergeHeaders } from "./headers.js";
+
+export const PROTECTION_LOGIN_PATH = "/__origan/login";
+export const PROTECTION_COOKIE_NAME = "__origan_protection";
+export const BYPASS_TOKEN_HEADER = "x-origan-bypass-token";
+
+const MAX_LOGIN_BODY_BYTES = 4 * 1024;
+const LOGIN_WINDOW_MS = 60 * 1000;
+// Must match the key length used by control-api's hashPassword
+const PASSWORD_KEY_LENGTH = 32;
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: string,
+  keyLength: number,
+) => Promise<Buffer>;
+
+const cookieSecret = envConfig.protectionCookieSecret ?? randomBytes(32);
+const loginRateLimiter = new FixedWindowRateLimiter(envConfig.rateLimitMaxKeys);
+
+if (!envConfig.protectionCookieSecret) {
+  console.warn(
+    "PROTECTION_COOKIE_SECRET is not set: preview sessions are lost on restart and not shared between gateway instances",
+  );
+}
+
+/**
+ * Whether the request carries a valid bypass token or session cookie
+ * for the protected host.
+ */
+export function isProtectionSatisfied(
+  req: IncomingMessage,
+  host: string,
+  protection: ProtectionSettings,
+) {
+  const token = req.headers[BYPASS_TOKEN_HEADER];
+  if (
+    protection.bypassTokenHash &&
+    typeof token === "string" &&
+    verifyBypassToken(token, protection.bypassTokenHash)
+  ) {
+    return true;
+  }
+
+  const session = getCookie(req, PROTECTION_COOKIE_NAME);
+  return (
+    protection.passwordHash !== null &&
+    session !== undefined &&
+    verifySession(session, host, protection.passwordHash)
+  );
+}
+
+/**
+ * Marks every response of a protected track as private, whichever handler
+ * sends it: authenticated content must not be kept by shared caches or
+ * indexed either. Installed before the header rules, so that they cannot
+ * override it.
+ */
+export function keepProtectedPrivate(res: ServerResponse) {
+  // Node also goes through writeHead for implicit headers (write/end)
+  const writeHead = res.writeHead.bind(res) as (
+    statusCode: number,
+    statusMessage?: string,
+  ) => ServerResponse;
+  res.writeHead = ((statusCode: number, ...args: unknown[]) => {
+    const statusMessage = typeof args[0] === "string" ? args[0] : undefined;
+    const headers = statusMessage === undefined ? args[0] : args[1];
+    if (headers) {
+      mergeHeaders(res, headers as OutgoingHttpHeaders | OutgoingHttpHeader[]);
+    }
+    res.setHeader("Cache-Control", "private, no-store");
+    res.setHeader("X-Robots-Tag", "noindex");
+    return writeHead(statusCode, statusMessage);
+  }) as ServerResponse["writeHead"];
+}
+
+/**
+ * Guards protected tracks: lets authenticated requests through, handles
+ * the login form submissions and answers everything else with a 401,
+ * rendered as a login page for browsers when a password is configured.
+ * Returns true when a response has been sent.
+ */
+export async function handleProtection(
+  req: IncomingMessage,
+  res: ServerResponse,
+  host: string,
+  protection: ProtectionSettings | null | undefined,
+) {
+  if (!protection || isProtectionSatisfied(req, host, protection)) {
+    return false;
+  }
+
+  const url = new URL(req.url || "/", "http://localhost");
+  if (protection.passwordHash === null) {
+    sendUnauthorized(res);
+    return true;
+  }
+
+  if (url.pathname === PROTECTION_LOGIN_PATH && req.method === "POST") {
+    await handleLogin(req, res, host, protection.passwordHash);
+    return true;
+  }
+
+  const acceptsHtml = req.headers.accept?.includes("text/html") ?? false;
+  if ((req.method === "GET" || req.method === "HEAD") && acceptsHtml) {
+    sendLoginPage(res, req.url || "/");
+  } else {
+    sendUnauthorized(res);
+  }
+  return true;
+}
+
+async function handleLogin(
+  req: IncomingMessage,
+  res: ServerResponse,
+  host: string,
+  passwordHash: string,
+) {
+  // Passwords can be short, guessing them must stay slow
+  const attempt = loginRateLimiter.hit(
+    `${host}:${getClientIp(req, envConfig.trustProxy)}`,
+    envConfig.protectionLoginMaxAttempts,
+    LOGIN_WINDOW_MS,
+  );
+  if (!attempt.allowed) {
+    res.writeHead(429, {
+      "Content-Type": "application/json",
+      "Retry-After": String(attempt.retryAfterSeconds),
+    });
+    res.end(JSON.stringify({ error: "Too many login attempts" }));
+    return;
+  }
+
+  let form: URLSearchParams;
+  try {
+    if (exceedsDeclaredLength(req.headers, MAX_LOGIN_BODY_BYTES)) {
+      throw new Error("Login form too large");
+    }
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of limitBody(req, MAX_LOGIN_BODY_BYTES, () => {})) {
+      chunks.push(chunk);
+    }
+    form = new URLSearchParams(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    res.writeHead(413, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Payload too large" }));
+    return;
+  }
+
+  const redirectTo = toSafeRedirect(form.get("redirect"));
+  const password = form.get("password") ?? "";
+  if (!(await verifyPassword(password, passwordHash))) {
+    sendLoginPage(res, redirectTo, "Incorrect password");
+    return;
+  }
+
+  const maxAge = envConfig.protectionSessionTtlSeconds;
+  const expiresAt = Math.floor(Date.now() / 1000) + maxAge;
+  const cookie = [
+    `${PROTECTION_COOKIE_NAME}=${signSession(host, expiresAt, passwordHash)}`,
+    "Path=/",
+    `Max-Age=${maxAge}`,
+    "HttpOnly",
+    "SameSite=Lax",
+  ];
+  if (isSecureRequest(req)) {
+    cookie.push("Secure");
+  }
+
+  res.writeHead(303, {
+    Location: redirectTo,
+    "Set-Cookie": cookie.join("; "),
+  });
+  res.end();
+}
+
+// Sessions are bound to the host and the password: changing the password
+// signs everybody out.
+function signSession(host: string, expiresAt: number, passwordHash: string) {
+  const signature = createHmac("sha256", cookieSecret)
+    .update(`${host}\n${expiresAt}\n${passwordHash}`)
+    .digest("base64url");
+  return `${expiresAt}.${signature}`;
+}
+
+function verifySession(value: string, host: string, passwordHash: string) {
+  const expiresAt = Number(value.split(".")[0]);
+  if (!Number.isInteger(expiresAt) || expiresAt * 1000 <= Date.now()) {
+    return false;
+  }
+  return safeEqual(value, signSession(host, expiresAt, passwordHash));
+}
+
+// Same format as control-api's hashTokenWithSalt: "salt:hash"
+function verifyBypassToken(token: string, storedHash: string) {
+  const [salt, expectedHash] = storedHash.split(":");
+  if (!salt || !expectedHash) {
+    return false;
+  }
+  const computedHash = createHash("sha256")
+    .update(salt)
+    .update(token)
+    .digest("hex");
+  return safeEqual(computedHash, expectedHash);
+}
+
+// Same format as control-api's hashPassword: "scrypt:salt:hash"
+async function verifyPassword(password: string, storedHash: string) {
+  const [prefix, salt, expectedHash] = storedHash.split(":");
+  if (prefix !== "scrypt" || !salt || !expectedHash) {
+    return false;
+  }
+  const computedHash = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  return safeEqual(computedHash.toString("hex"), expectedHash);
+}
+
+function safeEqual(a: string, b: string) {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+// Only same-origin paths: browsers read "//host" and "/\\host" as other hosts,
+// after dropping tabs and newlines ("/\t/host")
+function toSafeRedirect(value: string | null) {
+  if (
+    !value?.startsWith("/") ||
+    value.startsWith("//") ||
+    value.includes("\\") ||
+    hasControlCharacters(value)
+  ) {
+    return "/";
+  }
+  return value;
+}
+
+function hasControlCharacters(value: string) {
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    if (code < 0x20 || code === 0x7f) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function sendUnauthorized(res: ServerResponse) {
+  res.writeHead(401, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ error: "Unauthorized" }));
+}
+
+function sendLoginPage(
+  res: ServerResponse,
+  redirectTo: string,
+  error?: string,
+) {
+  res.writeHead(401, { "Content-Type": "text/html; charset=utf-8" });
+  res.end(`<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Protected deployment</title>
+<style>
+body{font-family:system-ui,sans-serif;display:flex;align-items:center;justify-content:center;min-height:100vh;margin:0;background:#f8f9fa;color:#212529}
+form{background:#fff;padding:2rem;border-radius:8px;box-shadow:0 1px 3px rgba(0,0,0,.1);width:100%;max-width:320px}
+h1{font-size:1.25rem;margin:0 0 1rem}
+input{box-sizing:border-box;width:100%;padding:.5rem;margin-bottom:1rem;border:1px solid #ced4da;border-radius:4px}
+button{width:100%;padding:.5rem;border:0;border-radius:4px;background:#228be6;color:#fff;cursor:pointer}
+.error{color:#e03131;margin:0 0 1rem}
+</style>
+</head>
+<body>
+<form method="post" action="${PROTECTION_LOGIN_PATH}">
+<h1>This deployment is protected</h1>
+${error ? `<p class="error">${escapeHtml(error)}</p>` : ""}
+<input type="hidden" name="redirect" value="${escapeHtml(redirectTo)}">
+<input type="password" name="password" placeholder="Password" autofocus required>
+<button type="submit">Continue</button>
+</form>
+</body>
+</html>
+`);
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+}
@@ -0,0 +1,209 @@
+import { once } from "node:events";
+import { createServer, request } from "node:http";
+import type { AddressInfo } from "node:net";
+import { describe, expect, it, vi } from "vitest";
+import type { Config } from "../types/config.js";
+
+function setGatewayEnv() {
+  process.env.ORIGAN_DEPLOY_DOMAIN = "example.com";
+  process.env.RUNNER_URL = "http://runner";
+  process.env.BUCKET_URL = "http://bucket";
+  process.env.BUCKET_ACCESS_KEY = "test";
+  process.env.BUCKET_SECRET_KEY = "test";
+  process.env.TLS_CERT_FILE = "/tmp/cert.pem";
+  process.env.TLS_KEY_FILE = "/tmp/key.pem";
+}
+
+async function loadRulesModule() {
+  setGatewayEnv();
+  vi.resetModules();
+  return await import("./rules.js");
+}
+
+describe("gateway redirect and rewrite rules", () => {
+  const config: Config = {
+    version: 1,
+    resources: [],
+    rules: [
+      {
+        type: "redirect",
+        source: "/old-blog/*",
+        destination: "/blog/:splat",
+        status: 301,
+      },
+      {
+        type: "redirect",
+        source: "/old-blog/featured",
+        destination: "/blog/highlights",
+      },
+      {
+        type: "rewrite",
+        source: "/users/:id",
+        destination: "/profile.html",
+      },
+      {
+        type: "redirect",
+        source: "/*",
+        destination: "https://www.example.com/:splat",
+        status: 308,
+        conditions: { host: "example.com" },
+      },
+    ],
+  };
+
+  it("picks the most specific matching rule", async () => {
+    const { findMatchingRule } = await loadRulesModule();
+
+    const match = findMatchingRule(config, "/old-blog/featured", "site.com");
+    expect(match?.rule.destination).toBe("/blog/highlights");
+
+    const splat = findMatchingRule(config, "/old-blog/2024/post", "site.com");
+    expect(splat?.params).toEqual({ splat: "2024/post" });
+
+    expect(findMatchingRule(config, "/blog", "site.com")).toBeNull();
+  });
+
+  it("applies host conditions without the port", async () => {
+    const { findMatchingRule, matchesHost } = await loadRulesModule();
+
+    const match = findMatchingRule(config, "/pricing", "example.com:7777");
+    expect(match?.rule.status).toBe(308);
+
+    expect(matchesHost("*.example.com", "app.example.com")).toBe(true);
+    expect(matchesHost("*.example.com", "example.com")).toBe(false);
+    expect(matchesHost("example.com", undefined)).toBe(false);
+  });
+
+  it("fills placeholders and passes the query through", async () => {
+    const { buildDestination } = await loadRulesModule();
+    const [rule] = config.rules ?? [];
+
+    expect(buildDestination(rule, { splat: "2024/post" }, "?ref=x")).toBe(
+      "/blog/2024/post?ref=x",
+    );
+    expect(
+      buildDestination(
+        { ...rule, destination: "/blog?from=old", preserveQuery: true },
+        {},
+        "?ref=x",
+      ),
+    ).toBe("/blog?from=old&ref=x");
+    expect(
+      buildDestination({ ...rule, preserveQuery: false }, { splat: "a" }, "?x"),
+    ).toBe("/blog/a");
+  });
+
+  it("keeps ports and unknown tokens in destinations", async () => {
+    const { buildDestination } = await loadRulesModule();
+
+    expect(
+      buildDestination(
+        {
+          type: "rewrite",
+          source: "/docs/:page",
+          destination: "http://docs.internal:8080/:page/:missing",
+        },
+        { page: "intro" },
+        "",
+      ),
+    ).toBe("http://docs.internal:8080/intro/:missing");
+  });
+
+  it("redirects and resolves internal rewrites", async () => {
+    const { handleRules } = await loadRulesModule();
+    const res = { writeHead: vi.fn(), end: vi.fn() };
+    const req = { headers: { host: "site.com" }, method: "GET" };
+
+    const redirected = await handleRules(
+      req as never,
+      res as never,
+      new URL("http://localhost/old-blog/post?ref=x"),
+      config,
+    );
+    expect(redirected.handled).toBe(true);
+    expect(res.writeHead).toHaveBeenCalledWith(301, {
+      Location: "/blog/post?ref=x",
+    });
+
+    const rewritten = await handleRules(
+      req as never,
+      res as never,
+      new URL("http://localhost/users/42"),
+      config,
+    );
+    expect(rewritten).toEqual({ handled: false, path: "/profile.html" });
+  });
+
+  it("does not proxy rewrites to internal addresses", async () => {
+    const { handleRules } = await loadRulesModule();
+    const internal = createServer((_req, res) => res.end("internal"));
+    internal.listen(0, "127.0.0.1");
+    await once(internal, "listening");
+    const { port } = internal.address() as AddressInfo;
+
+    try {
+      for (const host of ["127.0.0.1", "localhost", "[::ffff:127.0.0.1]"]) {
+        const res = { writeHead: vi.fn(), end: vi.fn(), headersSent: false };
+        await handleRules(
+          { headers: { host: "site.com" }, method: "GET" } as never,
+          res as never,
+          new URL("http://localhost/internal"),
+          {
+            version: 1,
+            resources: [],
+            rules: [
+              {
+                type: "rewrite",
+                source: "/internal",
+                destination: `http://${host}:${port}/`,
+              },
+            ],
+          },
+        );
+
+        expect(res.writeHead).toHaveBeenCalledWith(403, {
+          "Content-Type": "application/json",
+        });
+      }
+    } finally {
+      internal.close();
+    }
+  });
+
+  it("applies the body limit to proxied rewrites", async () => {
+    process.env.MAX_REQUEST_BODY_BYTES = "16";
+    const { handleRules } = await loadRulesModule();
+    delete process.env.MAX_REQUEST_BODY_BYTES;
+    const gateway = createServer(async (req, res) => {
+      await handleRules(req, res, new URL(`http://localhost${req.url}`), {
+        version: 1,
+        resources: [],
+        rules: [
+          {
+            type: "rewrite",
+            source: "/upload",
+            destination: "https://uploads.example.org/",
+          },
+        ],
+      });
+    });
+    gateway.listen(0, "127.0.0.1");
+    await once(gateway, "listening");
+    const { port } = gateway.address() as AddressInfo;
+
+    try {
+      const upload = request(`http://127.0.0.1:${port}/upload`, {
+        method: "POST",
+        headers: { "Content-Length": "1024" },
+      });
+      upload.on("error", () => {});
+      upload.end("x".repeat(1024));
+      const [res] = await once(upload, "response");
+
+      expect(res.statusCode).toBe(413);
+    } finally {
+      gateway.closeAllConnections();
+      gateway.close();
+    }
+  });
+});
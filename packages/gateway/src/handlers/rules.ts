@@ -0,0 +1,263 @@
+import { lookup as dnsLookup } from "node:dns";
+import { once } from "node:events";
+import {
+  request as httpRequest,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import { request as httpsRequest } from "node:https";
+import { isIP, type LookupFunction } from "node:net";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { envConfig } from "../config/index.js";
+import type { Config, RuleConfig } from "../types/config.js";
+import { exceedsDeclaredLength, limitBody } from "../utils/body.js";
+import { isPublicIp } from "../utils/ip.js";
+import { scoreRoute } from "../utils/routes.js";
+import {
+  extractRouteParams,
+  normalizePath,
+  sendPayloadTooLarge,
+  withoutInternalHeaders,
+} from "./api.js";
+
+const DEFAULT_REDIRECT_STATUS = 301;
+
+// Connection-specific headers are not forwarded by proxies (RFC 9110 7.6.1)
+const HOP_BY_HOP_HEADERS = new Set([
+  "connection",
+  "keep-alive",
+  "proxy-connection",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+  "host",
+]);
+
+export type RuleMatch = {
+  rule: RuleConfig;
+  params: Record<string, string>;
+};
+
+/**
+ * Applies the best matching redirect or rewrite rule. `handled` is true when
+ * a response has been sent; otherwise `path` is the path to resolve
+ * resources against (rewritten or not).
+ */
+export async function handleRules(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  config: Config,
+): Promise<{ handled: boolean; path: string }> {
+  const match = findMatchingRule(config, url.pathname, req.headers.host);
+  if (!match) {
+    return { handled: false, path: url.pathname };
+  }
+
+  const { rule, params } = match;
+  const destination = buildDestination(rule, params, url.search);
+
+  if (rule.type === "redirect") {
+    res.writeHead(rule.status ?? DEFAULT_REDIRECT_STATUS, {
+      Location: destination,
+    });
+    res.end();
+    return { handled: true, path: url.pathname };
+  }
+
+  if (isAbsoluteUrl(destination)) {
+    await proxyRequest(req, res, destination);
+    return { handled: true, path: url.pathname };
+  }
+
+  // Internal rewrites are resolved once, they are not re-evaluated
+  return {
+    handled: false,
+    path: new URL(destination, "http://localhost").pathname,
+  };
+}
+
+export function findMatchingRule(
+  config: Config,
+  path: string,
+  host: string | undefined,
+): RuleMatch | null {
+  const normalizedPath = normalizePath(path);
+  let best: (RuleMatch & { score: number }) | null = null;
+
+  for (const rule of config.rules ?? []) {
+    if (rule.conditions?.host && !matchesHost(rule.conditions.host, host)) {
+      continue;
+    }
+    const params = extractRouteParams(normalizedPath, rule.source);
+    if (!params) continue;
+    const score = scoreRoute(rule.source);
+    // Strict comparison keeps manifest order for equally specific rules
+    if (!best || score > best.score) {
+      best = { rule, params, score };
+    }
+  }
+
+  return best ? { rule: best.rule, params: best.params } : null;
+}
+
+export function matchesHost(pattern: string, host: string | undefined) {
+  if (!host) {
+    return false;
+  }
+  const hostname = host.replace(/:\d+$/, "").toLowerCase();
+  const expected = pattern.toLowerCase();
+  if (expected.startsWith("*.")) {
+    const suffix = expected.slice(1);
+    return hostname.endsWith(suffix) && hostname.length > suffix.length;
+  }
+  return hostname === expected;
+}
+
+export function buildDestination(
+  rule: RuleConfig,
+  params: Record<string, string>,
+  search: string,
+) {
+  const destination = rule.destination.replace(
+    /:([A-Za-z_][A-Za-z0-9_]*)/g,
+    (token, name: string) => params[name] ?? token,
+  );
+
+  if (rule.preserveQuery === false || !search || search === "?") {
+    return destination;
+  }
+  const query = search.startsWith("?") ? search.slice(1) : search;
+  return destination.includes("?")
+    ? `${destination}&${query}`
+    : `${destination}?${query}`;
+}
+
+function isAbsoluteUrl(value: string) {
+  return /^https?:\/\//i.test(value);
+}
+
+class ForbiddenDestinationError extends Error {}
+
+/**
+ * Resolves like the default lookup, but fails when the host resolves to an
+ * address that is not public. Checked when connecting, so a DNS answer
+ * changing between a check and the request cannot bypass it.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "", 0);
+      return;
+    }
+    const blocked = addresses.find(({ address }) => !isPublicIp(address));
+    if (blocked || addresses.length === 0) {
+      callback(
+        new ForbiddenDestinationError(
+          `${hostname} resolves to a non-public address`,
+        ),
+        "",
+        0,
+      );
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+async function proxyRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  target: string,
+) {
+  const maxBodyBytes = envConfig.maxRequestBodyBytes;
+  if (exceedsDeclaredLength(req.headers, maxBodyBytes)) {
+    sendPayloadTooLarge(res, maxBodyBytes);
+    return;
+  }
+
+  let bodyTooLarge = false;
+  try {
+    const url = new URL(target);
+    // Literal addresses are connected to without a lookup
+    const hostname = url.hostname.replace(/^\[|\]$/g, "");
+    if (isIP(hostname) !== 0 && !isPublicIp(hostname)) {
+      throw new ForbiddenDestinationError(`${hostname} is not public`);
+    }
+
+    const headers: Record<string, string> = {};
+    for (const [key, value] of Object.entries(
+      withoutInternalHeaders(req.headers),
+    )) {
+      if (!value || HOP_BY_HOP_HEADERS.has(key)) continue;
+      headers[key] = Array.isArray(value) ? value.join(", ") : value;
+    }
+    if (req.headers.host) {
+      headers["x-forwarded-host"] = req.headers.host;
+    }
+
+    const request = url.protocol === "https:" ? httpsRequest : httpRequest;
+    const upstreamReq = request(url, {
+      method: req.method,
+      headers,
+      lookup: publicLookup,
+    });
+    const response = once(upstreamReq, "response") as Promise<
+      [IncomingMessage]
+    >;
+    // Awaited after the body, a failed upload rejects both
+    response.catch(() => {});
+
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      await pipeline(
+        Readable.from(
+          limitBody(req, maxBodyBytes, () => {
+            bodyTooLarge = true;
+          }),
+        ),
+        upstreamReq,
+      );
+    } else {
+      upstreamReq.end();
+    }
+
+    const [upstreamRes] = await response;
+    const responseHeaders: Record<string, string | string[]> = {};
+    for (const [key, value] of Object.entries(upstreamRes.headers)) {
+      if (value === undefined || HOP_BY_HOP_HEADERS.has(key)) continue;
+      responseHeaders[key] = value;
+    }
+
+    res.writeHead(upstreamRes.statusCode ?? 502, responseHeaders);
+    if (req.method === "HEAD") {
+      upstreamRes.resume();
+      res.end();
+      return;
+    }
+    await pipeline(upstreamRes, res);
+  } catch (error) {
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    if (bodyTooLarge) {
+      sendPayloadTooLarge(res, maxBodyBytes);
+      return;
+    }
+    if (error instanceof ForbiddenDestinationError) {
+      console.warn(`Refusing to proxy rewrite to ${target}: ${error.message}`);
+      res.writeHead(403, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Rewrite destination not allowed" }));
+      return;
+    }
+    console.error(`Error proxying rewrite to ${target}:`, error);
+    res.writeHead(502, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Bad gateway" }));
+  }
+}
@@ -1,3 +1,4 @@
+import { PassThrough, Readable } from "node:stream";
 import { describe, expect, it, vi } from "vitest";
 import type { Config } from "../types/config.js";
 
@@ -54,7 +55,6 @@ describe("gateway static resource helpers", () => {
       etag: "abc",
       lastModified: new Date("2024-01-01T00:00:00Z"),
       contentLength: 42,
-      shouldGzip: false,
     });
 
     expect(headers["Content-Type"]).toBe("text/html");
@@ -67,10 +67,268 @@ describe("gateway static resource helpers", () => {
     const { buildStaticHeaders } = await loadStaticModule();
     const headers = buildStaticHeaders({
       contentType: "application/javascript",
-      shouldGzip: true,
+      contentLength: 42,
+      contentEncoding: "gzip",
+      compressOnTheFly: true,
     });
 
     expect(headers["Content-Encoding"]).toBe("gzip");
     expect(headers["Content-Length"]).toBeUndefined();
+    expect(headers.Vary).toBe("Accept-Encoding");
+  });
+
+  it("keeps content length for precompressed variants", async () => {
+    const { buildStaticHeaders } = await loadStaticModule();
+    const headers = buildStaticHeaders({
+      contentType: "application/javascript",
+      etag: '"abc"',
+      contentLength: 12,
+      contentEncoding: "br",
+    });
+
+    expect(headers["Content-Encoding"]).toBe("br");
+    expect(headers["Content-Length"]).toBe("12");
+    expect(headers.ETag).toBe('"abc"');
+  });
+
+  it("weakens the etag when compressing on the fly", async () => {
+    const { buildStaticHeaders } = await loadStaticModule();
+    const headers = buildStaticHeaders({
+      contentType: "text/css",
+      etag: '"abc"',
+      contentEncoding: "br",
+      compressOnTheFly: true,
+    });
+
+    expect(headers.ETag).toBe('W/"abc"');
+  });
+});
+
+describe("gateway static conditional requests", () => {
+  const etag = '"abc"';
+  const lastModified = new Date("2024-01-01T00:00:00Z");
+
+  it("matches If-None-Match against the etag", async () => {
+    const { isNotModified } = await loadStaticModule();
+    expect(
+      isNotModified({ "if-none-match": '"abc"' }, etag, lastModified),
+    ).toBe(true);
+    expect(
+      isNotModified({ "if-none-match": 'W/"abc", "def"' }, etag, lastModified),
+    ).toBe(true);
+    expect(isNotModified({ "if-none-match": "*" }, etag, lastModified)).toBe(
+      true,
+    );
+    expect(
+      isNotModified({ "if-none-match": '"def"' }, etag, lastModified),
+    ).toBe(false);
+  });
+
+  it("prefers If-None-Match over If-Modified-Since", async () => {
+    const { isNotModified } = await loadStaticModule();
+    expect(
+      isNotModified(
+        {
+          "if-none-match": '"def"',
+          "if-modified-since": "Tue, 02 Jan 2024 00:00:00 GMT",
+        },
+        etag,
+        lastModified,
+      ),
+    ).toBe(false);
+  });
+
+  it("compares If-Modified-Since with second precision", async () => {
+    const { isNotModified } = await loadStaticModule();
+    expect(
+      isNotModified(
+        { "if-modified-since": lastModified.toUTCString() },
+        etag,
+        new Date("2024-01-01T00:00:00.500Z"),
+      ),
+    ).toBe(true);
+    expect(
+      isNotModified(
+        { "if-modified-since": "Sun, 31 Dec 2023 00:00:00 GMT" },
+        etag,
+        lastModified,
+      ),
+    ).toBe(false);
+  });
+
+  it("parses single byte ranges only", async () => {
+    const { parseRangeHeader } = await loadStaticModule();
+    expect(parseRangeHeader("bytes=0-99")).toBe("bytes=0-99");
+    expect(parseRangeHeader("bytes=100-")).toBe("bytes=100-");
+    expect(parseRangeHeader("bytes=-500")).toBe("bytes=-500");
+    expect(parseRangeHeader("bytes=0-1,4-5")).toBeNull();
+    expect(parseRangeHeader("bytes=10-5")).toBeNull();
+    expect(parseRangeHeader("items=0-5")).toBeNull();
+    expect(parseRangeHeader(undefined)).toBeNull();
+  });
+
+  it("honours If-Range validators", async () => {
+    const { isRangeFresh } = await loadStaticModule();
+    expect(isRangeFresh(undefined, etag, lastModified)).toBe(true);
+    expect(isRangeFresh('"abc"', etag, lastModified)).toBe(true);
+    expect(isRangeFresh('W/"abc"', etag, lastModified)).toBe(false);
+    expect(isRangeFresh('"def"', etag, lastModified)).toBe(false);
+    expect(isRangeFresh(lastModified.toUTCString(), etag, lastModified)).toBe(
+      true,
+    );
+  });
+
+  it("keeps validators and caching headers on 304 responses", async () => {
+    const { buildNotModifiedHeaders } = await loadStaticModule();
+    const headers = buildNotModifiedHeaders({
+      etag,
+      lastModified,
+    });
+
+    expect(headers.ETag).toBe(etag);
+    expect(headers["Cache-Control"]).toBe("public, max-age=3600");
+    expect(headers["Content-Type"]).toBeUndefined();
+  });
+});
+
+describe("gateway static routing modes", () => {
+  it("resolves directory indexes and clean urls", async () => {
+    const { resolveCandidatePaths } = await loadStaticModule();
+
+    expect(resolveCandidatePaths("/about", {})).toEqual([
+      "/about",
+      "/about/index.html",
+    ]);
+    expect(resolveCandidatePaths("/about/", { cleanUrls: true })).toEqual([
+      "/about/",
+      "/about/index.html",
+      "/about.html",
+    ]);
+    expect(resolveCandidatePaths("/", { cleanUrls: true })).toEqual([
+      "/",
+      "/index.html",
+    ]);
+  });
+
+  it("applies the trailing slash policy", async () => {
+    const { getTrailingSlashRedirect } = await loadStaticModule();
+
+    expect(getTrailingSlashRedirect("/about", "always")).toBe("/about/");
+    expect(getTrailingSlashRedirect("/app.js", "always")).toBeNull();
+    expect(getTrailingSlashRedirect("/about/", "never")).toBe("/about");
+    expect(getTrailingSlashRedirect("/", "never")).toBeNull();
+    expect(getTrailingSlashRedirect("/about/", "ignore")).toBeNull();
+    expect(getTrailingSlashRedirect("/about/", undefined)).toBeNull();
+  });
+
+  it("does not redirect to another host", async () => {
+    const { getTrailingSlashRedirect } = await loadStaticModule();
+
+    expect(getTrailingSlashRedirect("//evil.com/", "never")).toBe("/evil.com");
+    expect(getTrailingSlashRedirect("//evil.com/login", "always")).toBe(
+      "/evil.com/login/",
+    );
+    expect(getTrailingSlashRedirect("/\\evil.com/", "never")).toBe("/evil.com");
+  });
+
+  it("serves the custom 404 page when the spa fallback is disabled", async () => {
+    const streamFromS3 = vi.fn(async (key: string) => {
+      if (!key.endsWith("app/404.html")) return null;
+      return {
+        stream: Readable.from(["<h1>Missing</h1>"]),
+        contentLength: 16,
+        contentRange: undefined,
+        contentType: "text/html",
+        etag: '"404"',
+        lastModified: undefined,
+      };
+    });
+    vi.doMock("../utils/s3.js", () => ({
+      RangeNotSatisfiableError: class extends Error {},
+      streamFromS3,
+    }));
+    const { handleStaticFile } = await loadStaticModule();
+
+    const res = new PassThrough() as PassThrough & {
+      writeHead: ReturnType<typeof vi.fn>;
+    };
+    res.writeHead = vi.fn();
+    const config: Config = {
+      version: 1,
+      resources: [
+        {
+          kind: "static",
+          urlPath: "/index.html",
+          resourcePath: "app/index.html",
+        },
+        { kind: "static", urlPath: "/404.html", resourcePath: "app/404.html" },
+      ],
+      routing: { spaFallback: false, errorPages: { "404": "/404.html" } },
+    };
+
+    await handleStaticFile(
+      { method: "GET", headers: {}, url: "/missing" } as never,
+      res as never,
+      "/missing",
+      config,
+      "deployment-1",
+    );
+
+    expect(res.writeHead).toHaveBeenCalledWith(
+      404,
+      expect.objectContaining({ "Cache-Control": "no-cache" }),
+    );
+    expect(streamFromS3).not.toHaveBeenCalledWith(
+      "deployments/deployment-1/app/index.html",
+      expect.anything(),
+    );
+    vi.doUnmock("../utils/s3.js");
+  });
+
+  it("answers unsatisfiable ranges with the size of the file", async () => {
+    class RangeNotSatisfiableError extends Error {
+      constructor(
+        key: string,
+        public readonly size?: number,
+      ) {
+        super(key);
+      }
+    }
+    vi.doMock("../utils/s3.js", () => ({
+      RangeNotSatisfiableError,
+      streamFromS3: vi.fn(async (key: string) => {
+        throw new RangeNotSatisfiableError(key, 10);
+      }),
+    }));
+    const { handleStaticFile } = await loadStaticModule();
+
+    const res = { writeHead: vi.fn(), end: vi.fn() };
+    const config: Config = {
+      version: 1,
+      resources: [
+        {
+          kind: "static",
+          urlPath: "/video.mp4",
+          resourcePath: "app/video.mp4",
+        },
+      ],
+    };
+    await handleStaticFile(
+      {
+        method: "GET",
+        headers: { range: "bytes=20-" },
+        url: "/video.mp4",
+      } as never,
+      res as never,
+      "/video.mp4",
+      config,
+      "deployment-1",
+    );
+
+    expect(res.writeHead).toHaveBeenCalledWith(416, {
+      "Accept-Ranges": "bytes",
+      "Content-Range": "bytes */10",
+    });
+    vi.doUnmock("../utils/s3.js");
   });
 });
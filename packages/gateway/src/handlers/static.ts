@@ -1,9 +1,19 @@
 import type { IncomingMessage, ServerResponse } from "node:http";
 import { pipeline } from "node:stream/promises";
-import { createGzip } from "node:zlib";
-import type { Config } from "../types/config.js";
+import { constants, createBrotliCompress, createGzip } from "node:zlib";
+import { getAsset } from "../services/asset-cache.js";
+import { getRoutingIndex } from "../services/routing-index.js";
+import type {
+  Config,
+  ContentEncoding,
+  RoutingConfig,
+} from "../types/config.js";
 import { getContentType } from "../utils/content-type.js";
-import { streamFromS3 } from "../utils/s3.js";
+import {
+  isCompressibleContentType,
+  negotiateEncoding,
+} from "../utils/encoding.js";
+import { RangeNotSatisfiableError, type StoredObject } from "../utils/s3.js";
 
 export async function handleStaticFile(
   req: IncomingMessage,
@@ -12,83 +22,224 @@ export async function handleStaticFile(
   config: Config,
   deploymentId: string,
 ) {
-  const served = await tryServeFile(
-    req,
-    res,
-    path,
-    undefined,
-    config,
-    deploymentId,
-  );
-
-  if (served) return true;
+  const routing = config.routing ?? {};
 
-  const indexPath = path.endsWith("/")
-    ? `${path}index.html`
-    : `${path}/index.html`;
-
-  const servedIndex = await tryServeFile(
-    req,
-    res,
-    indexPath,
-    "text/html",
-    config,
-    deploymentId,
-  );
+  const redirectPath = getTrailingSlashRedirect(path, routing.trailingSlash);
+  if (redirectPath) {
+    const { search } = new URL(req.url || "/", "http://localhost");
+    res.writeHead(308, { Location: `${redirectPath}${search}` });
+    res.end();
+    return true;
+  }
 
-  if (servedIndex) return true;
+  for (const candidate of resolveCandidatePaths(path, routing)) {
+    if (await tryServeFile(req, res, candidate, config, deploymentId)) {
+      return true;
+    }
+  }
 
-  const servedRoot = await tryServeFile(
-    req,
-    res,
-    "/index.html",
-    "text/html",
-    config,
-    deploymentId,
-  );
+  // Single-page apps resolve unknown paths client-side
+  if (routing.spaFallback !== false) {
+    const servedRoot = await tryServeFile(
+      req,
+      res,
+      "/index.html",
+      config,
+      deploymentId,
+      { contentType: "text/html" },
+    );
+    if (servedRoot) return true;
+  }
 
-  if (servedRoot) return true;
+  if (await serveErrorPage(req, res, 404, config, deploymentId)) {
+    return true;
+  }
 
-  // Not found
   res.writeHead(404, { "Content-Type": "application/json" });
-  res.end(
-    JSON.stringify({
-      error: "Not found",
-      path,
-      resources: config.resources.length,
-    }),
-  );
+  res.end(JSON.stringify({ error: "Not found" }));
   return true;
 }
 
+/**
+ * Serves the custom error document declared for `status`, falling back to
+ * the 500 page for other 5xx statuses. Returns false when none is available.
+ */
+export async function serveErrorPage(
+  req: IncomingMessage,
+  res: ServerResponse,
+  status: number,
+  config: Config,
+  deploymentId: string,
+) {
+  const errorPages = config.routing?.errorPages;
+  const pagePath =
+    errorPages?.[String(status)] ??
+    (status >= 500 ? errorPages?.["500"] : undefined);
+  if (!pagePath) {
+    return false;
+  }
+
+  try {
+    return await tryServeFile(req, res, pagePath, config, deploymentId, {
+      contentType: "text/html",
+      status,
+    });
+  } catch (error) {
+    console.error(`Error serving ${status} page ${pagePath}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Paths to try, in order, for a request: the exact file, the directory
+ * index, then `<path>.html` when clean URLs are enabled.
+ */
+export function resolveCandidatePaths(path: string, routing: RoutingConfig) {
+  const trimmed = path.replace(/\/+$/, "");
+  const candidates = [path, `${trimmed}/index.html`];
+  if (routing.cleanUrls && trimmed && !hasExtension(trimmed)) {
+    candidates.push(`${trimmed}.html`);
+  }
+  return candidates;
+}
+
+export function getTrailingSlashRedirect(
+  path: string,
+  policy: RoutingConfig["trailingSlash"],
+) {
+  if (path === "/" || !policy || policy === "ignore") {
+    return null;
+  }
+  // `//evil.com` in a Location header is a protocol-relative URL to
+  // another host, so the redirect keeps a single leading slash
+  const target = path.replace(/^[/\\]+/, "/");
+  if (policy === "always") {
+    // Files keep their name: /app.js must not become /app.js/
+    return target.endsWith("/") || hasExtension(target) ? null : `${target}/`;
+  }
+  return target.endsWith("/") ? target.replace(/\/+$/, "") || "/" : null;
+}
+
+function hasExtension(path: string) {
+  const lastSegment = path.slice(path.lastIndexOf("/") + 1);
+  return lastSegment.includes(".");
+}
+
+type ServeOptions = {
+  contentType?: string;
+  // Error documents are sent with their status, without conditional or
+  // range handling
+  status?: number;
+};
+
 async function tryServeFile(
   req: IncomingMessage,
   res: ServerResponse,
   urlPath: string,
-  contentTypeOverride: string | undefined,
   config: Config,
   deploymentId: string,
+  options: ServeOptions = {},
 ): Promise<boolean> {
   const resource = findStaticResource(config, urlPath);
   if (!resource) {
     return false;
   }
 
-  const s3Response = await streamFromS3(
-    `deployments/${deploymentId}/${resource.resourcePath}`,
-  );
+  const isErrorPage = options.status !== undefined;
+  const isReadMethod =
+    !isErrorPage && (req.method === "GET" || req.method === "HEAD");
+  const requestedRange = isReadMethod
+    ? parseRangeHeader(req.headers.range)
+    : null;
+  const contentType =
+    options.contentType ?? getContentType(resource.resourcePath);
+  const acceptEncoding = req.headers["accept-encoding"];
+  const precompressedEncodings = Object.keys(
+    resource.encodings ?? {},
+  ) as ContentEncoding[];
+  const compressible = isCompressibleContentType(contentType);
+
+  // Byte ranges always address the identity representation
+  let encoding = requestedRange
+    ? null
+    : negotiateEncoding(acceptEncoding, precompressedEncodings);
+
+  const encodedPath = encoding ? resource.encodings?.[encoding] : undefined;
+
+  let s3Response: StoredObject | null;
+  try {
+    s3Response = await getAsset(
+      deploymentId,
+      encodedPath ?? resource.resourcePath,
+      { range: requestedRange ?? undefined },
+    );
+    if (!s3Response && encodedPath) {
+      // A missing variant should not hide the original file
+      encoding = null;
+      s3Response = await getAsset(deploymentId, resource.resourcePath);
+    }
+  } catch (error) {
+    if (error instanceof RangeNotSatisfiableError) {
+      res.writeHead(416, {
+        "Accept-Ranges": "bytes",
+        ...(error.size !== undefined && {
+          "Content-Range": `bytes */${error.size}`,
+        }),
+      });
+      res.end();
+      return true;
+    }
+    throw error;
+  }
 
   if (!s3Response) {
     return false;
   }
 
-  const contentType =
-    contentTypeOverride ?? getContentType(resource.resourcePath);
+  const varyOnEncoding = compressible || precompressedEncodings.length > 0;
+
+  if (
+    isReadMethod &&
+    isNotModified(req.headers, s3Response.etag, s3Response.lastModified)
+  ) {
+    s3Response.stream.destroy();
+    res.writeHead(
+      304,
+      buildNotModifiedHeaders({
+        resourceHeaders: resource.headers,
+        etag: s3Response.etag,
+        lastModified: s3Response.lastModified,
+        varyOnEncoding,
+      }),
+    );
+    res.end();
+    return true;
+  }
+
+  // A stale If-Range means the client's partial copy is outdated:
+  // send the full representation instead of the requested range.
+  if (
+    s3Response.contentRange &&
+    !isRangeFresh(
+      req.headers["if-range"],
+      s3Response.etag,
+      s3Response.lastModified,
+    )
+  ) {
+    s3Response.stream.destroy();
+    s3Response = await getAsset(deploymentId, resource.resourcePath);
+    if (!s3Response) {
+      return false;
+    }
+  }
+
+  const isPartial = Boolean(s3Response.contentRange);
 
-  const acceptEncoding = req.headers["accept-encoding"] || "";
-  const shouldGzip =
-    acceptEncoding.includes("gzip") &&
-    /^(text\/|application\/(javascript|json))/i.test(contentType);
+  // Without a precompressed variant, compress text assets on the fly
+  const compressOnTheFly =
+    !encoding && !isPartial && compressible
+      ? negotiateEncoding(acceptEncoding)
+      : null;
 
   const headers = buildStaticHeaders({
     contentType,
@@ -96,29 +247,126 @@ async function tryServeFile(
     etag: s3Response.etag,
     lastModified: s3Response.lastModified,
     contentLength: s3Response.contentLength,
-    shouldGzip,
+    contentEncoding: encoding ?? compressOnTheFly ?? undefined,
+    compressOnTheFly: compressOnTheFly !== null,
+    varyOnEncoding,
   });
+  const status = options.status ?? 200;
+  if (isErrorPage) {
+    headers["Cache-Control"] = "no-cache";
+  }
 
-  if (shouldGzip) {
-    res.writeHead(200, headers);
-    const gzipped = createGzip();
-    await pipeline(s3Response.stream, gzipped, res);
+  if (isPartial && s3Response.contentRange) {
+    headers["Content-Range"] = s3Response.contentRange;
+    res.writeHead(206, headers);
+    await pipeline(s3Response.stream, res);
+  } else if (compressOnTheFly) {
+    res.writeHead(status, headers);
+    await pipeline(s3Response.stream, createCompressor(compressOnTheFly), res);
   } else {
-    res.writeHead(200, headers);
+    res.writeHead(status, headers);
     await pipeline(s3Response.stream, res);
   }
 
   return true;
 }
 
+function createCompressor(encoding: ContentEncoding) {
+  if (encoding === "br") {
+    // Favour speed over ratio: precompressed variants cover the best ratio
+    return createBrotliCompress({
+      params: {
+        [constants.BROTLI_PARAM_QUALITY]: 4,
+        [constants.BROTLI_PARAM_MODE]: constants.BROTLI_MODE_TEXT,
+      },
+    });
+  }
+  return createGzip();
+}
+
+/**
+ * Returns the single byte range to request from storage, or null when the
+ * full representation should be served. Multiple ranges are not supported
+ * and fall back to a full 200 response, as allowed by RFC 9110.
+ */
+export function parseRangeHeader(value: string | undefined) {
+  if (!value) {
+    return null;
+  }
+  const match = /^bytes=(\d*)-(\d*)$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [, start, end] = match;
+  if (!start && !end) {
+    return null;
+  }
+  if (start && end && Number(start) > Number(end)) {
+    return null;
+  }
+  return `bytes=${start}-${end}`;
+}
+
+function matchesEtag(header: string, etag: string) {
+  const strip = (value: string) => value.trim().replace(/^W\//, "");
+  const target = strip(etag);
+  return header.split(",").some((candidate) => {
+    const trimmed = candidate.trim();
+    return trimmed === "*" || strip(trimmed) === target;
+  });
+}
+
+function toSeconds(date: Date) {
+  return Math.floor(date.getTime() / 1000);
+}
+
+export function isNotModified(
+  headers: IncomingMessage["headers"],
+  etag: string | undefined,
+  lastModified: Date | undefined,
+) {
+  const ifNoneMatch = headers["if-none-match"];
+  if (ifNoneMatch) {
+    // If-None-Match takes precedence over If-Modified-Since
+    return etag ? matchesEtag(ifNoneMatch, etag) : false;
+  }
+
+  const ifModifiedSince = headers["if-modified-since"];
+  if (ifModifiedSince && lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    if (Number.isNaN(since)) {
+      return false;
+    }
+    return toSeconds(lastModified) <= Math.floor(since / 1000);
+  }
+
+  return false;
+}
+
+export function isRangeFresh(
+  ifRange: string | string[] | undefined,
+  etag: string | undefined,
+  lastModified: Date | undefined,
+) {
+  if (!ifRange) {
+    return true;
+  }
+
+  const value = (Array.isArray(ifRange) ? ifRange[0] : ifRange).trim();
+  if (value.startsWith('"') || value.startsWith("W/")) {
+    // If-Range requires a strong comparison
+    return !value.startsWith("W/") && etag !== undefined && value === etag;
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date) || !lastModified) {
+    return false;
+  }
+  return toSeconds(lastModified) === Math.floor(date / 1000);
+}
+
 export function findStaticResource(config: Config, urlPath: string) {
-  const normalizedPath = normalizePath(urlPath);
-  return (
-    config.resources.find(
-      (resource) =>
-        resource.kind === "static" && resource.urlPath === normalizedPath,
-    ) ?? null
-  );
+  return getRoutingIndex(config).findStatic(normalizePath(urlPath));
 }
 
 export function normalizePath(path: string) {
@@ -134,14 +382,19 @@ export function buildStaticHeaders({
   etag,
   lastModified,
   contentLength,
-  shouldGzip,
+  contentEncoding,
+  compressOnTheFly = false,
+  varyOnEncoding = false,
 }: {
   contentType: string;
   resourceHeaders?: Record<string, string>;
   etag?: string;
   lastModified?: Date;
   contentLength?: number | null;
-  shouldGzip: boolean;
+  contentEncoding?: ContentEncoding;
+  // The body is compressed while streaming, so its length is unknown
+  compressOnTheFly?: boolean;
+  varyOnEncoding?: boolean;
 }) {
   const headers: Record<string, string> = {
     "Content-Type": contentType,
@@ -154,7 +407,9 @@ export function buildStaticHeaders({
   }
 
   if (etag) {
-    headers.ETag = etag;
+    // An encoding applied on the fly is not byte-identical to the stored object
+    headers.ETag =
+      compressOnTheFly && !etag.startsWith("W/") ? `W/${etag}` : etag;
   }
   if (lastModified) {
     headers["Last-Modified"] = lastModified.toUTCString();
@@ -167,11 +422,48 @@ export function buildStaticHeaders({
     headers["Cache-Control"] = "public, max-age=3600";
   }
 
-  if (shouldGzip) {
-    headers["Content-Encoding"] = "gzip";
-  } else if (contentLength) {
+  headers["Accept-Ranges"] = "bytes";
+
+  if (contentEncoding) {
+    headers["Content-Encoding"] = contentEncoding;
+  }
+  if (varyOnEncoding || contentEncoding) {
+    headers.Vary = "Accept-Encoding";
+  }
+  if (contentLength && !compressOnTheFly) {
     headers["Content-Length"] = contentLength.toString();
   }
 
   return headers;
 }
+
+export function buildNotModifiedHeaders({
+  resourceHeaders,
+  etag,
+  lastModified,
+  varyOnEncoding = false,
+}: {
+  resourceHeaders?: Record<string, string>;
+  etag?: string;
+  lastModified?: Date;
+  varyOnEncoding?: boolean;
+}) {
+  // A 304 carries the validators and caching headers of the 200 it replaces
+  const fullHeaders = buildStaticHeaders({
+    contentType: "",
+    resourceHeaders,
+    etag,
+    lastModified,
+    varyOnEncoding,
+  });
+
+  const headers: Record<string, string> = {};
+  for (const [key, value] of Object.entries(fullHeaders)) {
+    const lowerKey = key.toLowerCase();
+    if (lowerKey === "content-type" || lowerKey === "accept-ranges") {
+      continue;
+    }
+    headers[key] = value;
+  }
+  return headers;
+}
@@ -0,0 +1,92 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { describe, expect, it, vi } from "vitest";
+import type { CachedConfig } from "../services/configurations.js";
+import type { Config } from "../types/config.js";
+import { selectDeployment } from "./traffic.js";
+
+const stableConfig: Config = { version: 1, resources: [] };
+const canaryConfig: Config = { version: 2, resources: [] };
+
+function createResult(canaryWeight: number): CachedConfig {
+  return {
+    config: stableConfig,
+    deploymentId: "stable",
+    projectId: "project",
+    deployments: [
+      {
+        deploymentId: "stable",
+        config: stableConfig,
+        weight: 100 - canaryWeight,
+      },
+      { deploymentId: "canary", config: canaryConfig, weight: canaryWeight },
+    ],
+  };
+}
+
+function createRequest(cookie?: string) {
+  return { headers: cookie ? { cookie } : {} } as IncomingMessage;
+}
+
+function createResponse() {
+  return { appendHeader: vi.fn() } as unknown as ServerResponse & {
+    appendHeader: ReturnType<typeof vi.fn>;
+  };
+}
+
+describe("gateway traffic splitting", () => {
+  it("serves the single deployment when no canary is running", () => {
+    const res = createResponse();
+    const result: CachedConfig = {
+      config: stableConfig,
+      deploymentId: "stable",
+      projectId: "project",
+    };
+
+    expect(selectDeployment(createRequest(), res, result).deploymentId).toBe(
+      "stable",
+    );
+    expect(res.appendHeader).not.toHaveBeenCalled();
+  });
+
+  it("keeps visitors on the deployment of their bucket", () => {
+    const result = createResult(20);
+    const select = (bucket: number) =>
+      selectDeployment(
+        createRequest(`theme=dark; __origan_bucket=${bucket}`),
+        createResponse(),
+        result,
+      );
+
+    expect(select(0).deploymentId).toBe("stable");
+    expect(select(79).deploymentId).toBe("stable");
+    expect(select(80).config).toBe(canaryConfig);
+    expect(select(99).deploymentId).toBe("canary");
+  });
+
+  it("only moves visitors to the canary when ramping up", () => {
+    const bucket = "__origan_bucket=85";
+
+    expect(
+      selectDeployment(createRequest(bucket), undefined, createResult(10))
+        .deploymentId,
+    ).toBe("stable");
+    expect(
+      selectDeployment(createRequest(bucket), undefined, createResult(50))
+        .deploymentId,
+    ).toBe("canary");
+  });
+
+  it("assigns a bucket to new visitors", () => {
+    const res = createResponse();
+    selectDeployment(
+      createRequest("__origan_bucket=nope"),
+      res,
+      createResult(50),
+    );
+
+    expect(res.appendHeader).toHaveBeenCalledWith(
+      "Set-Cookie",
+      expect.stringMatching(/^__origan_bucket=\d{1,2}; Path=\//),
+    );
+  });
+});
@@ -0,0 +1,53 @@
+import { randomInt } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { CachedConfig } from "../services/configurations.js";
+import { getCookie } from "../utils/cookies.js";
+
+export const TRAFFIC_BUCKET_COOKIE_NAME = "__origan_bucket";
+
+const BUCKET_COUNT = 100;
+const BUCKET_COOKIE_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+/**
+ * Picks the deployment serving the request while a canary is running.
+ * Visitors get a sticky bucket in [0, 100) mapped onto the cumulated
+ * weights, stable deployment first: a ramp up only moves the visitors
+ * whose bucket crosses the new boundary.
+ * The bucket cookie is only issued when `res` is given.
+ */
+export function selectDeployment(
+  req: IncomingMessage,
+  res: ServerResponse | undefined,
+  result: CachedConfig,
+): Pick<CachedConfig, "config" | "deploymentId"> {
+  const deployments = result.deployments;
+  if (!deployments || deployments.length === 0) {
+    return result;
+  }
+
+  let bucket = parseBucket(getCookie(req, TRAFFIC_BUCKET_COOKIE_NAME));
+  if (bucket === null) {
+    bucket = randomInt(BUCKET_COUNT);
+    res?.appendHeader(
+      "Set-Cookie",
+      `${TRAFFIC_BUCKET_COOKIE_NAME}=${bucket}; Path=/; Max-Age=${BUCKET_COOKIE_MAX_AGE_SECONDS}; HttpOnly; SameSite=Lax`,
+    );
+  }
+
+  let boundary = 0;
+  for (const deployment of deployments) {
+    boundary += deployment.weight;
+    if (bucket < boundary) {
+      return deployment;
+    }
+  }
+  // Weights summing to less than 100 leave the rest on the last deployment
+  return deployments[deployments.length - 1];
+}
+
+function parseBucket(value: string | undefined) {
+  if (value === undefined || !/^\d{1,2}$/.test(value)) {
+    return null;
+  }
+  return Number(value);
+}
@@ -0,0 +1,212 @@
+import { once } from "node:events";
+import { createServer, request, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { Duplex } from "node:stream";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const getConfig = vi.fn();
+
+vi.mock("../services/configurations.js", () => ({ getConfig }));
+
+function setGatewayEnv(runnerUrl: string) {
+  process.env.ORIGAN_DEPLOY_DOMAIN = "example.com";
+  process.env.RUNNER_URL = runnerUrl;
+  process.env.BUCKET_URL = "http://bucket";
+  process.env.BUCKET_ACCESS_KEY = "test";
+  process.env.BUCKET_SECRET_KEY = "test";
+  process.env.TLS_CERT_FILE = "/tmp/cert.pem";
+  process.env.TLS_KEY_FILE = "/tmp/key.pem";
+  process.env.WS_MAX_CONNECTIONS_PER_DEPLOYMENT = "1";
+}
+
+async function loadWebSocketModule(runnerUrl = "http://runner") {
+  setGatewayEnv(runnerUrl);
+  vi.resetModules();
+  return await import("./websocket.js");
+}
+
+async function listen(server: Server) {
+  server.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+function upgradeRequest(url: string, path: string) {
+  const req = request(`${url}${path}`, {
+    headers: {
+      Host: "site.example.com",
+      Connection: "Upgrade",
+      Upgrade: "websocket",
+      // Only the gateway sets internal headers
+      "X-Origan-Memory-Limit-Mb": "1024",
+    },
+  });
+  req.end();
+  return req;
+}
+
+const config = {
+  config: {
+    version: 1,
+    resources: [
+      { kind: "dynamic", urlPath: "/api/socket", resourcePath: "api/ws.js" },
+    ],
+  },
+  deploymentId: "deployment-1",
+  projectId: "project-1",
+};
+
+describe("gateway websocket upgrades", () => {
+  const servers: Server[] = [];
+
+  afterEach(() => {
+    for (const server of servers) {
+      server.closeAllConnections();
+      server.close();
+    }
+    servers.length = 0;
+    getConfig.mockReset();
+    delete process.env.WS_MAX_CONNECTIONS_PER_DEPLOYMENT;
+  });
+
+  it("formats raw response heads", async () => {
+    const { formatResponseHead } = await loadWebSocketModule();
+    expect(
+      formatResponseHead(101, "Switching Protocols", ["Upgrade", "websocket"]),
+    ).toBe("HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\n\r\n");
+  });
+
+  it("limits connections per deployment", async () => {
+    const { acquireConnection, releaseConnection, getActiveConnections } =
+      await loadWebSocketModule();
+
+    expect(acquireConnection("deployment-1")).toBe(true);
+    expect(acquireConnection("deployment-1")).toBe(false);
+    expect(acquireConnection("deployment-2")).toBe(true);
+    releaseConnection("deployment-1");
+    expect(getActiveConnections("deployment-1")).toBe(0);
+  });
+
+  it("tunnels upgrades to the runner", async () => {
+    const upstreamHeaders = vi.fn();
+    const runner = createServer();
+    runner.on("upgrade", (req, socket: Duplex) => {
+      upstreamHeaders(req.headers);
+      socket.write(
+        "HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n\r\n",
+      );
+      socket.pipe(socket);
+    });
+    servers.push(runner);
+    const runnerUrl = await listen(runner);
+
+    const { handleUpgrade, getActiveConnections } =
+      await loadWebSocketModule(runnerUrl);
+    getConfig.mockResolvedValue(config);
+    const gateway = createServer();
+    gateway.on("upgrade", handleUpgrade);
+    servers.push(gateway);
+    const gatewayUrl = await listen(gateway);
+
+    const [res, socket] = (await once(
+      upgradeRequest(gatewayUrl, "/api/socket"),
+      "upgrade",
+    )) as [{ statusCode: number }, Duplex];
+
+    expect(res.statusCode).toBe(101);
+    expect(upstreamHeaders).toHaveBeenCalledWith(
+      expect.objectContaining({
+        "x-origan-function-path": "deployments/deployment-1/api/ws.js",
+        "x-origan-route-pattern": "/api/socket",
+        "x-origan-route-params": "{}",
+        "x-origan-middleware-paths": "[]",
+      }),
+    );
+    expect(upstreamHeaders.mock.calls[0][0]).not.toHaveProperty(
+      "x-origan-memory-limit-mb",
+    );
+    expect(getActiveConnections("deployment-1")).toBe(1);
+
+    socket.write("ping");
+    const [echo] = await once(socket, "data");
+    expect(echo.toString()).toBe("ping");
+
+    socket.destroy();
+    await vi.waitFor(() =>
+      expect(getActiveConnections("deployment-1")).toBe(0),
+    );
+  });
+
+  it("rejects upgrades without a matching route", async () => {
+    const { handleUpgrade } = await loadWebSocketModule();
+    getConfig.mockResolvedValue(config);
+    const gateway = createServer();
+    gateway.on("upgrade", handleUpgrade);
+    servers.push(gateway);
+    const gatewayUrl = await listen(gateway);
+
+    const [res] = await once(
+      upgradeRequest(gatewayUrl, "/missing"),
+      "response",
+    );
+    expect(res.statusCode).toBe(404);
+  });
+
+  it("applies the domain redirects to upgrades", async () => {
+    const { handleUpgrade } = await loadWebSocketModule();
+    getConfig.mockResolvedValue({
+      ...config,
+      domain: {
+        forceHttps: false,
+        hstsMaxAge: null,
+        redirectTo: "www.example.com",
+      },
+    });
+    const gateway = createServer();
+    gateway.on("upgrade", handleUpgrade);
+    servers.push(gateway);
+    const gatewayUrl = await listen(gateway);
+
+    const [res] = await once(
+      upgradeRequest(gatewayUrl, "/api/socket"),
+      "response",
+    );
+    expect(res.statusCode).toBe(308);
+    expect(res.headers.location).toBe("http://www.example.com/api/socket");
+  });
+
+  it("rate limits upgrades", async () => {
+    const { handleUpgrade } = await loadWebSocketModule();
+    getConfig.mockResolvedValue({
+      ...config,
+      access: {
+        ipRules: [],
+        rateLimits: [
+          {
+            id: "limit-1",
+            requests: 1,
+            windowSeconds: 60,
+            keyHeader: null,
+            scope: "all",
+          },
+        ],
+      },
+    });
+    const gateway = createServer();
+    gateway.on("upgrade", handleUpgrade);
+    servers.push(gateway);
+    const gatewayUrl = await listen(gateway);
+
+    const [first] = await once(
+      upgradeRequest(gatewayUrl, "/missing"),
+      "response",
+    );
+    expect(first.statusCode).toBe(404);
+    const [second] = await once(
+      upgradeRequest(gatewayUrl, "/missing"),
+      "response",
+    );
+    expect(second.statusCode).toBe(429);
+    expect(second.headers["retry-after"]).toBeDefined();
+  });
+});
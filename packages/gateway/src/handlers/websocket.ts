@@ -0,0 +1,276 @@
+import {
+  request as httpRequest,
+  type IncomingMessage,
+  STATUS_CODES,
+} from "node:http";
+import { request as httpsRequest } from "node:https";
+import type { Socket } from "node:net";
+import type { Duplex } from "node:stream";
+import { envConfig } from "../config/index.js";
+import { getConfig } from "../services/configurations.js";
+import { getClientIp } from "../utils/ip.js";
+import { checkRateLimits, isIpAllowed } from "./access.js";
+import {
+  findBestDynamicRoute,
+  getMiddlewareHeaders,
+  getRouteHeaders,
+  withoutInternalHeaders,
+} from "./api.js";
+import { DOMAIN_REDIRECT_STATUS, getDomainRedirect } from "./domain.js";
+import { isProtectionSatisfied } from "./protection.js";
+import { selectDeployment } from "./traffic.js";
+
+const activeConnections = new Map<string, number>();
+
+/**
+ * Handles the `upgrade` event of the gateway servers: resolves the request
+ * against the deployment's dynamic routes and tunnels the socket to the
+ * runner, which hands it to the user worker.
+ */
+export async function handleUpgrade(
+  req: IncomingMessage,
+  socket: Duplex,
+  head: Buffer,
+) {
+  socket.on("error", (error) => {
+    console.error("WebSocket client socket error:", error);
+  });
+
+  try {
+    if (req.headers.upgrade?.toLowerCase() !== "websocket") {
+      return rejectUpgrade(socket, 400, "Unsupported upgrade");
+    }
+
+    const host = req.headers.host;
+    if (!host) {
+      return rejectUpgrade(socket, 400, "No host header found");
+    }
+
+    const result = await getConfig(host);
+    if (!result) {
+      return rejectUpgrade(socket, 404, "Domain configuration not found");
+    }
+
+    if (
+      result.access &&
+      !isIpAllowed(result.access, getClientIp(req, envConfig.trustProxy))
+    ) {
+      return rejectUpgrade(socket, 403, "Forbidden");
+    }
+    const retryAfterSeconds = checkRateLimits(req, result.access, "all");
+    if (retryAfterSeconds > 0) {
+      return rejectUpgrade(socket, 429, "Too many requests", [
+        "Retry-After",
+        String(retryAfterSeconds),
+      ]);
+    }
+    // WebSocket clients do not follow redirects, the upgrade fails like any
+    // request to a non canonical host would
+    const location = result.domain && getDomainRedirect(req, result.domain);
+    if (location) {
+      return rejectUpgrade(socket, DOMAIN_REDIRECT_STATUS, "Redirected", [
+        "Location",
+        location,
+      ]);
+    }
+    if (
+      result.protection &&
+      !isProtectionSatisfied(req, host, result.protection)
+    ) {
+      return rejectUpgrade(socket, 401, "Unauthorized");
+    }
+
+    // Upgrades cannot set the bucket cookie, the page that opens them has it
+    const { config, deploymentId } = selectDeployment(req, undefined, result);
+    const { projectId } = result;
+
+    const url = new URL(req.url || "/", "http://localhost");
+    const route = findBestDynamicRoute(config, url.pathname, "GET");
+    if (!route) {
+      return rejectUpgrade(socket, 404, "Not found");
+    }
+
+    // Upgrades always reach a function, so they count as dynamic requests
+    const dynamicRetryAfterSeconds = checkRateLimits(
+      req,
+      result.access,
+      "dynamic",
+    );
+    if (dynamicRetryAfterSeconds > 0) {
+      return rejectUpgrade(socket, 429, "Too many requests", [
+        "Retry-After",
+        String(dynamicRetryAfterSeconds),
+      ]);
+    }
+
+    if (!acquireConnection(deploymentId)) {
+      return rejectUpgrade(socket, 503, "Too many WebSocket connections");
+    }
+
+    // Both gateway servers hand over net sockets (TLS sockets extend them)
+    tunnelToRunner(req, socket as Socket, head, url, {
+      functionPath: `deployments/${deploymentId}/${route.resourcePath}`,
+      deploymentId,
+      projectId,
+      route: {
+        ...getRouteHeaders(url.pathname, route.urlPath),
+        ...getMiddlewareHeaders(deploymentId, route.middleware),
+      },
+    });
+  } catch (error) {
+    console.error("Error handling WebSocket upgrade:", error);
+    rejectUpgrade(socket, 500, "Internal server error");
+  }
+}
+
+export function acquireConnection(deploymentId: string) {
+  const count = activeConnections.get(deploymentId) ?? 0;
+  if (count >= envConfig.wsMaxConnectionsPerDeployment) {
+    return false;
+  }
+  activeConnections.set(deploymentId, count + 1);
+  return true;
+}
+
+export function releaseConnection(deploymentId: string) {
+  const count = activeConnections.get(deploymentId) ?? 0;
+  if (count <= 1) {
+    activeConnections.delete(deploymentId);
+  } else {
+    activeConnections.set(deploymentId, count - 1);
+  }
+}
+
+export function getActiveConnections(deploymentId: string) {
+  return activeConnections.get(deploymentId) ?? 0;
+}
+
+function tunnelToRunner(
+  req: IncomingMessage,
+  socket: Socket,
+  head: Buffer,
+  url: URL,
+  target: {
+    functionPath: string;
+    deploymentId: string;
+    projectId: string;
+    route: Record<string, string>;
+  },
+) {
+  let released = false;
+  const release = () => {
+    if (released) return;
+    released = true;
+    releaseConnection(target.deploymentId);
+  };
+  socket.once("close", release);
+
+  const runnerUrl = new URL(
+    `${url.pathname}${url.search}`,
+    envConfig.runnerUrl,
+  );
+  const request = runnerUrl.protocol === "https:" ? httpsRequest : httpRequest;
+  const upstreamReq = request(runnerUrl, {
+    method: "GET",
+    headers: {
+      ...withoutInternalHeaders(req.headers),
+      "x-origan-function-path": target.functionPath,
+      "x-origan-deployment-id": target.deploymentId,
+      "x-origan-project-id": target.projectId,
+      ...target.route,
+    },
+  });
+
+  upstreamReq.on("upgrade", (upstreamRes, upstreamSocket, upstreamHead) => {
+    if (socket.destroyed) {
+      upstreamSocket.destroy();
+      return;
+    }
+
+    socket.write(
+      formatResponseHead(101, "Switching Protocols", upstreamRes.rawHeaders),
+    );
+    if (upstreamHead.length > 0) {
+      socket.write(upstreamHead);
+    }
+    if (head.length > 0) {
+      upstreamSocket.write(head);
+    }
+
+    // Socket timeouts track inactivity in both directions
+    const closeIdle = () => {
+      console.log(
+        `WebSocket idle for ${envConfig.wsIdleTimeoutMs}ms, closing tunnel`,
+      );
+      socket.destroy();
+      upstreamSocket.destroy();
+    };
+    socket.setTimeout(envConfig.wsIdleTimeoutMs, closeIdle);
+    upstreamSocket.setTimeout(envConfig.wsIdleTimeoutMs, closeIdle);
+
+    upstreamSocket.on("error", (error) => {
+      console.error("WebSocket runner socket error:", error);
+    });
+    upstreamSocket.on("close", () => socket.destroy());
+    socket.on("close", () => upstreamSocket.destroy());
+
+    upstreamSocket.pipe(socket);
+    socket.pipe(upstreamSocket);
+  });
+
+  // The function refused the upgrade: relay its response as is
+  upstreamReq.on("response", (upstreamRes) => {
+    socket.write(
+      formatResponseHead(
+        upstreamRes.statusCode ?? 502,
+        upstreamRes.statusMessage ?? "",
+        upstreamRes.rawHeaders,
+      ),
+    );
+    upstreamRes.pipe(socket);
+  });
+
+  upstreamReq.on("error", (error) => {
+    console.error("Error opening WebSocket tunnel to runner:", error);
+    rejectUpgrade(socket, 502, "Bad gateway");
+  });
+
+  socket.once("close", () => upstreamReq.destroy());
+  upstreamReq.end();
+}
+
+export function formatResponseHead(
+  statusCode: number,
+  statusMessage: string,
+  rawHeaders: string[],
+) {
+  let head = `HTTP/1.1 ${statusCode} ${statusMessage}\r\n`;
+  for (let i = 0; i < rawHeaders.length; i += 2) {
+    head += `${rawHeaders[i]}: ${rawHeaders[i + 1]}\r\n`;
+  }
+  return `${head}\r\n`;
+}
+
+function rejectUpgrade(
+  socket: Duplex,
+  statusCode: number,
+  error: string,
+  rawHeaders: string[] = [],
+) {
+  if (!socket.writable) {
+    socket.destroy();
+    return;
+  }
+  const body = JSON.stringify({ error });
+  socket.end(
+    formatResponseHead(statusCode, STATUS_CODES[statusCode] ?? "", [
+      "Connection",
+      "close",
+      "Content-Type",
+      "application/json",
+      "Content-Length",
+      String(Buffer.byteLength(body)),
+      ...rawHeaders,
+    ]) + body,
+  );
+}
@@ -4,12 +4,26 @@ import {
   type ServerResponse,
 } from "node:http";
 import { envConfig } from "./config/index.js";
+import { handleIpRules, handleRateLimits } from "./handlers/access.js";
 import { handleAcmeChallenge } from "./handlers/acme.js";
-import { handleApiRoute } from "./handlers/api.js";
+import { findBestDynamicRoute, handleApiRoute } from "./handlers/api.js";
+import { handleDomainPolicy } from "./handlers/domain.js";
+import { applyHeaderRules } from "./handlers/headers.js";
 import { handleHealthCheck } from "./handlers/health.js";
+import {
+  handleProtection,
+  keepProtectedPrivate,
+} from "./handlers/protection.js";
+import { handleRules } from "./handlers/rules.js";
 import { handleStaticFile } from "./handlers/static.js";
+import { selectDeployment } from "./handlers/traffic.js";
+import { handleUpgrade } from "./handlers/websocket.js";
 import { createHttpsServer } from "./server/https.js";
+import { recordAccess } from "./services/access-logs.js";
 import { getConfig } from "./services/configurations.js";
+import { startConfigInvalidationListener } from "./services/invalidations.js";
+import { handleMetrics, recordRequestMetrics } from "./services/metrics.js";
+import { traceRequest, withSpan } from "./services/tracing.js";
 import { s3Client } from "./utils/s3.js";
 
 // Create ACME challenge handler
@@ -17,15 +31,20 @@ const acmeHandler = handleAcmeChallenge(s3Client, envConfig.bucketName);
 
 console.log("ACME challenge handler initialized");
 
+startConfigInvalidationListener().catch((error) => {
+  console.error("Failed to start config invalidation listener:", error);
+});
+
 // Main request handler
 async function handleRequest(req: IncomingMessage, res: ServerResponse) {
+  const requestMetrics = recordRequestMetrics(res);
   try {
     // Health check
     if (await handleHealthCheck(req, res)) {
       return;
     }
 
-    // ACME challenge
+    // ACME challenge, answered over HTTP whatever the domain settings
     if (await acmeHandler(req, res)) {
       return;
     }
@@ -44,7 +63,9 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse) {
 
     console.log("Domain:", domain);
 
-    const result = await getConfig(domain);
+    const result = await withSpan("gateway.config_lookup", { domain }, () =>
+      getConfig(domain),
+    );
 
     if (!result) {
       res.writeHead(404, { "Content-Type": "application/json" });
@@ -53,12 +74,71 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse) {
       );
     }
 
-    const { config, deploymentId, projectId } = result;
+    requestMetrics.routeType = "static";
+    const accessLog = recordAccess(req, res, {
+      host: domain,
+      projectId: result.projectId,
+      deploymentId: result.deploymentId,
+    });
+
+    // A running canary serves part of the visitors from another deployment
+    const { config, deploymentId } = selectDeployment(req, res, result);
+    const { projectId } = result;
+    accessLog.deploymentId = deploymentId;
+
     const url = new URL(req.url || "/", "http://localhost");
-    const path = url.pathname;
+
+    // Protected tracks are never cached or indexed, whatever the handlers
+    // and header rules set
+    if (result.protection) {
+      keepProtectedPrivate(res);
+    }
+
+    // Header rules match the requested path, whichever handler responds,
+    // including the access, domain and protection responses below
+    applyHeaderRules(res, config, url.pathname);
+
+    // IP allow/deny lists and rate limits of the project and track
+    if (
+      handleIpRules(req, res, result.access) ||
+      handleRateLimits(req, res, result.access, "all")
+    ) {
+      return;
+    }
+
+    // HTTPS and primary domain redirects happen before anything is served
+    if (handleDomainPolicy(req, res, result.domain)) {
+      return;
+    }
+
+    // Password or bypass token protection of the track, before any content
+    if (await handleProtection(req, res, domain, result.protection)) {
+      return;
+    }
+
+    // Redirect and rewrite rules run before resource resolution
+    const { handled, path } = await handleRules(req, res, url, config);
+    if (handled) {
+      return;
+    }
+
+    // Functions can have their own, stricter, rate limits
+    const dynamicRoute = findBestDynamicRoute(config, path, req.method);
+    if (dynamicRoute && handleRateLimits(req, res, result.access, "dynamic")) {
+      return;
+    }
+    accessLog.source = dynamicRoute ? "dynamic" : "static";
+    requestMetrics.routeType = accessLog.source;
 
     // Handle API routes
-    if (await handleApiRoute(req, res, path, config, deploymentId, projectId)) {
+    if (
+      await handleApiRoute(req, res, path, config, {
+        deploymentId,
+        projectId,
+        host: domain,
+        accessLog,
+      })
+    ) {
       return;
     }
 
@@ -71,11 +151,23 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse) {
   }
 }
 
+// Every request is traced, continuing the trace of the caller if any
+function serveRequest(req: IncomingMessage, res: ServerResponse) {
+  return traceRequest(req, res, () => handleRequest(req, res));
+}
+
 // Start HTTP server
-const httpServer = createServer(handleRequest);
+const httpServer = createServer(serveRequest);
+httpServer.on("upgrade", handleUpgrade);
 httpServer.listen(7777, () => console.log("HTTP Server is running on 7777"));
 
+// Metrics are served on their own port, away from the deployments' paths
+const metricsServer = createServer(handleMetrics);
+metricsServer.listen(envConfig.metricsPort, () =>
+  console.log(`Metrics server is running on ${envConfig.metricsPort}`),
+);
+
 if (envConfig.hasTlsServer) {
   // Start HTTPS server with dynamic certificate loading via SNI
-  createHttpsServer(handleRequest);
+  createHttpsServer(serveRequest, handleUpgrade);
 }
@@ -0,0 +1,29 @@
+import { NatsClient } from "@origan/nats";
+import { envConfig } from "../config/index.js";
+
+let natsClientPromise: Promise<NatsClient> | null = null;
+
+/**
+ * NATS client shared by the invalidation listener and the access logs.
+ * Null when EVENTS_NATS_SERVER is not set.
+ */
+export function getNatsClient(): Promise<NatsClient> | null {
+  if (!envConfig.eventsNatsServer) {
+    return null;
+  }
+  if (!natsClientPromise) {
+    const client = new NatsClient({
+      server: envConfig.eventsNatsServer,
+      nkeyCreds: envConfig.eventsNatsNkeyCreds,
+    });
+    natsClientPromise = client
+      .connect()
+      .then(() => client)
+      .catch((error) => {
+        // Allow the next caller to retry the connection
+        natsClientPromise = null;
+        throw error;
+      });
+  }
+  return natsClientPromise;
+}
@@ -1,16 +1,30 @@
 import type { AppRouter } from "@origan/control-api/src/trpc/router";
 import { createTRPCClient, httpLink, type TRPCClient } from "@trpc/client";
 import superjson from "superjson";
+import { getTraceparent, TRACEPARENT_HEADER } from "../services/tracing.js";
 
 if (!process.env.CONTROL_API_URL) {
   throw new Error("CONTROL_API_URL is not defined");
 }
+if (!process.env.GATEWAY_TOKEN) {
+  throw new Error("GATEWAY_TOKEN is not defined");
+}
+const gatewayToken = process.env.GATEWAY_TOKEN;
 
 export const trpc: TRPCClient<AppRouter> = createTRPCClient<AppRouter>({
   links: [
     httpLink({
       url: `${process.env.CONTROL_API_URL}/trpc`,
       transformer: superjson,
+      // Continues the gateway trace in control-api, e.g. for config lookups.
+      // Domain configs are only served to requests with the gateway token.
+      headers: () => {
+        const traceparent = getTraceparent();
+        return {
+          "x-origan-gateway-token": gatewayToken,
+          ...(traceparent ? { [TRACEPARENT_HEADER]: traceparent } : {}),
+        };
+      },
     }),
   ],
 });
@@ -1,13 +1,19 @@
-import type { RequestListener } from "node:http";
-import { createServer } from "node:https";
-import type { SecureContextOptions, SecureVersion } from "node:tls";
+import { type FSWatcher, watch } from "node:fs";
+import type { IncomingMessage, RequestListener } from "node:http";
+import { createServer, type Server } from "node:https";
+import { basename, dirname } from "node:path";
+import type { Duplex } from "node:stream";
 import { createSecureContext } from "node:tls";
 import { envConfig } from "../config/index.js";
 import {
-  getCertificate,
+  type CertificateData,
   loadMainCertificateFromFiles,
 } from "../services/certificates.js";
-import { s3Client } from "../utils/s3.js";
+import { getSecureContext } from "../services/secure-contexts.js";
+import { baseTlsConfig } from "./tls.js";
+
+// Wait for cert-manager to finish swapping the files before reloading
+const CERT_RELOAD_DEBOUNCE_MS = 1000;
 
 // Load the main wildcard certificate
 let mainSecureContext: ReturnType<typeof createSecureContext> | undefined;
@@ -25,12 +31,7 @@ const initializeMainCertificate = async (
       throw new Error("Failed to load main certificate");
     }
 
-    mainSecureContext = createSecureContext({
-      ...baseTlsConfig,
-      cert: mainCert.certificate,
-      key: mainCert.privateKey,
-      ca: mainCert.chain,
-    });
+    mainSecureContext = createSecureContext(toSecureContextOptions(mainCert));
 
     return;
   } catch (error) {
@@ -57,58 +58,89 @@ const initializeMainCertificate = async (
   }
 };
 
-interface TlsConfig extends SecureContextOptions {
-  minVersion: SecureVersion;
-  ciphers: string;
-}
+const toSecureContextOptions = (certData: CertificateData) => ({
+  ...baseTlsConfig,
+  cert: certData.certificate,
+  key: certData.privateKey,
+  ca: certData.chain,
+});
 
-// TLS base configuration without certificates
-const baseTlsConfig: TlsConfig = {
-  minVersion: "TLSv1.2" as SecureVersion,
-  ciphers: [
-    // Modern cipher suites for TLS 1.2 and 1.3
-    "TLS_AES_128_GCM_SHA256",
-    "TLS_AES_256_GCM_SHA384",
-    "TLS_CHACHA20_POLY1305_SHA256",
-    "ECDHE-ECDSA-AES128-GCM-SHA256",
-    "ECDHE-RSA-AES128-GCM-SHA256",
-    "ECDHE-ECDSA-AES256-GCM-SHA384",
-    "ECDHE-RSA-AES256-GCM-SHA384",
-    "ECDHE-ECDSA-CHACHA20-POLY1305",
-    "ECDHE-RSA-CHACHA20-POLY1305",
-  ].join(":"),
-};
-
-// SNI callback to dynamically load certificates
+// SNI callback resolving custom domain certificates through the cache
 const sniCallback = async (
   servername: string,
   cb: (err: Error | null, ctx?: ReturnType<typeof createSecureContext>) => void,
 ) => {
   try {
-    const certData = await getCertificate(
-      s3Client,
-      envConfig.bucketName,
-      servername,
-    );
-    if (!certData) {
+    const context = await getSecureContext(servername);
+    if (!context) {
       console.error(`No certificate found for domain: ${servername}`);
       return cb(new Error(`No certificate found for domain: ${servername}`));
     }
 
-    const context = createSecureContext({
-      ...baseTlsConfig,
-      cert: certData.certificate,
-      key: certData.privateKey,
-      ca: certData.chain,
-    });
-
     cb(null, context);
   } catch (error) {
     console.error(`Error loading certificate for ${servername}:`, error);
     cb(error as Error);
   }
 };
-export async function createHttpsServer(handler: RequestListener) {
+
+/**
+ * Reloads the main wildcard certificate when cert-manager rotates it.
+ * Secret volumes are updated by swapping a symlink, so the directories
+ * are watched rather than the files themselves.
+ */
+const watchMainCertificate = (server: Server): FSWatcher[] => {
+  const watchedFiles = new Set([
+    basename(envConfig.tlsCertFile),
+    basename(envConfig.tlsKeyFile),
+  ]);
+  let reloadTimer: NodeJS.Timeout | undefined;
+
+  const reload = async () => {
+    const mainCert = await loadMainCertificateFromFiles();
+    if (!mainCert) {
+      console.error("Main certificate reload failed, keeping current one");
+      return;
+    }
+    try {
+      const options = toSecureContextOptions(mainCert);
+      mainSecureContext = createSecureContext(options);
+      // Default context for clients that do not send SNI
+      server.setSecureContext(options);
+      console.log("Main certificate reloaded");
+    } catch (error) {
+      console.error("Invalid main certificate, keeping current one:", error);
+    }
+  };
+
+  const directories = new Set([
+    dirname(envConfig.tlsCertFile),
+    dirname(envConfig.tlsKeyFile),
+  ]);
+  return [...directories].map((directory) => {
+    const watcher = watch(directory, (_event, filename) => {
+      // Symlink swaps show up as changes to other entries (e.g. `..data`)
+      if (
+        filename &&
+        !watchedFiles.has(filename) &&
+        !filename.startsWith("..")
+      ) {
+        return;
+      }
+      clearTimeout(reloadTimer);
+      reloadTimer = setTimeout(reload, CERT_RELOAD_DEBOUNCE_MS);
+    });
+    watcher.on("error", (error) => {
+      console.error(`Error watching certificates in ${directory}:`, error);
+    });
+    return watcher;
+  });
+};
+
+export async function createHttpsServer(
+  handler: RequestListener,
+  upgradeHandler?: (req: IncomingMessage, socket: Duplex, head: Buffer) => void,
+) {
   console.log("Creating HTTPS server...");
   // Initialize main certificate before starting the server
   await initializeMainCertificate();
@@ -142,6 +174,17 @@ export async function createHttpsServer(handler: RequestListener) {
     handler,
   );
 
+  if (upgradeHandler) {
+    server.on("upgrade", upgradeHandler);
+  }
+
+  const watchers = watchMainCertificate(server);
+  server.on("close", () => {
+    for (const watcher of watchers) {
+      watcher.close();
+    }
+  });
+
   server.listen(7778, () => {
     console.log("HTTPS Server is running on port 7778");
   });
@@ -0,0 +1,23 @@
+import type { SecureContextOptions, SecureVersion } from "node:tls";
+
+interface TlsConfig extends SecureContextOptions {
+  minVersion: SecureVersion;
+  ciphers: string;
+}
+
+// TLS base configuration without certificates
+export const baseTlsConfig: TlsConfig = {
+  minVersion: "TLSv1.2" as SecureVersion,
+  ciphers: [
+    // Modern cipher suites for TLS 1.2 and 1.3
+    "TLS_AES_128_GCM_SHA256",
+    "TLS_AES_256_GCM_SHA384",
+    "TLS_CHACHA20_POLY1305_SHA256",
+    "ECDHE-ECDSA-AES128-GCM-SHA256",
+    "ECDHE-RSA-AES128-GCM-SHA256",
+    "ECDHE-ECDSA-AES256-GCM-SHA384",
+    "ECDHE-RSA-AES256-GCM-SHA384",
+    "ECDHE-ECDSA-CHACHA20-POLY1305",
+    "ECDHE-RSA-CHACHA20-POLY1305",
+  ].join(":"),
+};
@@ -0,0 +1,105 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const publishAccessLogs = vi.fn();
+
+vi.mock("../libs/nats.js", () => ({
+  getNatsClient: () => Promise.resolve({ publisher: { publishAccessLogs } }),
+}));
+
+function setGatewayEnv() {
+  process.env.ORIGAN_DEPLOY_DOMAIN = "example.com";
+  process.env.RUNNER_URL = "http://runner";
+  process.env.BUCKET_URL = "http://bucket";
+  process.env.BUCKET_ACCESS_KEY = "test";
+  process.env.BUCKET_SECRET_KEY = "test";
+  process.env.TLS_CERT_FILE = "/tmp/cert.pem";
+  process.env.TLS_KEY_FILE = "/tmp/key.pem";
+  process.env.EVENTS_NATS_SERVER = "nats://localhost:4222";
+}
+
+async function loadAccessLogsModule() {
+  setGatewayEnv();
+  vi.resetModules();
+  return await import("./access-logs.js");
+}
+
+describe("gateway access logs", () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    publishAccessLogs.mockReset();
+    if (server) {
+      await new Promise((resolve) => server?.close(resolve));
+      server = undefined;
+    }
+  });
+
+  it("publishes one event per response with the final source and deployment", async () => {
+    const { flushAccessLogs, recordAccess } = await loadAccessLogsModule();
+    server = createServer((req, res) => {
+      const entry = recordAccess(req, res, {
+        host: "site.example.com",
+        projectId: "project-1",
+        deploymentId: "stable",
+      });
+      entry.deploymentId = "canary";
+      entry.source = "dynamic";
+      res.writeHead(201, { "Content-Type": "text/plain" });
+      res.end("hello");
+    });
+    await new Promise<void>((resolve) => server?.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+
+    await (await fetch(`http://127.0.0.1:${port}/api/users?page=2`)).text();
+    await vi.waitFor(async () => {
+      await flushAccessLogs();
+      expect(publishAccessLogs).toHaveBeenCalledTimes(1);
+    });
+
+    const [batch] = publishAccessLogs.mock.calls[0];
+    expect(batch.events).toEqual([
+      expect.objectContaining({
+        host: "site.example.com",
+        projectId: "project-1",
+        deploymentId: "canary",
+        method: "GET",
+        path: "/api/users",
+        status: 201,
+        source: "dynamic",
+      }),
+    ]);
+    // Headers included
+    expect(batch.events[0].bytes).toBeGreaterThan("hello".length);
+  });
+
+  it("drops batches that cannot be published", async () => {
+    const { flushAccessLogs, recordAccess } = await loadAccessLogsModule();
+    publishAccessLogs.mockRejectedValueOnce(new Error("NATS unavailable"));
+    const consoleError = vi
+      .spyOn(console, "error")
+      .mockImplementation(() => {});
+    server = createServer((req, res) => {
+      recordAccess(req, res, {
+        host: "site.example.com",
+        projectId: "project-1",
+        deploymentId: "stable",
+      });
+      res.end();
+    });
+    await new Promise<void>((resolve) => server?.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+
+    await (await fetch(`http://127.0.0.1:${port}/`)).text();
+    await vi.waitFor(async () => {
+      await flushAccessLogs();
+      expect(publishAccessLogs).toHaveBeenCalledTimes(1);
+    });
+    await flushAccessLogs();
+
+    expect(publishAccessLogs).toHaveBeenCalledTimes(1);
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,107 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { AccessLogEvent, AccessLogSource } from "@origan/nats";
+import { envConfig } from "../config/index.js";
+import { getNatsClient } from "../libs/nats.js";
+
+// Keeps messages well below the default NATS max payload (1MB)
+const MAX_EVENTS_PER_BATCH = 500;
+const MAX_PATH_LENGTH = 1024;
+
+export type AccessLogEntry = {
+  deploymentId: string;
+  source: AccessLogSource;
+};
+
+const pendingEvents: AccessLogEvent[] = [];
+let flushTimer: NodeJS.Timeout | null = null;
+let droppedEvents = 0;
+
+/**
+ * Records an access event once the response is done. The returned entry
+ * is read at that point, so handlers can update the deployment and source
+ * (answered by the gateway itself until told otherwise) meanwhile.
+ * Bytes are counted on the socket and include the response headers.
+ */
+export function recordAccess(
+  req: IncomingMessage,
+  res: ServerResponse,
+  context: { host: string; projectId: string; deploymentId: string },
+): AccessLogEntry {
+  const entry: AccessLogEntry = {
+    deploymentId: context.deploymentId,
+    source: "gateway",
+  };
+  if (!envConfig.eventsNatsServer) {
+    return entry;
+  }
+
+  const startedAt = performance.now();
+  const socket = req.socket;
+  const initialBytes = socket.bytesWritten;
+
+  res.once("close", () => {
+    enqueueEvent({
+      timestamp: new Date().toISOString(),
+      host: context.host,
+      projectId: context.projectId,
+      deploymentId: entry.deploymentId,
+      method: req.method ?? "GET",
+      path: (req.url ?? "/").split("?")[0].slice(0, MAX_PATH_LENGTH),
+      status: res.statusCode,
+      bytes: socket.bytesWritten - initialBytes,
+      durationMs: Math.round(performance.now() - startedAt),
+      source: entry.source,
+    });
+  });
+
+  return entry;
+}
+
+function enqueueEvent(event: AccessLogEvent) {
+  if (pendingEvents.length >= envConfig.accessLogMaxBufferedEvents) {
+    droppedEvents++;
+    return;
+  }
+  pendingEvents.push(event);
+
+  if (pendingEvents.length >= MAX_EVENTS_PER_BATCH) {
+    void flushAccessLogs();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(() => {
+      void flushAccessLogs();
+    }, envConfig.accessLogFlushIntervalMs);
+    flushTimer.unref();
+  }
+}
+
+/**
+ * Publishes the buffered events. Failed batches are dropped rather than
+ * retried, analytics must never put the gateway memory at risk.
+ */
+export async function flushAccessLogs() {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+
+  const pendingClient = getNatsClient();
+  while (pendingEvents.length > 0) {
+    const events = pendingEvents.splice(0, MAX_EVENTS_PER_BATCH);
+    try {
+      const natsClient = await pendingClient;
+      await natsClient?.publisher.publishAccessLogs({
+        timestamp: new Date().toISOString(),
+        events,
+      });
+    } catch (error) {
+      console.error(`Dropping ${events.length} access log events:`, error);
+    }
+  }
+
+  if (droppedEvents > 0) {
+    console.warn(
+      `Dropped ${droppedEvents} access log events, the buffer was full`,
+    );
+    droppedEvents = 0;
+  }
+}
@@ -0,0 +1,214 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Readable } from "node:stream";
+import { text } from "node:stream/consumers";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Config } from "../types/config.js";
+
+const streamFromS3 = vi.fn();
+
+vi.mock("../utils/s3.js", () => ({
+  RangeNotSatisfiableError: class RangeNotSatisfiableError extends Error {},
+  streamFromS3,
+}));
+
+function setGatewayEnv() {
+  process.env.ORIGAN_DEPLOY_DOMAIN = "example.com";
+  process.env.RUNNER_URL = "http://runner";
+  process.env.BUCKET_URL = "http://bucket";
+  process.env.BUCKET_ACCESS_KEY = "test";
+  process.env.BUCKET_SECRET_KEY = "test";
+  process.env.TLS_CERT_FILE = "/tmp/cert.pem";
+  process.env.TLS_KEY_FILE = "/tmp/key.pem";
+}
+
+async function loadAssetCacheModule(env: Record<string, string> = {}) {
+  setGatewayEnv();
+  Object.assign(process.env, env);
+  vi.resetModules();
+  return await import("./asset-cache.js");
+}
+
+function storedObject(body: string) {
+  return {
+    stream: Readable.from([Buffer.from(body)]),
+    contentLength: Buffer.byteLength(body),
+    contentType: "text/plain",
+    etag: '"etag"',
+  };
+}
+
+describe("gateway static asset cache", () => {
+  const cacheEnvKeys = [
+    "ASSET_CACHE_MEMORY_BYTES",
+    "ASSET_CACHE_MEMORY_MAX_OBJECT_BYTES",
+    "ASSET_CACHE_DIR",
+  ];
+
+  afterEach(() => {
+    streamFromS3.mockReset();
+    for (const key of cacheEnvKeys) {
+      delete process.env[key];
+    }
+  });
+
+  it("serves repeated reads from memory", async () => {
+    const { getAsset } = await loadAssetCacheModule();
+    streamFromS3.mockResolvedValue(storedObject("hello"));
+
+    const first = await getAsset("deployment-1", "app/index.html");
+    const second = await getAsset("deployment-1", "app/index.html");
+
+    expect(await text(first?.stream as Readable)).toBe("hello");
+    expect(await text(second?.stream as Readable)).toBe("hello");
+    expect(second?.etag).toBe('"etag"');
+    expect(streamFromS3).toHaveBeenCalledTimes(1);
+    expect(streamFromS3).toHaveBeenCalledWith(
+      "deployments/deployment-1/app/index.html",
+    );
+  });
+
+  it("coalesces concurrent misses into one storage request", async () => {
+    const { getAsset } = await loadAssetCacheModule();
+    streamFromS3.mockImplementation(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return storedObject("shared");
+    });
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => getAsset("deployment-1", "app.js")),
+    );
+
+    expect(streamFromS3).toHaveBeenCalledTimes(1);
+    for (const result of results) {
+      expect(await text(result?.stream as Readable)).toBe("shared");
+    }
+  });
+
+  it("slices ranges out of cached assets", async () => {
+    const { getAsset } = await loadAssetCacheModule();
+    streamFromS3.mockResolvedValue(storedObject("0123456789"));
+    await getAsset("deployment-1", "video.mp4");
+
+    const partial = await getAsset("deployment-1", "video.mp4", {
+      range: "bytes=2-4",
+    });
+    expect(await text(partial?.stream as Readable)).toBe("234");
+    expect(partial?.contentRange).toBe("bytes 2-4/10");
+    expect(partial?.contentLength).toBe(3);
+
+    const suffix = await getAsset("deployment-1", "video.mp4", {
+      range: "bytes=-3",
+    });
+    expect(suffix?.contentRange).toBe("bytes 7-9/10");
+
+    await expect(
+      getAsset("deployment-1", "video.mp4", { range: "bytes=20-" }),
+    ).rejects.toThrow();
+    expect(streamFromS3).toHaveBeenCalledTimes(1);
+  });
+
+  it("evicts the least recently used assets past the memory budget", async () => {
+    const { getAsset } = await loadAssetCacheModule({
+      ASSET_CACHE_MEMORY_BYTES: "10",
+    });
+    streamFromS3.mockImplementation(async () => storedObject("12345"));
+
+    await getAsset("deployment-1", "a.txt");
+    await getAsset("deployment-1", "b.txt");
+    await getAsset("deployment-1", "a.txt");
+    await getAsset("deployment-1", "c.txt");
+    expect(streamFromS3).toHaveBeenCalledTimes(3);
+
+    await getAsset("deployment-1", "a.txt");
+    expect(streamFromS3).toHaveBeenCalledTimes(3);
+    await getAsset("deployment-1", "b.txt");
+    expect(streamFromS3).toHaveBeenCalledTimes(4);
+  });
+
+  it("keeps assets too large for memory on disk", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "asset-cache-"));
+    try {
+      const { getAsset } = await loadAssetCacheModule({
+        ASSET_CACHE_MEMORY_MAX_OBJECT_BYTES: "4",
+        ASSET_CACHE_DIR: dir,
+      });
+      streamFromS3.mockResolvedValue(storedObject("large asset"));
+
+      await getAsset("deployment-1", "large.bin");
+      expect(await readdir(join(dir, "origan-assets"))).toHaveLength(1);
+
+      const partial = await getAsset("deployment-1", "large.bin", {
+        range: "bytes=6-",
+      });
+      expect(await text(partial?.stream as Readable)).toBe("asset");
+      expect(streamFromS3).toHaveBeenCalledTimes(1);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("fills the disk cache whatever the pace of the first client", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "asset-cache-"));
+    try {
+      const { getAsset } = await loadAssetCacheModule({
+        ASSET_CACHE_MEMORY_MAX_OBJECT_BYTES: "4",
+        ASSET_CACHE_DIR: dir,
+      });
+      // Larger than the stream buffers, a client that never reads would
+      // stall a fill going through its response
+      const body = "x".repeat(1024 * 1024);
+      streamFromS3.mockResolvedValue(storedObject(body));
+
+      const [stalled, ...others] = await Promise.all(
+        Array.from({ length: 3 }, () => getAsset("deployment-1", "large.bin")),
+      );
+
+      expect(stalled?.contentLength).toBe(body.length);
+      for (const result of others) {
+        expect(await text(result?.stream as Readable)).toBe(body);
+      }
+      expect(streamFromS3).toHaveBeenCalledTimes(1);
+      stalled?.stream.destroy();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("prewarms the index and the hottest assets of the previous deployment", async () => {
+    const { getAsset, prewarmDeployment } = await loadAssetCacheModule();
+    streamFromS3.mockImplementation(async () => storedObject("asset"));
+
+    await getAsset("deployment-1", "assets/app.js");
+    await getAsset("deployment-1", "assets/app.js");
+    await getAsset("deployment-1", "assets/removed.js");
+    streamFromS3.mockClear();
+
+    const config: Config = {
+      version: 1,
+      resources: [
+        {
+          kind: "static",
+          urlPath: "/index.html",
+          resourcePath: "index.html",
+          encodings: { br: "index.html.br" },
+        },
+        {
+          kind: "static",
+          urlPath: "/assets/app.js",
+          resourcePath: "assets/app.js",
+        },
+        { kind: "static", urlPath: "/cold.js", resourcePath: "cold.js" },
+      ],
+    };
+    await prewarmDeployment("deployment-2", config, "deployment-1");
+
+    const warmedKeys = streamFromS3.mock.calls.map(([key]) => key).sort();
+    expect(warmedKeys).toEqual([
+      "deployments/deployment-2/assets/app.js",
+      "deployments/deployment-2/index.html",
+      "deployments/deployment-2/index.html.br",
+    ]);
+  });
+});
@@ -0,0 +1,352 @@
+import { createHash } from "node:crypto";
+import { createReadStream, createWriteStream } from "node:fs";
+import { mkdir, rename, rm, stat, unlink } from "node:fs/promises";
+import { join } from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { envConfig } from "../config/index.js";
+import type { Config } from "../types/config.js";
+import { LruCache, SizedLruCache } from "../utils/lru.js";
+import {
+  RangeNotSatisfiableError,
+  type StoredObject,
+  streamFromS3,
+} from "../utils/s3.js";
+
+type AssetMetadata = {
+  contentLength: number;
+  contentType?: string;
+  etag?: string;
+  lastModified?: Date;
+};
+
+type MemoryAsset = AssetMetadata & { body: Buffer };
+type DiskAsset = AssetMetadata & { file: string };
+type CachedAsset = MemoryAsset | DiskAsset;
+
+// Per deployment hit counters, used to pick the assets warmed on promotion
+const MAX_TRACKED_DEPLOYMENTS = 1000;
+const MAX_TRACKED_PATHS = 1000;
+
+// Shared with concurrent misses, UNCACHEABLE makes them fetch on their own
+const UNCACHEABLE = Symbol("uncacheable");
+type PendingLoad = Promise<CachedAsset | null | typeof UNCACHEABLE>;
+
+const memoryCache = new SizedLruCache<string, MemoryAsset>(
+  envConfig.assetCacheMemoryBytes,
+  (asset) => asset.contentLength,
+);
+const diskCache = new SizedLruCache<string, DiskAsset>(
+  envConfig.assetCacheDiskBytes,
+  (asset) => asset.contentLength,
+  (_key, asset) => {
+    unlink(asset.file).catch(() => {});
+  },
+);
+const pendingLoads = new Map<string, PendingLoad>();
+const assetHits = new LruCache<string, Map<string, number>>(
+  MAX_TRACKED_DEPLOYMENTS,
+);
+
+// Files of a previous process are not indexed: start from an empty directory
+const diskDir = envConfig.assetCacheDir
+  ? join(envConfig.assetCacheDir, "origan-assets")
+  : null;
+const diskReady = diskDir
+  ? rm(diskDir, { recursive: true, force: true })
+      .then(() => mkdir(diskDir, { recursive: true }))
+      .then(() => true)
+      .catch((error) => {
+        console.error("Asset disk cache disabled:", error);
+        return false;
+      })
+  : Promise.resolve(false);
+
+export function getAssetKey(deploymentId: string, resourcePath: string) {
+  return `deployments/${deploymentId}/${resourcePath}`;
+}
+
+/**
+ * Reads a deployment file, from the cache when possible. Deployment files
+ * never change, so cached entries are only evicted for space. Concurrent
+ * misses share a single storage request, ranges of uncached files are
+ * fetched directly.
+ */
+export async function getAsset(
+  deploymentId: string,
+  resourcePath: string,
+  options: { range?: string } = {},
+): Promise<StoredObject | null> {
+  const key = getAssetKey(deploymentId, resourcePath);
+  recordHit(deploymentId, resourcePath);
+
+  const cached = lookup(key);
+  if (cached) {
+    return toStoredObject(key, cached, options.range);
+  }
+  if (options.range) {
+    return streamFromS3(key, { range: options.range });
+  }
+
+  const pending = pendingLoads.get(key);
+  if (pending) {
+    const shared = await pending;
+    if (shared === UNCACHEABLE) {
+      return streamFromS3(key);
+    }
+    return shared && toStoredObject(key, shared);
+  }
+
+  let settle: (value: CachedAsset | null | typeof UNCACHEABLE) => void =
+    () => {};
+  pendingLoads.set(
+    key,
+    new Promise((resolve) => {
+      settle = resolve;
+    }),
+  );
+
+  try {
+    const object = await streamFromS3(key);
+    if (!object) {
+      settle(null);
+      return null;
+    }
+    if (!isCacheable(object)) {
+      settle(UNCACHEABLE);
+      return object;
+    }
+
+    // Read at the storage's pace, whatever the speed of the client
+    const asset = await store(key, object);
+    if (!asset) {
+      settle(UNCACHEABLE);
+      return streamFromS3(key);
+    }
+    settle(asset);
+    return toStoredObject(key, asset);
+  } catch (error) {
+    settle(UNCACHEABLE);
+    throw error;
+  } finally {
+    pendingLoads.delete(key);
+  }
+}
+
+/**
+ * Loads the `index.html` of a newly promoted deployment and the assets
+ * most requested from the deployment it replaces, so the first visitors
+ * do not all miss the cache at once.
+ */
+export async function prewarmDeployment(
+  deploymentId: string,
+  config: Config,
+  previousDeploymentId?: string,
+) {
+  const resourcePaths = new Set<string>();
+  const staticResources = config.resources.filter(
+    (resource) => resource.kind === "static",
+  );
+
+  const index = staticResources.find(
+    (resource) => resource.urlPath === "/index.html",
+  );
+  if (index) {
+    resourcePaths.add(index.resourcePath);
+  }
+
+  const previousHits = previousDeploymentId
+    ? assetHits.peek(previousDeploymentId)
+    : undefined;
+  if (previousHits) {
+    const available = new Set(
+      staticResources.map((resource) => resource.resourcePath),
+    );
+    const hottest = [...previousHits.entries()]
+      .filter(([resourcePath]) => available.has(resourcePath))
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, envConfig.assetCachePrewarmCount);
+    for (const [resourcePath] of hottest) {
+      resourcePaths.add(resourcePath);
+    }
+  }
+
+  // Precompressed variants are what most browsers end up requesting
+  for (const resource of staticResources) {
+    if (resourcePaths.has(resource.resourcePath)) {
+      for (const encodedPath of Object.values(resource.encodings ?? {})) {
+        if (encodedPath) resourcePaths.add(encodedPath);
+      }
+    }
+  }
+
+  let warmed = 0;
+  for (const resourcePath of resourcePaths) {
+    try {
+      const object = await getAsset(deploymentId, resourcePath);
+      if (object) {
+        object.stream.resume();
+        warmed++;
+      }
+    } catch (error) {
+      console.warn(`Failed to prewarm ${resourcePath}:`, error);
+    }
+  }
+  console.log(`Prewarmed ${warmed} assets of deployment ${deploymentId}`);
+}
+
+export function clearAssetCache() {
+  memoryCache.clear();
+  diskCache.clear();
+  assetHits.clear();
+}
+
+function recordHit(deploymentId: string, resourcePath: string) {
+  let hits = assetHits.get(deploymentId);
+  if (!hits) {
+    hits = new Map();
+    assetHits.set(deploymentId, hits);
+  }
+  const count = hits.get(resourcePath);
+  if (count !== undefined) {
+    hits.set(resourcePath, count + 1);
+  } else if (hits.size < MAX_TRACKED_PATHS) {
+    hits.set(resourcePath, 1);
+  }
+}
+
+function lookup(key: string): CachedAsset | undefined {
+  return memoryCache.get(key) ?? diskCache.get(key);
+}
+
+function isCacheable(object: StoredObject) {
+  const maxObjectBytes = Math.max(
+    Math.min(
+      envConfig.assetCacheMemoryMaxObjectBytes,
+      envConfig.assetCacheMemoryBytes,
+    ),
+    diskDir
+      ? Math.min(
+          envConfig.assetCacheDiskMaxObjectBytes,
+          envConfig.assetCacheDiskBytes,
+        )
+      : 0,
+  );
+  return (
+    object.contentLength !== undefined && object.contentLength <= maxObjectBytes
+  );
+}
+
+/**
+ * Reads a storage object into the cache: in memory when small enough,
+ * streamed to the disk cache otherwise, never whole in memory. Returns
+ * null when the object could not be kept.
+ */
+async function store(
+  key: string,
+  object: StoredObject,
+): Promise<CachedAsset | null> {
+  const metadata: AssetMetadata = {
+    contentLength: object.contentLength ?? 0,
+    contentType: object.contentType,
+    etag: object.etag,
+    lastModified: object.lastModified,
+  };
+
+  if (
+    metadata.contentLength <=
+    Math.min(
+      envConfig.assetCacheMemoryMaxObjectBytes,
+      envConfig.assetCacheMemoryBytes,
+    )
+  ) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of object.stream) {
+      chunks.push(Buffer.from(chunk));
+    }
+    const body = Buffer.concat(chunks);
+    const asset = { ...metadata, contentLength: body.length, body };
+    memoryCache.set(key, asset);
+    // Served from the buffer either way, it is already in memory
+    return asset;
+  }
+
+  if (!diskDir || !(await diskReady)) {
+    object.stream.destroy();
+    return null;
+  }
+
+  const file = join(diskDir, createHash("sha1").update(key).digest("hex"));
+  // Readers never see partially written files
+  const tempFile = `${file}.${process.pid}.tmp`;
+  try {
+    await pipeline(object.stream, createWriteStream(tempFile));
+    const { size } = await stat(tempFile);
+    await rename(tempFile, file);
+    const asset = { ...metadata, contentLength: size, file };
+    if (diskCache.set(key, asset)) {
+      return asset;
+    }
+    await unlink(file);
+  } catch (error) {
+    console.warn(`Failed to write ${key} to the asset disk cache:`, error);
+    await unlink(tempFile).catch(() => {});
+  }
+  return null;
+}
+
+function toStoredObject(
+  key: string,
+  asset: CachedAsset,
+  range?: string,
+): StoredObject {
+  const byteRange = range
+    ? parseByteRange(key, range, asset.contentLength)
+    : null;
+  const start = byteRange?.start ?? 0;
+  const end = byteRange?.end ?? asset.contentLength - 1;
+
+  let stream: Readable;
+  if ("body" in asset) {
+    stream = Readable.from([asset.body.subarray(start, end + 1)]);
+  } else if (asset.contentLength === 0) {
+    stream = Readable.from([]);
+  } else {
+    stream = createReadStream(asset.file, { start, end });
+  }
+
+  return {
+    stream,
+    contentLength: end - start + 1,
+    contentRange: byteRange
+      ? `bytes ${start}-${end}/${asset.contentLength}`
+      : undefined,
+    contentType: asset.contentType,
+    etag: asset.etag,
+    lastModified: asset.lastModified,
+  };
+}
+
+// Single "bytes=" ranges, as sent to storage by the static handler
+function parseByteRange(key: string, range: string, size: number) {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(range.trim());
+  if (!match || (match[1] === "" && match[2] === "")) {
+    return null;
+  }
+
+  let start: number;
+  let end: number;
+  if (match[1] === "") {
+    // Suffix range: the last N bytes
+    start = Math.max(size - Number(match[2]), 0);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === "" ? size - 1 : Math.min(Number(match[2]), size - 1);
+  }
+
+  if (start >= size || start > end) {
+    throw new RangeNotSatisfiableError(key, size);
+  }
+  return { start, end };
+}
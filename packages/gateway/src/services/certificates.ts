@@ -1,3 +1,4 @@
+import { X509Certificate } from "node:crypto";
 import fs from "node:fs/promises";
 import {
   DeleteObjectCommand,
@@ -40,6 +41,15 @@ export const loadMainCertificateFromFiles =
     }
   };
 
+export const getCertificateExpiry = (certificate: string): Date | null => {
+  try {
+    return new Date(new X509Certificate(certificate).validTo);
+  } catch (error) {
+    console.error("Failed to parse certificate expiry:", error);
+    return null;
+  }
+};
+
 const getKeyPrefix = (domain: string): string => `certificates/${domain}`;
 
 export const storeCertificate = async (
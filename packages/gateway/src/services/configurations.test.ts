@@ -0,0 +1,109 @@
+import { TRPCClientError } from "@trpc/client";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const query = vi.fn();
+
+vi.mock("../libs/trpc-client.js", () => ({
+  trpc: {
+    deployments: {
+      getConfigByDomain: { query },
+    },
+  },
+}));
+
+function setGatewayEnv() {
+  process.env.ORIGAN_DEPLOY_DOMAIN = "example.com";
+  process.env.RUNNER_URL = "http://runner";
+  process.env.BUCKET_URL = "http://bucket";
+  process.env.BUCKET_ACCESS_KEY = "test";
+  process.env.BUCKET_SECRET_KEY = "test";
+  process.env.TLS_CERT_FILE = "/tmp/cert.pem";
+  process.env.TLS_KEY_FILE = "/tmp/key.pem";
+}
+
+async function loadConfigurationsModule() {
+  setGatewayEnv();
+  vi.resetModules();
+  return await import("./configurations.js");
+}
+
+function notFoundError() {
+  return new TRPCClientError("Domain not found", {
+    result: {
+      error: {
+        code: -32004,
+        message: "Domain not found",
+        data: { code: "NOT_FOUND", httpStatus: 404 },
+      },
+    },
+  });
+}
+
+const config = {
+  config: { version: 1, resources: [] },
+  deploymentId: "deployment-1",
+  projectId: "project-1",
+};
+
+describe("gateway domain config cache", () => {
+  afterEach(() => {
+    query.mockReset();
+    vi.useRealTimers();
+  });
+
+  it("caches configs per host", async () => {
+    const { getConfig } = await loadConfigurationsModule();
+    query.mockResolvedValue(config);
+
+    expect(await getConfig("site.example.com")).toEqual(config);
+    expect(await getConfig("site.example.com")).toEqual(config);
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+
+  it("coalesces concurrent lookups", async () => {
+    const { getConfig } = await loadConfigurationsModule();
+    query.mockResolvedValue(config);
+
+    await Promise.all([
+      getConfig("site.example.com"),
+      getConfig("site.example.com"),
+    ]);
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+
+  it("caches unknown hosts", async () => {
+    const { getConfig } = await loadConfigurationsModule();
+    query.mockRejectedValue(notFoundError());
+
+    expect(await getConfig("unknown.example.com")).toBeNull();
+    expect(await getConfig("unknown.example.com")).toBeNull();
+    expect(query).toHaveBeenCalledTimes(1);
+  });
+
+  it("refetches after invalidation", async () => {
+    const { getConfig, invalidateConfig } = await loadConfigurationsModule();
+    query.mockResolvedValueOnce(config).mockResolvedValueOnce({
+      ...config,
+      deploymentId: "deployment-2",
+    });
+
+    await getConfig("site.example.com");
+    invalidateConfig("site.example.com");
+    const refreshed = await getConfig("site.example.com");
+
+    expect(refreshed?.deploymentId).toBe("deployment-2");
+    expect(query).toHaveBeenCalledTimes(2);
+  });
+
+  it("serves stale configs when control-api is unavailable", async () => {
+    const { getConfig, invalidateConfig } = await loadConfigurationsModule();
+    query
+      .mockResolvedValueOnce(config)
+      .mockRejectedValueOnce(new Error("connect ECONNREFUSED"));
+
+    await getConfig("site.example.com");
+    invalidateConfig("site.example.com");
+
+    expect(await getConfig("site.example.com")).toEqual(config);
+  });
+});
@@ -1,15 +1,132 @@
+import { TRPCClientError } from "@trpc/client";
+import { envConfig } from "../config/index.js";
 import { trpc } from "../libs/trpc-client.js";
-import type { Config } from "../types/config.js";
+import type {
+  AccessSettings,
+  Config,
+  DomainSettings,
+  ProtectionSettings,
+  WeightedDeployment,
+} from "../types/config.js";
+import { LruCache } from "../utils/lru.js";
 
-type CachedConfig = { config: Config; deploymentId: string; projectId: string };
+export type CachedConfig = {
+  config: Config;
+  deploymentId: string;
+  projectId: string;
+  domain?: DomainSettings;
+  access?: AccessSettings;
+  // null when the track is public
+  protection?: ProtectionSettings | null;
+  // Stable and canary deployments while a canary receives traffic
+  deployments?: WeightedDeployment[];
+};
+
+type CacheEntry = {
+  // null means control-api does not know this host (negative caching)
+  value: CachedConfig | null;
+  expiresAt: number;
+};
+
+const configCache = new LruCache<string, CacheEntry>(
+  envConfig.configCacheMaxEntries,
+);
+const pendingFetches = new Map<string, Promise<CachedConfig | null>>();
+
+// Bumped on every invalidation so that fetches started before it
+// do not write their (possibly outdated) result back into the cache.
+let generation = 0;
 
 export async function getConfig(domain: string): Promise<CachedConfig | null> {
+  const entry = configCache.get(domain);
+  if (entry && entry.expiresAt > Date.now()) {
+    return entry.value;
+  }
+
+  let pending = pendingFetches.get(domain);
+  if (!pending) {
+    pending = fetchConfig(domain, entry).finally(() => {
+      pendingFetches.delete(domain);
+    });
+    pendingFetches.set(domain, pending);
+  }
+  return pending;
+}
+
+async function fetchConfig(
+  domain: string,
+  staleEntry: CacheEntry | undefined,
+): Promise<CachedConfig | null> {
   console.log(`Fetching config for domain: ${domain}`);
+  const startGeneration = generation;
+
   try {
     const data = await trpc.deployments.getConfigByDomain.query({ domain });
-    return data as CachedConfig;
+    const value = data as CachedConfig;
+    storeEntry(domain, startGeneration, {
+      value,
+      expiresAt: Date.now() + envConfig.configCacheTtlMs,
+    });
+    return value;
   } catch (error) {
+    if (isNotFoundError(error)) {
+      storeEntry(domain, startGeneration, {
+        value: null,
+        expiresAt: Date.now() + envConfig.configCacheNegativeTtlMs,
+      });
+      return null;
+    }
+
     console.error(`Error fetching config for ${domain}:`, error);
+
+    // Keep serving the last known config while control-api is unavailable
+    if (staleEntry?.value) {
+      console.warn(`Serving stale config for ${domain}`);
+      return staleEntry.value;
+    }
     return null;
   }
 }
+
+function storeEntry(
+  domain: string,
+  startGeneration: number,
+  entry: CacheEntry,
+) {
+  if (startGeneration !== generation) {
+    return;
+  }
+  configCache.set(domain, entry);
+}
+
+function isNotFoundError(error: unknown) {
+  return error instanceof TRPCClientError && error.data?.code === "NOT_FOUND";
+}
+
+/**
+ * Cached config for a domain, expired or not, without fetching it
+ */
+export function peekConfig(domain: string) {
+  return configCache.peek(domain)?.value ?? null;
+}
+
+/**
+ * Expire the cached config for a domain. The entry is kept around
+ * so it can still be served if the next fetch fails.
+ */
+export function invalidateConfig(domain: string) {
+  generation += 1;
+  const entry = configCache.peek(domain);
+  if (!entry) return;
+
+  if (entry.value) {
+    configCache.set(domain, { ...entry, expiresAt: 0 });
+  } else {
+    configCache.delete(domain);
+  }
+}
+
+export function clearConfigCache() {
+  generation += 1;
+  configCache.clear();
+}
@@ -0,0 +1,83 @@
+import { getNatsClient } from "../libs/nats.js";
+import { prewarmDeployment } from "./asset-cache.js";
+import { getConfig, invalidateConfig, peekConfig } from "./configurations.js";
+import { purgeResponses } from "./response-cache.js";
+import { invalidateSecureContext } from "./secure-contexts.js";
+
+let started = false;
+
+// Reasons sent when a track starts serving another deployment
+const PROMOTION_REASONS = new Set(["track-updated", "canary-promoted"]);
+
+/**
+ * Listen for domain config and certificate invalidations, and response cache
+ * purges, published by control-api.
+ * Every gateway instance must receive every event, so no queue group is used.
+ */
+export async function startConfigInvalidationListener() {
+  const pendingClient = getNatsClient();
+  if (!pendingClient) {
+    console.log(
+      "EVENTS_NATS_SERVER not set, config and certificate caches rely on TTL expiry only",
+    );
+    return;
+  }
+
+  if (started) {
+    return;
+  }
+  started = true;
+
+  const natsClient = await pendingClient;
+
+  await natsClient.subscriber.onDomainConfigInvalidation(async (event) => {
+    console.log(
+      `Invalidating config for ${event.domains.join(", ")} (${event.reason ?? "unknown reason"})`,
+    );
+    const promoted = PROMOTION_REASONS.has(event.reason ?? "");
+    for (const domain of event.domains) {
+      const previousDeploymentId = peekConfig(domain)?.deploymentId;
+      invalidateConfig(domain);
+      if (promoted) {
+        void prewarmPromotedDeployment(domain, previousDeploymentId);
+      }
+    }
+  });
+
+  await natsClient.subscriber.onCertificateInvalidation(async (event) => {
+    console.log(
+      `Invalidating certificates for ${event.domains.join(", ")} (${event.reason ?? "unknown reason"})`,
+    );
+    for (const domain of event.domains) {
+      invalidateSecureContext(domain);
+    }
+  });
+
+  await natsClient.subscriber.onResponseCachePurge(async (event) => {
+    const purged = purgeResponses(event);
+    console.log(
+      `Purged ${purged} cached responses of project ${event.projectId}`,
+    );
+  });
+
+  console.log("Config invalidation listener started");
+}
+
+async function prewarmPromotedDeployment(
+  domain: string,
+  previousDeploymentId: string | undefined,
+) {
+  try {
+    const cached = await getConfig(domain);
+    if (!cached || cached.deploymentId === previousDeploymentId) {
+      return;
+    }
+    await prewarmDeployment(
+      cached.deploymentId,
+      cached.config,
+      previousDeploymentId,
+    );
+  } catch (error) {
+    console.warn(`Failed to prewarm assets for ${domain}:`, error);
+  }
+}
@@ -0,0 +1,69 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+async function loadMetricsModule() {
+  vi.resetModules();
+  return await import("./metrics.js");
+}
+
+describe("gateway metrics", () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    if (server) {
+      await new Promise((resolve) => server?.close(resolve));
+      server = undefined;
+    }
+  });
+
+  async function startServer(handler: Parameters<typeof createServer>[1]) {
+    server = createServer(handler);
+    await new Promise<void>((resolve) => server?.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  it("counts requests by the route type resolved while handling them", async () => {
+    const { metricsRegistry, recordRequestMetrics } = await loadMetricsModule();
+    const baseUrl = await startServer((req, res) => {
+      const entry = recordRequestMetrics(res);
+      if (req.url === "/api") {
+        entry.routeType = "dynamic";
+      }
+      res.writeHead(req.url === "/missing" ? 404 : 200);
+      res.end();
+    });
+
+    await fetch(`${baseUrl}/api`);
+    await fetch(`${baseUrl}/api`);
+    await fetch(`${baseUrl}/missing`);
+
+    await vi.waitFor(async () => {
+      const output = await metricsRegistry.render();
+      expect(output).toContain(
+        'origan_http_requests_total{service="gateway",route_type="dynamic",status="200"} 2',
+      );
+      expect(output).toContain(
+        'origan_http_requests_total{service="gateway",route_type="internal",status="404"} 1',
+      );
+      expect(output).toContain(
+        'origan_http_request_duration_seconds_count{service="gateway",route_type="dynamic",status="200"} 2',
+      );
+    });
+  });
+
+  it("serves the metrics on /metrics only", async () => {
+    const { handleMetrics, METRICS_PATH } = await loadMetricsModule();
+    const baseUrl = await startServer(handleMetrics);
+
+    const metrics = await fetch(`${baseUrl}${METRICS_PATH}`);
+    expect(metrics.headers.get("content-type")).toContain("text/plain");
+    expect(await metrics.text()).toContain(
+      "# TYPE origan_http_requests_total counter",
+    );
+
+    const other = await fetch(`${baseUrl}/`);
+    expect(other.status).toBe(404);
+  });
+});
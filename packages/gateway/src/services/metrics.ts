@@ -0,0 +1,47 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import {
+  createHttpMetrics,
+  METRICS_CONTENT_TYPE,
+  MetricsRegistry,
+} from "@origan/metrics";
+
+export const METRICS_PATH = "/metrics";
+
+export type RouteType = "internal" | "static" | "dynamic";
+
+export type RequestMetrics = {
+  routeType: RouteType;
+};
+
+export const metricsRegistry = new MetricsRegistry("gateway");
+const httpMetrics = createHttpMetrics(metricsRegistry);
+
+/**
+ * Counts the request and observes its duration once the response is done.
+ * Like access logs, the returned entry is read at that point so handlers
+ * can set the route type once resolved: requests answered before a
+ * deployment is known (health checks, ACME, unknown domains) are internal.
+ */
+export function recordRequestMetrics(res: ServerResponse): RequestMetrics {
+  const entry: RequestMetrics = { routeType: "internal" };
+  const stopTimer = httpMetrics.duration.startTimer();
+
+  res.once("close", () => {
+    const labels = { route_type: entry.routeType, status: res.statusCode };
+    httpMetrics.requests.inc(labels);
+    stopTimer(labels);
+  });
+
+  return entry;
+}
+
+export async function handleMetrics(req: IncomingMessage, res: ServerResponse) {
+  if (req.method !== "GET" || req.url?.split("?")[0] !== METRICS_PATH) {
+    res.writeHead(404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Not found" }));
+    return;
+  }
+  const body = await metricsRegistry.render();
+  res.writeHead(200, { "Content-Type": METRICS_CONTENT_TYPE });
+  res.end(body);
+}
@@ -0,0 +1,159 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+function setGatewayEnv() {
+  process.env.ORIGAN_DEPLOY_DOMAIN = "example.com";
+  process.env.RUNNER_URL = "http://runner";
+  process.env.BUCKET_URL = "http://bucket";
+  process.env.BUCKET_ACCESS_KEY = "test";
+  process.env.BUCKET_SECRET_KEY = "test";
+  process.env.TLS_CERT_FILE = "/tmp/cert.pem";
+  process.env.TLS_KEY_FILE = "/tmp/key.pem";
+}
+
+async function loadResponseCacheModule() {
+  setGatewayEnv();
+  vi.resetModules();
+  return await import("./response-cache.js");
+}
+
+function cachedResponse(path: string, deploymentId = "deployment-1") {
+  return {
+    projectId: "project-1",
+    deploymentId,
+    path,
+    status: 200,
+    headers: { "content-type": "text/html", "content-length": "5" },
+    body: Buffer.from("hello"),
+  };
+}
+
+describe("gateway response cache", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("only caches responses allowed in shared caches", async () => {
+    const { getCachePolicy } = await loadResponseCacheModule();
+
+    expect(
+      getCachePolicy(
+        200,
+        new Headers({
+          "Cache-Control": "public, s-maxage=60, stale-while-revalidate=30",
+          Vary: "Accept-Language, accept-language",
+          "Cache-Tag": "posts, home",
+        }),
+      ),
+    ).toEqual({
+      maxAgeMs: 60_000,
+      staleWhileRevalidateMs: 30_000,
+      vary: ["accept-language"],
+      tags: ["posts", "home"],
+    });
+
+    const policyFor = (status: number, headers: Record<string, string>) =>
+      getCachePolicy(status, new Headers(headers));
+    expect(
+      policyFor(200, { "Cache-Control": "public, max-age=60" }),
+    ).toBeNull();
+    expect(
+      policyFor(200, { "Cache-Control": "private, s-maxage=60" }),
+    ).toBeNull();
+    expect(policyFor(500, { "Cache-Control": "s-maxage=60" })).toBeNull();
+    expect(
+      policyFor(200, { "Cache-Control": "s-maxage=60", Vary: "*" }),
+    ).toBeNull();
+    expect(
+      policyFor(200, { "Cache-Control": "s-maxage=60", "Set-Cookie": "a=b" }),
+    ).toBeNull();
+  });
+
+  it("serves fresh, then stale, then expired entries", async () => {
+    vi.useFakeTimers();
+    const { getCachePolicy, lookupResponse, storeResponse } =
+      await loadResponseCacheModule();
+    const policy = getCachePolicy(
+      200,
+      new Headers({ "Cache-Control": "s-maxage=10, stale-while-revalidate=5" }),
+    );
+    if (!policy) throw new Error("expected a cache policy");
+
+    storeResponse("key", {}, policy, cachedResponse("/api/posts"));
+    const hit = lookupResponse("key", {});
+    expect(hit?.state).toBe("fresh");
+    expect(hit?.entry.headers).toEqual({ "content-type": "text/html" });
+
+    vi.advanceTimersByTime(12_000);
+    expect(lookupResponse("key", {})?.state).toBe("stale");
+
+    vi.advanceTimersByTime(5_000);
+    expect(lookupResponse("key", {})).toBeNull();
+  });
+
+  it("keeps one entry per value of the Vary headers", async () => {
+    const { getCachePolicy, lookupResponse, storeResponse } =
+      await loadResponseCacheModule();
+    const policy = getCachePolicy(
+      200,
+      new Headers({ "Cache-Control": "s-maxage=60", Vary: "Accept-Language" }),
+    );
+    if (!policy) throw new Error("expected a cache policy");
+
+    storeResponse(
+      "key",
+      { "accept-language": "fr" },
+      policy,
+      cachedResponse("/api/posts"),
+    );
+
+    expect(lookupResponse("key", { "accept-language": "fr" })).not.toBeNull();
+    expect(lookupResponse("key", { "accept-language": "en" })).toBeNull();
+  });
+
+  it("purges by path prefix, tag and deployment", async () => {
+    const { getCachePolicy, lookupResponse, purgeResponses, storeResponse } =
+      await loadResponseCacheModule();
+    const policy = getCachePolicy(
+      200,
+      new Headers({ "Cache-Control": "s-maxage=60", "Cache-Tag": "posts" }),
+    );
+    const untagged = getCachePolicy(
+      200,
+      new Headers({ "Cache-Control": "s-maxage=60" }),
+    );
+    if (!policy || !untagged) throw new Error("expected a cache policy");
+
+    storeResponse("posts", {}, policy, cachedResponse("/api/posts"));
+    storeResponse("users", {}, untagged, cachedResponse("/api/users"));
+    storeResponse("home", {}, untagged, cachedResponse("/"));
+    storeResponse("next", {}, untagged, cachedResponse("/", "deployment-2"));
+
+    const event = { timestamp: new Date().toISOString() };
+    expect(
+      purgeResponses({ ...event, projectId: "project-2", tags: ["posts"] }),
+    ).toBe(0);
+    expect(
+      purgeResponses({ ...event, projectId: "project-1", tags: ["posts"] }),
+    ).toBe(1);
+    expect(lookupResponse("posts", {})).toBeNull();
+
+    expect(
+      purgeResponses({
+        ...event,
+        projectId: "project-1",
+        pathPrefixes: ["/api/"],
+      }),
+    ).toBe(1);
+    expect(lookupResponse("users", {})).toBeNull();
+
+    expect(
+      purgeResponses({
+        ...event,
+        projectId: "project-1",
+        deploymentId: "deployment-2",
+      }),
+    ).toBe(1);
+    expect(lookupResponse("home", {})).not.toBeNull();
+    expect(lookupResponse("next", {})).toBeNull();
+  });
+});
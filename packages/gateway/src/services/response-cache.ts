@@ -0,0 +1,283 @@
+import type {
+  IncomingHttpHeaders,
+  IncomingMessage,
+  ServerResponse,
+} from "node:http";
+import type { ResponseCachePurgeEvent } from "@origan/nats";
+import { envConfig } from "../config/index.js";
+import { LruCache, SizedLruCache } from "../utils/lru.js";
+
+export const CACHE_STATUS_HEADER = "X-Origan-Cache";
+// Comma separated tags a function attaches to its response for purges
+export const CACHE_TAG_HEADER = "cache-tag";
+
+// Statuses a shared cache may store when the response allows it
+const CACHEABLE_STATUSES = new Set([200, 203, 204, 300, 301, 308, 404, 410]);
+const MAX_VARY_INDEX_ENTRIES = 10_000;
+
+export type CachePolicy = {
+  maxAgeMs: number;
+  staleWhileRevalidateMs: number;
+  // Lowercased request header names the response varies on
+  vary: string[];
+  tags: string[];
+};
+
+export type CachedResponse = {
+  projectId: string;
+  deploymentId: string;
+  // Path without the query string, matched by prefix purges
+  path: string;
+  status: number;
+  headers: Record<string, string>;
+  body: Buffer;
+  tags: string[];
+  storedAt: number;
+  maxAgeMs: number;
+  staleWhileRevalidateMs: number;
+};
+
+export type CacheLookup = {
+  entry: CachedResponse;
+  // Stale entries are served while a fresh copy is fetched
+  state: "fresh" | "stale";
+};
+
+const responseCache = new SizedLruCache<string, CachedResponse>(
+  envConfig.responseCacheBytes,
+  (entry) => entry.body.length + estimateHeadersSize(entry.headers),
+);
+// Request headers listed in the Vary of the last response stored per URL
+const varyIndex = new LruCache<string, string[]>(MAX_VARY_INDEX_ENTRIES);
+const revalidations = new Set<string>();
+
+export function isResponseCacheEnabled() {
+  return envConfig.responseCacheBytes > 0;
+}
+
+/**
+ * Only reads are cached. HEAD requests are answered from GET responses
+ * but never populate the cache since their body is empty.
+ */
+export function isCacheableRequest(req: IncomingMessage) {
+  return (
+    isResponseCacheEnabled() && (req.method === "GET" || req.method === "HEAD")
+  );
+}
+
+export function getResponseCacheKey(
+  deploymentId: string,
+  host: string,
+  url: string,
+) {
+  return `${deploymentId}\n${host}\n${url}`;
+}
+
+/**
+ * Reads the shared cache directives of a function response. Only responses
+ * with a positive `s-maxage` are cached, `private`, `no-store`, `no-cache`,
+ * cookies and `Vary: *` opt out.
+ */
+export function getCachePolicy(
+  status: number,
+  headers: Headers,
+): CachePolicy | null {
+  if (!CACHEABLE_STATUSES.has(status)) {
+    return null;
+  }
+  if (headers.getSetCookie().length > 0) {
+    return null;
+  }
+
+  const directives = parseCacheControl(headers.get("cache-control"));
+  if (
+    directives.has("private") ||
+    directives.has("no-store") ||
+    directives.has("no-cache")
+  ) {
+    return null;
+  }
+  const sMaxAge = parseSeconds(directives.get("s-maxage"));
+  if (!sMaxAge) {
+    return null;
+  }
+
+  const vary = splitList(headers.get("vary")).map((name) => name.toLowerCase());
+  if (vary.includes("*")) {
+    return null;
+  }
+
+  return {
+    maxAgeMs: sMaxAge * 1000,
+    staleWhileRevalidateMs:
+      (parseSeconds(directives.get("stale-while-revalidate")) ?? 0) * 1000,
+    vary: [...new Set(vary)].sort(),
+    tags: splitList(headers.get(CACHE_TAG_HEADER)),
+  };
+}
+
+export function lookupResponse(
+  key: string,
+  requestHeaders: IncomingHttpHeaders,
+): CacheLookup | null {
+  const vary = varyIndex.get(key);
+  if (!vary) {
+    return null;
+  }
+  const entry = responseCache.get(getVariantKey(key, vary, requestHeaders));
+  if (!entry) {
+    return null;
+  }
+
+  const age = Date.now() - entry.storedAt;
+  if (age < entry.maxAgeMs) {
+    return { entry, state: "fresh" };
+  }
+  if (age < entry.maxAgeMs + entry.staleWhileRevalidateMs) {
+    return { entry, state: "stale" };
+  }
+  return null;
+}
+
+export function storeResponse(
+  key: string,
+  requestHeaders: IncomingHttpHeaders,
+  policy: CachePolicy,
+  response: Omit<
+    CachedResponse,
+    "tags" | "storedAt" | "maxAgeMs" | "staleWhileRevalidateMs"
+  >,
+) {
+  if (response.body.length > envConfig.responseCacheMaxObjectBytes) {
+    return false;
+  }
+
+  // Recomputed from the body when served
+  const headers = Object.fromEntries(
+    Object.entries(response.headers).filter(
+      ([name]) => name.toLowerCase() !== "content-length",
+    ),
+  );
+
+  varyIndex.set(key, policy.vary);
+  return responseCache.set(getVariantKey(key, policy.vary, requestHeaders), {
+    ...response,
+    headers,
+    tags: policy.tags,
+    storedAt: Date.now(),
+    maxAgeMs: policy.maxAgeMs,
+    staleWhileRevalidateMs: policy.staleWhileRevalidateMs,
+  });
+}
+
+/**
+ * Runs `revalidate` unless a revalidation of the same URL is in progress.
+ * Failures keep the stale entry until it expires.
+ */
+export function revalidateResponse(
+  key: string,
+  revalidate: () => Promise<void>,
+) {
+  if (revalidations.has(key)) {
+    return;
+  }
+  revalidations.add(key);
+  revalidate()
+    .catch((error) => {
+      console.warn("Failed to revalidate cached response:", error);
+    })
+    .finally(() => {
+      revalidations.delete(key);
+    });
+}
+
+export function sendCachedResponse(
+  req: IncomingMessage,
+  res: ServerResponse,
+  { entry, state }: CacheLookup,
+) {
+  res.writeHead(entry.status, {
+    ...entry.headers,
+    "Content-Length": String(entry.body.length),
+    Age: String(Math.floor((Date.now() - entry.storedAt) / 1000)),
+    [CACHE_STATUS_HEADER]: state === "fresh" ? "HIT" : "STALE",
+  });
+  res.end(req.method === "HEAD" ? undefined : entry.body);
+}
+
+/**
+ * Drops the cached responses of a project matching a purge request,
+ * returns how many were dropped.
+ */
+export function purgeResponses(event: ResponseCachePurgeEvent) {
+  const prefixes = event.pathPrefixes ?? [];
+  const tags = event.tags ?? [];
+  const purgeAll = prefixes.length === 0 && tags.length === 0;
+
+  return responseCache.deleteWhere((entry) => {
+    if (entry.projectId !== event.projectId) return false;
+    if (event.deploymentId && entry.deploymentId !== event.deploymentId) {
+      return false;
+    }
+    return (
+      purgeAll ||
+      prefixes.some((prefix) => entry.path.startsWith(prefix)) ||
+      tags.some((tag) => entry.tags.includes(tag))
+    );
+  });
+}
+
+export function clearResponseCache() {
+  responseCache.clear();
+  varyIndex.clear();
+}
+
+function getVariantKey(
+  key: string,
+  vary: string[],
+  requestHeaders: IncomingHttpHeaders,
+) {
+  if (vary.length === 0) {
+    return key;
+  }
+  const values = vary.map((name) => {
+    const value = requestHeaders[name];
+    return `${name}=${Array.isArray(value) ? value.join(",") : (value ?? "")}`;
+  });
+  return `${key}\n${values.join("\n")}`;
+}
+
+function parseCacheControl(value: string | null) {
+  const directives = new Map<string, string | undefined>();
+  for (const directive of splitList(value)) {
+    const [name, argument] = directive.split("=", 2);
+    directives.set(
+      name.trim().toLowerCase(),
+      argument?.trim().replace(/^"|"$/g, ""),
+    );
+  }
+  return directives;
+}
+
+function parseSeconds(value: string | undefined) {
+  if (value === undefined || !/^\d+$/.test(value)) {
+    return null;
+  }
+  return Number(value);
+}
+
+function splitList(value: string | null) {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function estimateHeadersSize(headers: Record<string, string>) {
+  let size = 0;
+  for (const [name, value] of Object.entries(headers)) {
+    size += name.length + value.length;
+  }
+  return size;
+}
@@ -0,0 +1,75 @@
+import { bench, describe } from "vitest";
+import type { Config, ResourceConfig } from "../types/config.js";
+import { compileRoutingIndex, getRoutingIndex } from "./routing-index.js";
+
+// A large site: tens of thousands of assets and a few hundred functions
+const STATIC_COUNT = 20_000;
+const DYNAMIC_COUNT = 500;
+
+const resources: ResourceConfig[] = [];
+for (let i = 0; i < STATIC_COUNT; i++) {
+  resources.push({
+    kind: "static",
+    urlPath: `/assets/chunk-${i}.js`,
+    resourcePath: `app/assets/chunk-${i}.js`,
+  });
+}
+for (let i = 0; i < DYNAMIC_COUNT; i++) {
+  resources.push({
+    kind: "dynamic",
+    urlPath: `/api/service-${i}/:id`,
+    resourcePath: `api/service-${i}/[id].js`,
+    methods: i % 2 === 0 ? ["GET"] : undefined,
+  });
+}
+resources.push({
+  kind: "dynamic",
+  urlPath: "/api/*",
+  resourcePath: "api/catch-all.js",
+});
+const config: Config = { version: 1, resources };
+
+const lastAsset = `/assets/chunk-${STATIC_COUNT - 1}.js`;
+const lastRoute = `/api/service-${DYNAMIC_COUNT - 1}/42`;
+
+describe("static lookup", () => {
+  bench("linear scan", () => {
+    config.resources.find(
+      (resource) =>
+        resource.kind === "static" && resource.urlPath === lastAsset,
+    );
+  });
+
+  bench("routing index", () => {
+    getRoutingIndex(config).findStatic(lastAsset);
+  });
+});
+
+describe("dynamic lookup", () => {
+  bench("linear scan", () => {
+    const matches: ResourceConfig[] = [];
+    for (const resource of config.resources) {
+      if (resource.kind !== "dynamic") continue;
+      const pattern = resource.urlPath.split("/");
+      const path = lastRoute.split("/");
+      if (
+        pattern.length === path.length &&
+        pattern.every(
+          (segment, i) => segment.startsWith(":") || segment === path[i],
+        )
+      ) {
+        matches.push(resource);
+      }
+    }
+  });
+
+  bench("routing index", () => {
+    getRoutingIndex(config).findDynamic(lastRoute, "GET");
+  });
+});
+
+describe("compilation", () => {
+  bench("compile the manifest", () => {
+    compileRoutingIndex(config);
+  });
+});
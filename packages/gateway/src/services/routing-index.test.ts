@@ -0,0 +1,185 @@
+import { describe, expect, it } from "vitest";
+import type { Config, ResourceConfig } from "../types/config.js";
+import { scoreRoute } from "../utils/routes.js";
+import { compileRoutingIndex, getRoutingIndex } from "./routing-index.js";
+
+function dynamic(
+  urlPath: string,
+  resourcePath: string,
+  methods?: string[],
+): ResourceConfig {
+  return { kind: "dynamic", urlPath, resourcePath, methods };
+}
+
+// Linear scan the index replaces, kept as the reference behaviour
+function matchesPattern(path: string, pattern: string) {
+  const split = (value: string) => value.split("/").filter(Boolean);
+  const pathSegments = split(path);
+  const patternSegments = split(pattern);
+  for (const [i, segment] of patternSegments.entries()) {
+    if (segment === "*") return true;
+    if (i >= pathSegments.length) return false;
+    if (!segment.startsWith(":") && segment !== pathSegments[i]) return false;
+  }
+  return pathSegments.length === patternSegments.length;
+}
+
+function linearFindDynamic(config: Config, path: string, method?: string) {
+  let best: { resource: ResourceConfig; score: number } | null = null;
+  for (const resource of config.resources) {
+    if (resource.kind !== "dynamic") continue;
+    if (
+      method &&
+      resource.methods &&
+      !resource.methods.includes(method.toUpperCase())
+    ) {
+      continue;
+    }
+    if (!matchesPattern(path, resource.urlPath)) continue;
+    const score = scoreRoute(resource.urlPath);
+    if (!best || score > best.score) best = { resource, score };
+  }
+  return best?.resource ?? null;
+}
+
+describe("gateway routing index", () => {
+  it("finds static resources by exact path, first declaration first", () => {
+    const index = compileRoutingIndex({
+      version: 1,
+      resources: [
+        { kind: "static", urlPath: "/index.html", resourcePath: "a.html" },
+        { kind: "static", urlPath: "/index.html", resourcePath: "b.html" },
+        dynamic("/index.html", "api/index.js"),
+      ],
+    });
+
+    expect(index.findStatic("/index.html")?.resourcePath).toBe("a.html");
+    expect(index.findStatic("/index")).toBeNull();
+  });
+
+  it("prefers static, then param, then wildcard patterns", () => {
+    const index = compileRoutingIndex({
+      version: 1,
+      resources: [
+        dynamic("/api/*", "api/catch-all.js"),
+        dynamic("/api/users/:id", "api/users/[id].js"),
+        dynamic("/api/users/me", "api/users/me.js"),
+        dynamic("/api/users/:name", "api/users/[name].js"),
+      ],
+    });
+
+    expect(index.findDynamic("/api/users/me")?.resourcePath).toBe(
+      "api/users/me.js",
+    );
+    expect(index.findDynamic("/api/users/42")?.resourcePath).toBe(
+      "api/users/[id].js",
+    );
+    expect(index.findDynamic("/api/users/42/posts")?.resourcePath).toBe(
+      "api/catch-all.js",
+    );
+    expect(index.findDynamic("/api")?.resourcePath).toBe("api/catch-all.js");
+    expect(index.findDynamic("/other")).toBeNull();
+  });
+
+  it("skips routes that do not accept the method", () => {
+    const index = compileRoutingIndex({
+      version: 1,
+      resources: [
+        dynamic("/api/posts", "api/posts-write.js", ["post", "PUT"]),
+        dynamic("/api/*", "api/catch-all.js", ["GET"]),
+      ],
+    });
+
+    expect(index.findDynamic("/api/posts", "POST")?.resourcePath).toBe(
+      "api/posts-write.js",
+    );
+    expect(index.findDynamic("/api/posts", "GET")?.resourcePath).toBe(
+      "api/catch-all.js",
+    );
+    expect(index.findDynamic("/api/posts", "HEAD")?.resourcePath).toBe(
+      "api/catch-all.js",
+    );
+    expect(index.findDynamic("/api/posts", "DELETE")).toBeNull();
+    expect(index.findDynamic("/api/posts")?.resourcePath).toBe(
+      "api/posts-write.js",
+    );
+  });
+
+  it("lists the methods allowed at a path", () => {
+    const index = compileRoutingIndex({
+      version: 1,
+      resources: [
+        dynamic("/api/posts", "api/posts.js", ["PUT", "GET"]),
+        dynamic("/api/posts/:id", "api/posts/[id].js", ["DELETE"]),
+        dynamic("/api/*", "api/catch-all.js", ["POST"]),
+        dynamic("/other/*", "other.js"),
+      ],
+    });
+
+    expect(index.findAllowedMethods("/api/posts")).toEqual([
+      "GET",
+      "HEAD",
+      "POST",
+      "PUT",
+    ]);
+    expect(index.findAllowedMethods("/other/page")).toBeNull();
+    expect(index.findAllowedMethods("/missing")).toBeNull();
+  });
+
+  it("lets preflights through to the routes behind a middleware", () => {
+    const index = compileRoutingIndex({
+      version: 1,
+      resources: [
+        {
+          ...dynamic("/api/posts", "api/posts.js", ["GET"]),
+          middleware: ["api/_middleware.js"],
+        },
+        dynamic("/other", "other.js", ["GET"]),
+      ],
+    });
+
+    expect(index.findDynamic("/api/posts", "OPTIONS")?.resourcePath).toBe(
+      "api/posts.js",
+    );
+    expect(index.findDynamic("/other", "OPTIONS")).toBeNull();
+  });
+
+  it("matches like a linear scan of the manifest", () => {
+    const segments = ["api", "users", "posts", ":id", ":slug", "*", "v1"];
+    const methods = [undefined, ["GET"], ["POST", "PUT"]];
+    const resources: ResourceConfig[] = [];
+    for (let i = 0; i < 300; i++) {
+      const length = 1 + (i % 4);
+      const pattern = Array.from(
+        { length },
+        (_, j) => segments[(i * 7 + j * 3 + (i >> 3)) % segments.length],
+      );
+      resources.push(
+        dynamic(`/${pattern.join("/")}`, `route-${i}.js`, methods[i % 3]),
+      );
+    }
+    const config: Config = { version: 1, resources };
+    const index = compileRoutingIndex(config);
+
+    const pathSegments = ["api", "users", "posts", "42", "v1", "x"];
+    for (let i = 0; i < 500; i++) {
+      const length = i % 6;
+      const path = `/${Array.from(
+        { length },
+        (_, j) =>
+          pathSegments[(i * 5 + j * 11 + (i >> 2)) % pathSegments.length],
+      ).join("/")}`;
+      for (const method of [undefined, "GET", "POST", "DELETE"]) {
+        expect(index.findDynamic(path, method)).toBe(
+          linearFindDynamic(config, path, method),
+        );
+      }
+    }
+  });
+
+  it("compiles each config once", () => {
+    const config: Config = { version: 1, resources: [] };
+    expect(getRoutingIndex(config)).toBe(getRoutingIndex(config));
+    expect(getRoutingIndex({ ...config })).not.toBe(getRoutingIndex(config));
+  });
+});
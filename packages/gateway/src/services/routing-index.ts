@@ -0,0 +1,104 @@
+import type { Config, ResourceConfig } from "../types/config.js";
+import { RouteTrie, scoreRoute } from "../utils/routes.js";
+
+type DynamicRoute = {
+  resource: ResourceConfig;
+  score: number;
+  // Position in the manifest, earlier routes win ties
+  order: number;
+  // Uppercased, null when the route accepts every method
+  methods: Set<string> | null;
+};
+
+export type RoutingIndex = {
+  findStatic(urlPath: string): ResourceConfig | null;
+  findDynamic(path: string, method?: string): ResourceConfig | null;
+  findAllowedMethods(path: string): string[] | null;
+};
+
+// Compiled once per config object, and dropped along with it when the
+// config leaves the cache
+const routingIndexes = new WeakMap<Config, RoutingIndex>();
+
+export function getRoutingIndex(config: Config): RoutingIndex {
+  let index = routingIndexes.get(config);
+  if (!index) {
+    index = compileRoutingIndex(config);
+    routingIndexes.set(config, index);
+  }
+  return index;
+}
+
+/**
+ * Builds the lookup structures of a manifest: a map of the static url
+ * paths and a trie of the dynamic patterns. Lookups follow the precedence
+ * of the manifest routing rules: exact static paths, then the most
+ * specific dynamic pattern, then manifest order.
+ */
+export function compileRoutingIndex(config: Config): RoutingIndex {
+  const staticResources = new Map<string, ResourceConfig>();
+  const dynamicRoutes = new RouteTrie<DynamicRoute>();
+
+  config.resources.forEach((resource, order) => {
+    if (resource.kind === "static") {
+      // The first declaration of a path wins
+      if (!staticResources.has(resource.urlPath)) {
+        staticResources.set(resource.urlPath, resource);
+      }
+      return;
+    }
+    if (resource.kind === "dynamic") {
+      dynamicRoutes.insert(resource.urlPath, {
+        resource,
+        score: scoreRoute(resource.urlPath),
+        order,
+        methods: resource.methods
+          ? new Set(resource.methods.map((method) => method.toUpperCase()))
+          : null,
+      });
+    }
+  });
+
+  return {
+    findStatic(urlPath) {
+      return staticResources.get(urlPath) ?? null;
+    },
+    findDynamic(path, method) {
+      const normalizedMethod = method?.toUpperCase();
+      let best: DynamicRoute | null = null;
+      for (const route of dynamicRoutes.match(path)) {
+        if (
+          normalizedMethod &&
+          route.methods &&
+          !route.methods.has(normalizedMethod) &&
+          // HEAD is answered by the GET handler
+          !(normalizedMethod === "HEAD" && route.methods.has("GET")) &&
+          // CORS preflights are answered by the middleware
+          !(normalizedMethod === "OPTIONS" && route.resource.middleware?.length)
+        ) {
+          continue;
+        }
+        if (
+          !best ||
+          route.score > best.score ||
+          (route.score === best.score && route.order < best.order)
+        ) {
+          best = route;
+        }
+      }
+      return best?.resource ?? null;
+    },
+    // Methods accepted at a path by its method specific routes, null when
+    // no route matches or one of them accepts every method
+    findAllowedMethods(path) {
+      const allowed = new Set<string>();
+      const routes = dynamicRoutes.match(path);
+      for (const route of routes) {
+        if (!route.methods) return null;
+        for (const method of route.methods) allowed.add(method);
+      }
+      if (allowed.has("GET")) allowed.add("HEAD");
+      return routes.length > 0 ? [...allowed].sort() : null;
+    },
+  };
+}
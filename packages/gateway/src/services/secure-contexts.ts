@@ -0,0 +1,103 @@
+import { createSecureContext, type SecureContext } from "node:tls";
+import { envConfig } from "../config/index.js";
+import { baseTlsConfig } from "../server/tls.js";
+import { LruCache } from "../utils/lru.js";
+import { s3Client } from "../utils/s3.js";
+import { getCertificate, getCertificateExpiry } from "./certificates.js";
+
+type CacheEntry = {
+  // null means no certificate is stored for this servername (negative caching)
+  context: SecureContext | null;
+  expiresAt: number;
+};
+
+const contextCache = new LruCache<string, CacheEntry>(
+  envConfig.certCacheMaxEntries,
+);
+const pendingLoads = new Map<string, Promise<SecureContext | null>>();
+
+// Bumped on every invalidation so that loads started before it
+// do not write their (possibly outdated) result back into the cache.
+let generation = 0;
+
+/**
+ * Secure context of a custom domain, built from the certificate stored in S3
+ * and reused until the certificate expires or control-api replaces it.
+ */
+export async function getSecureContext(
+  servername: string,
+): Promise<SecureContext | null> {
+  const entry = contextCache.get(servername);
+  if (entry && entry.expiresAt > Date.now()) {
+    return entry.context;
+  }
+
+  let pending = pendingLoads.get(servername);
+  if (!pending) {
+    pending = loadSecureContext(servername).finally(() => {
+      pendingLoads.delete(servername);
+    });
+    pendingLoads.set(servername, pending);
+  }
+  return pending;
+}
+
+async function loadSecureContext(
+  servername: string,
+): Promise<SecureContext | null> {
+  const startGeneration = generation;
+  const certData = await getCertificate(
+    s3Client,
+    envConfig.bucketName,
+    servername,
+  );
+  const now = Date.now();
+
+  if (!certData) {
+    storeEntry(servername, startGeneration, {
+      context: null,
+      expiresAt: now + envConfig.certCacheNegativeTtlMs,
+    });
+    return null;
+  }
+
+  const context = createSecureContext({
+    ...baseTlsConfig,
+    cert: certData.certificate,
+    key: certData.privateKey,
+    ca: certData.chain,
+  });
+
+  // Never keep serving a certificate past its notAfter, a renewed one
+  // may already be stored even if its invalidation was missed
+  const notAfter = getCertificateExpiry(certData.certificate)?.getTime();
+  const expiresAt = Math.min(
+    now + envConfig.certCacheTtlMs,
+    notAfter ?? Number.POSITIVE_INFINITY,
+  );
+  if (expiresAt > now) {
+    storeEntry(servername, startGeneration, { context, expiresAt });
+  }
+  return context;
+}
+
+function storeEntry(
+  servername: string,
+  startGeneration: number,
+  entry: CacheEntry,
+) {
+  if (startGeneration !== generation) {
+    return;
+  }
+  contextCache.set(servername, entry);
+}
+
+export function invalidateSecureContext(servername: string) {
+  generation += 1;
+  contextCache.delete(servername);
+}
+
+export function clearSecureContextCache() {
+  generation += 1;
+  contextCache.clear();
+}
@@ -0,0 +1,95 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  formatTraceparent,
+  getTraceparent,
+  parseTraceparent,
+  traceRequest,
+  withSpan,
+} from "./tracing.js";
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const PARENT_ID = "00f067aa0ba902b7";
+
+describe("gateway tracing", () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    if (server) {
+      await new Promise((resolve) => server?.close(resolve));
+      server = undefined;
+    }
+  });
+
+  it("parses and formats W3C traceparent headers", () => {
+    const context = parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-01`);
+    expect(context).toEqual({
+      traceId: TRACE_ID,
+      spanId: PARENT_ID,
+      flags: "01",
+    });
+    expect(context && formatTraceparent(context)).toBe(
+      `00-${TRACE_ID}-${PARENT_ID}-01`,
+    );
+
+    expect(parseTraceparent(undefined)).toBeNull();
+    expect(parseTraceparent("garbage")).toBeNull();
+    expect(parseTraceparent(`00-${"0".repeat(32)}-${PARENT_ID}-01`)).toBeNull();
+  });
+
+  it("continues the incoming trace through nested spans", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    server = createServer((req, res) =>
+      traceRequest(req, res, async () => {
+        const downstream = await withSpan("runner.invoke", {}, async () =>
+          getTraceparent(),
+        );
+        res.end(downstream);
+      }),
+    );
+    await new Promise<void>((resolve) => server?.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const response = await fetch(`http://127.0.0.1:${port}/`, {
+      headers: { traceparent: `00-${TRACE_ID}-${PARENT_ID}-01` },
+    });
+    const downstream = parseTraceparent(await response.text());
+    expect(downstream?.traceId).toBe(TRACE_ID);
+
+    await vi.waitFor(() => {
+      const spans = log.mock.calls.map(([line]) => JSON.parse(line));
+      const request = spans.find((span) => span.name === "gateway.request");
+      const invoke = spans.find((span) => span.name === "runner.invoke");
+      expect(request).toMatchObject({
+        traceId: TRACE_ID,
+        parentSpanId: PARENT_ID,
+        attributes: { status: 200 },
+      });
+      expect(invoke).toMatchObject({
+        traceId: TRACE_ID,
+        spanId: downstream?.spanId,
+        parentSpanId: request.spanId,
+      });
+    });
+    expect(getTraceparent()).toBeUndefined();
+  });
+
+  it("records failed spans", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await expect(
+      withSpan("s3.get_object", { key: "a" }, async () => {
+        throw new Error("boom");
+      }),
+    ).rejects.toThrow("boom");
+
+    expect(JSON.parse(log.mock.calls[0][0])).toMatchObject({
+      name: "s3.get_object",
+      status: "error",
+      error: "boom",
+      attributes: { key: "a" },
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+
+export const TRACEPARENT_HEADER = "traceparent";
+
+export type SpanContext = {
+  traceId: string;
+  spanId: string;
+  // W3C trace flags, "01" when sampled
+  flags: string;
+};
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+export type Span = {
+  context: SpanContext;
+  setAttributes(attributes: SpanAttributes): void;
+  end(error?: unknown): void;
+};
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const INVALID_TRACE_ID = "0".repeat(32);
+const INVALID_SPAN_ID = "0".repeat(16);
+
+const spanStorage = new AsyncLocalStorage<SpanContext>();
+
+/**
+ * Parses a W3C traceparent header, returns null when absent or invalid
+ */
+export function parseTraceparent(value: string | string[] | undefined) {
+  const header = Array.isArray(value) ? value[0] : value;
+  const match = header?.trim().toLowerCase().match(TRACEPARENT_PATTERN);
+  if (!match || match[1] === INVALID_TRACE_ID || match[2] === INVALID_SPAN_ID) {
+    return null;
+  }
+  return { traceId: match[1], spanId: match[2], flags: match[3] };
+}
+
+export function formatTraceparent(context: SpanContext) {
+  return `00-${context.traceId}-${context.spanId}-${context.flags}`;
+}
+
+export function getCurrentSpanContext() {
+  return spanStorage.getStore();
+}
+
+/**
+ * Traceparent to send downstream, making the current span their parent
+ */
+export function getTraceparent() {
+  const context = getCurrentSpanContext();
+  return context ? formatTraceparent(context) : undefined;
+}
+
+/**
+ * Starts a span, child of `parent` or of the current span. Finished spans
+ * are written as JSON log lines, collected with the other gateway logs.
+ */
+export function startSpan(
+  name: string,
+  attributes: SpanAttributes = {},
+  parent: SpanContext | null | undefined = getCurrentSpanContext(),
+): Span {
+  const context: SpanContext = {
+    traceId: parent?.traceId ?? randomBytes(16).toString("hex"),
+    spanId: randomBytes(8).toString("hex"),
+    flags: parent?.flags ?? "01",
+  };
+  const startTime = new Date();
+  const startedAt = performance.now();
+  let ended = false;
+
+  return {
+    context,
+    setAttributes(values) {
+      Object.assign(attributes, values);
+    },
+    end(error) {
+      if (ended) {
+        return;
+      }
+      ended = true;
+      console.log(
+        JSON.stringify({
+          type: "span",
+          service: "gateway",
+          name,
+          traceId: context.traceId,
+          spanId: context.spanId,
+          parentSpanId: parent?.spanId,
+          startTime: startTime.toISOString(),
+          durationMs: Math.round((performance.now() - startedAt) * 100) / 100,
+          status: error ? "error" : "ok",
+          ...(error !== undefined && {
+            error: error instanceof Error ? error.message : String(error),
+          }),
+          attributes,
+        }),
+      );
+    },
+  };
+}
+
+/**
+ * Runs `fn` in a new child span, ended when the returned promise settles
+ */
+export async function withSpan<T>(
+  name: string,
+  attributes: SpanAttributes,
+  fn: (span: Span) => Promise<T>,
+): Promise<T> {
+  const span = startSpan(name, attributes);
+  try {
+    const result = await spanStorage.run(span.context, () => fn(span));
+    span.end();
+    return result;
+  } catch (error) {
+    span.end(error);
+    throw error;
+  }
+}
+
+/**
+ * Runs the request handler in a server span continuing the trace of the
+ * incoming traceparent, or starting a new one. The span ends with the
+ * response, whichever handler sent it.
+ */
+export function traceRequest<T>(
+  req: IncomingMessage,
+  res: ServerResponse,
+  handler: () => Promise<T>,
+) {
+  const span = startSpan(
+    "gateway.request",
+    { method: req.method ?? "GET", host: req.headers.host ?? "" },
+    parseTraceparent(req.headers[TRACEPARENT_HEADER]),
+  );
+  res.once("close", () => {
+    span.setAttributes({ status: res.statusCode });
+    span.end(res.statusCode >= 500 ? `HTTP ${res.statusCode}` : undefined);
+  });
+  return spanStorage.run(span.context, handler);
+}
@@ -1,4 +1,7 @@
-export type ResourceKind = "static" | "dynamic";
+// `cron` resources are invoked by the control-api scheduler, never routed
+export type ResourceKind = "static" | "dynamic" | "cron";
+
+export type ContentEncoding = "br" | "gzip";
 
 export interface ResourceConfig {
   kind: ResourceKind;
@@ -7,10 +10,83 @@ export interface ResourceConfig {
   methods?: string[];
   headers?: Record<string, string>;
   wildcard?: boolean;
+  encodings?: Partial<Record<ContentEncoding, string>>;
+  maxBodyBytes?: number;
+  timeoutMs?: number;
+  memoryLimitMb?: number;
+  // Resource paths of the `_middleware` bundles run before the function,
+  // outermost directory first
+  middleware?: string[];
+  schedule?: string;
+}
+
+export type RedirectStatus = 301 | 302 | 303 | 307 | 308;
+
+export interface RuleConfig {
+  type: "redirect" | "rewrite";
+  source: string;
+  destination: string;
+  status?: RedirectStatus;
+  preserveQuery?: boolean;
+  conditions?: {
+    host?: string;
+  };
+}
+
+export interface RoutingConfig {
+  spaFallback?: boolean;
+  cleanUrls?: boolean;
+  trailingSlash?: "always" | "never" | "ignore";
+  errorPages?: Record<string, string>;
+}
+
+export interface HeaderRuleConfig {
+  source: string;
+  add?: Record<string, string>;
+  set?: Record<string, string>;
+  remove?: string[];
+}
+
+export interface DomainSettings {
+  forceHttps: boolean;
+  hstsMaxAge: number | null;
+  redirectTo: string | null;
+}
+
+export interface AccessSettings {
+  ipRules: { action: "allow" | "deny"; cidr: string }[];
+  rateLimits: RateLimitRule[];
+}
+
+export interface RateLimitRule {
+  id: string;
+  requests: number;
+  windowSeconds: number;
+  // Header identifying clients, client IP when null
+  keyHeader: string | null;
+  // "dynamic" limits only count requests served by functions
+  scope: "all" | "dynamic";
+}
+
+export interface ProtectionSettings {
+  // "scrypt:salt:hash" of the shared password, null for token-only access
+  passwordHash: string | null;
+  // "salt:hash" (salted SHA-256) of the bypass token
+  bypassTokenHash: string | null;
+}
+
+export interface WeightedDeployment {
+  deploymentId: string;
+  config: Config;
+  // Percentage of the visitors served by this deployment
+  weight: number;
 }
 
 export interface Config {
   version: number;
   resources: ResourceConfig[];
+  rules?: RuleConfig[];
+  routing?: RoutingConfig;
+  headers?: HeaderRuleConfig[];
   domain_placeholder?: string;
 }
@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from "vitest";
+import { exceedsDeclaredLength, limitBody } from "./body.js";
+
+async function collect(source: AsyncIterable<Uint8Array>) {
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of source) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+async function* chunks(...values: string[]) {
+  for (const value of values) {
+    yield Buffer.from(value);
+  }
+}
+
+describe("gateway request body limits", () => {
+  it("checks the declared content length", () => {
+    expect(exceedsDeclaredLength({ "content-length": "11" }, 10)).toBe(true);
+    expect(exceedsDeclaredLength({ "content-length": "10" }, 10)).toBe(false);
+    expect(exceedsDeclaredLength({}, 10)).toBe(false);
+  });
+
+  it("passes bodies within the limit through", async () => {
+    const onLimitExceeded = vi.fn();
+    const body = limitBody(chunks("hello", " world"), 11, onLimitExceeded);
+
+    expect(await collect(body)).toBe("hello world");
+    expect(onLimitExceeded).not.toHaveBeenCalled();
+  });
+
+  it("fails once the limit is exceeded", async () => {
+    const onLimitExceeded = vi.fn();
+    const body = limitBody(chunks("hello", " world"), 8, onLimitExceeded);
+
+    await expect(collect(body)).rejects.toThrow("exceeds 8 bytes");
+    expect(onLimitExceeded).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,34 @@
+import type { IncomingHttpHeaders } from "node:http";
+
+/**
+ * Whether the declared Content-Length already exceeds the limit, so the
+ * request can be rejected before reading any of its body.
+ */
+export function exceedsDeclaredLength(
+  headers: IncomingHttpHeaders,
+  maxBytes: number,
+) {
+  const declared = Number(headers["content-length"]);
+  return Number.isFinite(declared) && declared > maxBytes;
+}
+
+/**
+ * Re-yields the chunks of `source` while counting them. Once more than
+ * `maxBytes` have been read, `onLimitExceeded` is called and the iteration
+ * fails, which aborts whatever consumes it.
+ */
+export async function* limitBody(
+  source: AsyncIterable<Uint8Array>,
+  maxBytes: number,
+  onLimitExceeded: () => void,
+): AsyncGenerator<Uint8Array> {
+  let received = 0;
+  for await (const chunk of source) {
+    received += chunk.byteLength;
+    if (received > maxBytes) {
+      onLimitExceeded();
+      throw new Error(`Request body exceeds ${maxBytes} bytes`);
+    }
+    yield chunk;
+  }
+}
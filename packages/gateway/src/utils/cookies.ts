@@ -0,0 +1,26 @@
+import type { IncomingMessage } from "node:http";
+
+/**
+ * Value of a request cookie, undefined when absent
+ */
+export function getCookie(req: IncomingMessage, name: string) {
+  for (const part of req.headers.cookie?.split(";") ?? []) {
+    const separator = part.indexOf("=");
+    if (separator !== -1 && part.slice(0, separator).trim() === name) {
+      return part.slice(separator + 1).trim();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Cookie header without the named cookie, undefined when none is left
+ */
+export function removeCookie(header: string | undefined, name: string) {
+  const remaining = (header?.split(";") ?? []).filter((part) => {
+    const separator = part.indexOf("=");
+    return separator === -1 || part.slice(0, separator).trim() !== name;
+  });
+  const cookie = remaining.join(";").trim();
+  return cookie === "" ? undefined : cookie;
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { isCompressibleContentType, negotiateEncoding } from "./encoding.js";
+
+describe("gateway content encoding negotiation", () => {
+  it("prefers brotli when both are accepted", () => {
+    expect(negotiateEncoding("gzip, deflate, br")).toBe("br");
+  });
+
+  it("respects client weights", () => {
+    expect(negotiateEncoding("br;q=0.5, gzip")).toBe("gzip");
+    expect(negotiateEncoding("br;q=0, gzip;q=0")).toBeNull();
+  });
+
+  it("only picks available encodings", () => {
+    expect(negotiateEncoding("br, gzip", ["gzip"])).toBe("gzip");
+    expect(negotiateEncoding("br", ["gzip"])).toBeNull();
+  });
+
+  it("handles wildcards and missing headers", () => {
+    expect(negotiateEncoding("*")).toBe("br");
+    expect(negotiateEncoding("*, br;q=0")).toBe("gzip");
+    expect(negotiateEncoding(undefined)).toBeNull();
+    expect(negotiateEncoding("identity")).toBeNull();
+  });
+
+  it("detects compressible content types", () => {
+    expect(isCompressibleContentType("text/html")).toBe(true);
+    expect(isCompressibleContentType("image/svg+xml")).toBe(true);
+    expect(isCompressibleContentType("image/png")).toBe(false);
+  });
+});
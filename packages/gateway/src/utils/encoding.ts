@@ -0,0 +1,60 @@
+import type { ContentEncoding } from "../types/config.js";
+
+// Server preference order when the client accepts several encodings equally
+const SUPPORTED_ENCODINGS: ContentEncoding[] = ["br", "gzip"];
+
+const COMPRESSIBLE_TYPE =
+  /^(text\/|application\/(javascript|json|xml|manifest\+json)|image\/svg\+xml)/i;
+
+export function isCompressibleContentType(contentType: string) {
+  return COMPRESSIBLE_TYPE.test(contentType);
+}
+
+function parseAcceptEncoding(header: string) {
+  const weights = new Map<string, number>();
+  for (const part of header.split(",")) {
+    const [rawName, ...params] = part.trim().split(";");
+    const name = rawName.trim().toLowerCase();
+    if (!name) continue;
+
+    let quality = 1;
+    for (const param of params) {
+      const [key, value] = param.trim().split("=");
+      if (key?.trim().toLowerCase() === "q") {
+        const parsed = Number.parseFloat(value ?? "");
+        quality = Number.isNaN(parsed) ? 0 : parsed;
+      }
+    }
+    weights.set(name, quality);
+  }
+  return weights;
+}
+
+/**
+ * Picks the best encoding among `available` for an Accept-Encoding header,
+ * or null when the identity representation should be sent. Client weights
+ * win; ties are broken by server preference (brotli over gzip).
+ */
+export function negotiateEncoding(
+  acceptEncoding: string | undefined,
+  available: ContentEncoding[] = SUPPORTED_ENCODINGS,
+): ContentEncoding | null {
+  if (!acceptEncoding) {
+    return null;
+  }
+
+  const weights = parseAcceptEncoding(acceptEncoding);
+  const wildcard = weights.get("*");
+
+  let best: ContentEncoding | null = null;
+  let bestQuality = 0;
+  for (const encoding of SUPPORTED_ENCODINGS) {
+    if (!available.includes(encoding)) continue;
+    const quality = weights.get(encoding) ?? wildcard ?? 0;
+    if (quality > bestQuality) {
+      best = encoding;
+      bestQuality = quality;
+    }
+  }
+  return best;
+}
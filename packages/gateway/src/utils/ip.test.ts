@@ -0,0 +1,54 @@
+import type { IncomingMessage } from "node:http";
+import { describe, expect, it } from "vitest";
+import { getClientIp, isPublicIp } from "./ip.js";
+
+function createRequest(forwardedFor?: string) {
+  return {
+    headers: forwardedFor ? { "x-forwarded-for": forwardedFor } : {},
+    socket: { remoteAddress: "::ffff:10.0.0.2" },
+  } as unknown as IncomingMessage;
+}
+
+describe("getClientIp", () => {
+  it("uses the socket address unless the proxy is trusted", () => {
+    expect(getClientIp(createRequest("203.0.113.7"), false)).toBe("10.0.0.2");
+    expect(getClientIp(createRequest(), true)).toBe("10.0.0.2");
+  });
+
+  it("trusts only the entry appended by the proxy", () => {
+    // The client forged the first entries, the proxy appended its address
+    const req = createRequest("127.0.0.1, 198.51.100.1, 203.0.113.7");
+    expect(getClientIp(req, true)).toBe("203.0.113.7");
+  });
+});
+
+describe("isPublicIp", () => {
+  it("accepts public addresses", () => {
+    expect(isPublicIp("93.184.216.34")).toBe(true);
+    expect(isPublicIp("2606:2800:220:1:248:1893:25c8:1946")).toBe(true);
+  });
+
+  it("rejects loopback, private and link-local addresses", () => {
+    for (const ip of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.20.0.1",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+      "::1",
+      "fd00::1",
+      "fe80::1",
+      "::ffff:127.0.0.1",
+      "::ffff:7f00:1",
+    ]) {
+      expect(isPublicIp(ip), ip).toBe(false);
+    }
+  });
+
+  it("rejects values that are not addresses", () => {
+    expect(isPublicIp("localhost")).toBe(false);
+    expect(isPublicIp("")).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+import type { IncomingMessage } from "node:http";
+import { BlockList, isIP, isIPv6 } from "node:net";
+
+/**
+ * Client address of a request, taken from X-Forwarded-For only when the
+ * gateway runs behind a trusted proxy. Clients can send their own header,
+ * only the last entry, appended by the proxy, is trusted.
+ */
+export function getClientIp(req: IncomingMessage, trustProxy: boolean) {
+  if (trustProxy) {
+    const forwarded = req.headers["x-forwarded-for"];
+    const value = Array.isArray(forwarded) ? forwarded.join(",") : forwarded;
+    const last = value?.split(",").at(-1)?.trim();
+    if (last) {
+      return normalizeIp(last);
+    }
+  }
+  return normalizeIp(req.socket.remoteAddress ?? "");
+}
+
+// Dual-stack sockets report IPv4 clients as IPv4-mapped IPv6 addresses
+export function normalizeIp(ip: string) {
+  return ip.startsWith("::ffff:") && ip.includes(".") ? ip.slice(7) : ip;
+}
+
+export function createBlockList(cidrs: string[]) {
+  const blockList = new BlockList();
+  for (const cidr of cidrs) {
+    const [address, prefix] = cidr.split("/");
+    const type = isIPv6(address) ? "ipv6" : "ipv4";
+    try {
+      blockList.addSubnet(address, Number(prefix), type);
+    } catch (error) {
+      console.error(`Ignoring invalid CIDR ${cidr}:`, error);
+    }
+  }
+  return blockList;
+}
+
+export function blockListHas(blockList: BlockList, ip: string) {
+  if (!ip) return false;
+  return blockList.check(ip, isIPv6(ip) ? "ipv6" : "ipv4");
+}
+
+// Loopback, private, link-local and other ranges that are not reachable on
+// the internet, where in-cluster services and cloud metadata live. IPv4
+// ranges also cover the IPv4-mapped IPv6 addresses
+const NON_PUBLIC_RANGES = createBlockList([
+  "0.0.0.0/8",
+  "10.0.0.0/8",
+  "100.64.0.0/10",
+  "127.0.0.0/8",
+  "169.254.0.0/16",
+  "172.16.0.0/12",
+  "192.0.0.0/24",
+  "192.168.0.0/16",
+  "198.18.0.0/15",
+  "224.0.0.0/4",
+  "240.0.0.0/4",
+  "::/128",
+  "::1/128",
+  "64:ff9b::/96",
+  "fc00::/7",
+  "fe80::/10",
+  "ff00::/8",
+]);
+
+export function isPublicIp(ip: string) {
+  const normalized = normalizeIp(ip);
+  return isIP(normalized) !== 0 && !blockListHas(NON_PUBLIC_RANGES, normalized);
+}
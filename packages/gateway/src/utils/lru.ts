@@ -0,0 +1,122 @@
+// Minimal LRU cache relying on Map insertion order:
+// the first key is always the least recently used one.
+export class LruCache<K, V> {
+  private entries = new Map<K, V>();
+
+  constructor(private maxEntries: number) {}
+
+  get size() {
+    return this.entries.size;
+  }
+
+  get(key: K): V | undefined {
+    const value = this.entries.get(key);
+    if (value === undefined) {
+      return undefined;
+    }
+    // Move the key to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  peek(key: K): V | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: K, value: V) {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next();
+      if (oldest.done) break;
+      this.entries.delete(oldest.value);
+    }
+  }
+
+  delete(key: K) {
+    return this.entries.delete(key);
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
+
+// Same eviction order, bounded by the total size of the values instead
+// of their count. Values larger than the whole budget are not stored.
+export class SizedLruCache<K, V> {
+  private entries = new Map<K, V>();
+  private totalSize = 0;
+
+  constructor(
+    private maxSize: number,
+    private sizeOf: (value: V) => number,
+    private onEvict?: (key: K, value: V) => void,
+  ) {}
+
+  get size() {
+    return this.totalSize;
+  }
+
+  get(key: K): V | undefined {
+    const value = this.entries.get(key);
+    if (value === undefined) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  has(key: K) {
+    return this.entries.has(key);
+  }
+
+  set(key: K, value: V) {
+    const size = this.sizeOf(value);
+    if (size > this.maxSize) {
+      return false;
+    }
+    this.delete(key);
+    this.entries.set(key, value);
+    this.totalSize += size;
+
+    while (this.totalSize > this.maxSize) {
+      const oldest = this.entries.entries().next();
+      if (oldest.done) break;
+      this.delete(oldest.value[0]);
+    }
+    return true;
+  }
+
+  delete(key: K) {
+    const value = this.entries.get(key);
+    if (value === undefined) {
+      return false;
+    }
+    this.entries.delete(key);
+    this.totalSize -= this.sizeOf(value);
+    this.onEvict?.(key, value);
+    return true;
+  }
+
+  // Returns the number of entries removed
+  deleteWhere(predicate: (value: V, key: K) => boolean) {
+    let deleted = 0;
+    for (const [key, value] of [...this.entries]) {
+      if (predicate(value, key)) {
+        this.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  clear() {
+    for (const key of [...this.entries.keys()]) {
+      this.delete(key);
+    }
+  }
+}
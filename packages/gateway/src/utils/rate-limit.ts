@@ -0,0 +1,48 @@
+import { LruCache } from "./lru.js";
+
+type Window = {
+  count: number;
+  resetAt: number;
+};
+
+/**
+ * Fixed window counters kept in memory: limits apply per gateway instance.
+ * The LRU bound keeps memory flat when many clients show up at once.
+ */
+export class FixedWindowRateLimiter {
+  private windows: LruCache<string, Window>;
+
+  constructor(maxKeys: number) {
+    this.windows = new LruCache(maxKeys);
+  }
+
+  /**
+   * Counts a request for `key`. `retryAfterSeconds` is set when the
+   * request goes over the limit.
+   */
+  hit(
+    key: string,
+    limit: number,
+    windowMs: number,
+    now = Date.now(),
+  ): { allowed: boolean; retryAfterSeconds?: number } {
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      this.windows.set(key, window);
+    }
+
+    window.count += 1;
+    if (window.count <= limit) {
+      return { allowed: true };
+    }
+    return {
+      allowed: false,
+      retryAfterSeconds: Math.max(1, Math.ceil((window.resetAt - now) / 1000)),
+    };
+  }
+
+  clear() {
+    this.windows.clear();
+  }
+}
@@ -0,0 +1,93 @@
+export function splitPath(path: string) {
+  const trimmed = path.replace(/^\/+/, "").replace(/\/+$/, "");
+  if (!trimmed) return [];
+  return trimmed.split("/");
+}
+
+/**
+ * Specificity of a route pattern: static patterns beat `:param` ones,
+ * which beat `*` catch-alls, then more static segments win.
+ */
+export function scoreRoute(pattern: string) {
+  const segments = splitPath(pattern);
+  let hasWildcard = false;
+  let paramCount = 0;
+  let staticCount = 0;
+
+  for (const segment of segments) {
+    if (segment === "*") {
+      hasWildcard = true;
+    } else if (segment.startsWith(":")) {
+      paramCount += 1;
+    } else {
+      staticCount += 1;
+    }
+  }
+
+  const rank = hasWildcard ? 0 : paramCount > 0 ? 1 : 2;
+  return rank * 1000 + staticCount * 10 + segments.length;
+}
+
+type TrieNode<T> = {
+  static: Map<string, TrieNode<T>>;
+  param?: TrieNode<T>;
+  // Values whose pattern ends at this node
+  terminal: T[];
+  // Values whose pattern has a `*` at this depth, matching any remainder
+  wildcard: T[];
+};
+
+function createNode<T>(): TrieNode<T> {
+  return { static: new Map(), terminal: [], wildcard: [] };
+}
+
+/**
+ * Segment trie of route patterns. Static segments are looked up by key,
+ * every `:param` of a level shares one child and `*` ends the pattern
+ * (segments after it are ignored, as by `extractRouteParams`).
+ */
+export class RouteTrie<T> {
+  private root = createNode<T>();
+
+  insert(pattern: string, value: T) {
+    let node = this.root;
+    for (const segment of splitPath(pattern)) {
+      if (segment === "*") {
+        node.wildcard.push(value);
+        return;
+      }
+      if (segment.startsWith(":")) {
+        node.param ??= createNode();
+        node = node.param;
+        continue;
+      }
+      let child = node.static.get(segment);
+      if (!child) {
+        child = createNode();
+        node.static.set(segment, child);
+      }
+      node = child;
+    }
+    node.terminal.push(value);
+  }
+
+  /**
+   * Every value whose pattern matches the path, in no particular order
+   */
+  match(path: string): T[] {
+    const segments = splitPath(path);
+    const matches: T[] = [];
+    const visit = (node: TrieNode<T>, depth: number) => {
+      matches.push(...node.wildcard);
+      if (depth === segments.length) {
+        matches.push(...node.terminal);
+        return;
+      }
+      const child = node.static.get(segments[depth]);
+      if (child) visit(child, depth + 1);
+      if (node.param) visit(node.param, depth + 1);
+    };
+    visit(this.root, 0);
+    return matches;
+  }
+}
@@ -1,6 +1,11 @@
 import type { Readable } from "node:stream";
-import { GetObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import {
+  GetObjectCommand,
+  HeadObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
 import { envConfig } from "../config/index.js";
+import { withSpan } from "../services/tracing.js";
 
 // Initialize S3 client
 export const s3Client = new S3Client({
@@ -13,15 +18,42 @@ export const s3Client = new S3Client({
   },
 });
 
+// `size` is the full length of the object, when known
+export class RangeNotSatisfiableError extends Error {
+  constructor(
+    key: string,
+    public readonly size?: number,
+  ) {
+    super(`Requested range not satisfiable for ${key}`);
+    this.name = "RangeNotSatisfiableError";
+  }
+}
+
+export type StoredObject = {
+  stream: Readable;
+  contentLength?: number;
+  contentRange?: string;
+  contentType?: string;
+  etag?: string;
+  lastModified?: Date;
+};
+
 // Function to stream file from S3
-export async function streamFromS3(key: string) {
+// `range` is passed through as-is, e.g. "bytes=0-1023"
+export async function streamFromS3(
+  key: string,
+  options?: { range?: string },
+): Promise<StoredObject | null> {
   try {
     const command = new GetObjectCommand({
       Bucket: envConfig.bucketName,
       Key: key,
+      Range: options?.range,
     });
 
-    const response = await s3Client.send(command);
+    const response = await withSpan("s3.get_object", { key }, () =>
+      s3Client.send(command),
+    );
     if (!response.Body) {
       return null;
     }
@@ -29,12 +61,35 @@ export async function streamFromS3(key: string) {
     return {
       stream: response.Body as Readable,
       contentLength: response.ContentLength,
+      contentRange: response.ContentRange,
       contentType: response.ContentType,
       etag: response.ETag,
       lastModified: response.LastModified,
     };
   } catch (error) {
+    if (
+      options?.range &&
+      (error as { $metadata?: { httpStatusCode?: number } }).$metadata
+        ?.httpStatusCode === 416
+    ) {
+      throw new RangeNotSatisfiableError(key, await getObjectSize(key));
+    }
     console.error("Error streaming file from S3:", error);
     return null;
   }
 }
+
+// Length of an object, undefined when it cannot be read
+async function getObjectSize(key: string): Promise<number | undefined> {
+  try {
+    const response = await withSpan("s3.head_object", { key }, () =>
+      s3Client.send(
+        new HeadObjectCommand({ Bucket: envConfig.bucketName, Key: key }),
+      ),
+    );
+    return response.ContentLength;
+  } catch (error) {
+    console.error("Error reading object size from S3:", error);
+    return undefined;
+  }
+}
@@ -65,6 +65,9 @@ for await (const data of eventManager) {
   const functionPath =
     data.metadata.function_path || `function-${functionHash}`;
 
+  // Workers serve concurrent requests, so their events carry no trace id:
+  // functions get the trace of each request from its traceparent header
+
   // Handle different event types
   const topic = `logs.${projectId}.${deploymentId}.${functionHash}`;
 
@@ -1,7 +1,20 @@
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { resolve } from "https://deno.land/std@0.224.0/path/mod.ts";
 import { GetObjectCommand, S3Client } from "npm:@aws-sdk/client-s3";
+import {
+  METRICS_CONTENT_TYPE,
+  MetricsRegistry,
+  metricNames,
+} from "@origan/metrics";
 import { startCleanupInterval } from "./cleanup.ts";
+import {
+  formatTraceparent,
+  parseTraceparent,
+  type SpanContext,
+  TRACEPARENT_HEADER,
+  withSpan,
+} from "./tracing.ts";
+import { ArtefactCache, WorkerPool } from "./worker-pool.ts";
 
 const envVarsObj = Deno.env.toObject();
 
@@ -35,13 +48,114 @@ if (WORKERS_PATH == null) {
 
 await Deno.mkdir(WORKERS_PATH, { recursive: true });
 
+// Upper bound for a single WebSocket session, after which the worker stops
+const wsSessionTimeoutMs =
+  Number(envVarsObj.WS_SESSION_TIMEOUT_MS) || 60 * 60 * 1000;
+
+// Route limits come from the manifest through the gateway, the control API
+// already capped them to the plan, these bounds only protect the runner
+const DEFAULT_MEMORY_LIMIT_MB = 150;
+const MAX_MEMORY_LIMIT_MB = Number(envVarsObj.MAX_MEMORY_LIMIT_MB) || 1024;
+const DEFAULT_WORKER_TIMEOUT_MS = 1 * 60 * 1000;
+const MAX_WORKER_TIMEOUT_MS =
+  Number(envVarsObj.MAX_WORKER_TIMEOUT_MS) || 15 * 60 * 1000;
+
+// Live workers are reused until idle for WORKER_IDLE_TIMEOUT_MS, and stop
+// by themselves at most that long after their request timeout
+const WORKER_POOL_MAX_SIZE = Number(envVarsObj.WORKER_POOL_MAX_SIZE) || 100;
+const WORKER_IDLE_TIMEOUT_MS =
+  Number(envVarsObj.WORKER_IDLE_TIMEOUT_MS) || 5 * 60 * 1000;
+// Deployment artefacts are immutable, they are only fetched once
+const ARTEFACT_CACHE_MAX_ENTRIES =
+  Number(envVarsObj.ARTEFACT_CACHE_MAX_ENTRIES) || 1000;
+
+function readLimit(value: string | null, fallback: number, max: number) {
+  const parsed = Number(value);
+  if (!value || !Number.isInteger(parsed) || parsed <= 0) {
+    return fallback;
+  }
+  return Math.min(parsed, max);
+}
+
+// The user code runs without a wrapper to chain middleware, so routes
+// behind one are refused rather than served unchecked
+function requiresMiddleware(value: string | null) {
+  try {
+    const paths = JSON.parse(value || "[]");
+    return !Array.isArray(paths) || paths.length > 0;
+  } catch {
+    return true;
+  }
+}
+
+const metricsRegistry = new MetricsRegistry("runner");
+const workerBootDuration = metricsRegistry.histogram({
+  name: metricNames.workerBootDurationSeconds,
+  help: "Time to create a user worker, in seconds",
+});
+const workerInvocations = metricsRegistry.counter({
+  name: metricNames.workerInvocationsTotal,
+  help: "Function invocations, by outcome",
+  labelNames: ["status"],
+});
+const workerFailures = metricsRegistry.counter({
+  name: metricNames.workerFailuresTotal,
+  help: "Failed function invocations, by the stage that failed",
+  labelNames: ["stage"],
+});
+
+function recordFailure(stage: "fetch" | "boot" | "invoke") {
+  workerInvocations.inc({ status: "error" });
+  workerFailures.inc({ stage });
+}
+
+const sourceCache = new ArtefactCache<string>(ARTEFACT_CACHE_MAX_ENTRIES);
+const metadataCache = new ArtefactCache<{
+  environmentVariables?: Record<string, string>;
+}>(ARTEFACT_CACHE_MAX_ENTRIES);
+const workerPool = new WorkerPool<UserWorker>({
+  maxSize: WORKER_POOL_MAX_SIZE,
+  idleTimeoutMs: WORKER_IDLE_TIMEOUT_MS,
+});
+
+const workerPoolSize = metricsRegistry.gauge({
+  name: metricNames.workerPoolSize,
+  help: "Live user workers kept for reuse",
+});
+metricsRegistry.addCollector(() => workerPoolSize.set({}, workerPool.size));
+
+// Thrown when the function source cannot be fetched, reported as such
+class SourceFetchError extends Error {}
+
+// Thrown when a function does not respond within its route timeout
+class FunctionTimeoutError extends Error {}
+
+// Pooled workers outlive requests, so the request timeout is enforced here
+function rejectOnAbort(signal: AbortSignal, timeoutMs: number) {
+  return new Promise<never>((_, reject) => {
+    signal.addEventListener("abort", () =>
+      reject(
+        new FunctionTimeoutError(`Function timed out after ${timeoutMs}ms`),
+      ),
+    );
+  });
+}
+
+type UserWorker = Awaited<ReturnType<typeof EdgeRuntime.userWorkers.create>>;
+
 // Helper function to get object from S3
-async function getObject(Bucket: string, Key: string): Promise<string> {
+async function getObject(
+  Bucket: string,
+  Key: string,
+  trace: SpanContext,
+): Promise<string> {
   console.log(`Fetching ${Key} from S3 bucket ${Bucket}`);
 
   const s3StartTime = performance.now();
   const getObjectCommand = new GetObjectCommand({ Bucket, Key });
-  const response = await s3Client.send(getObjectCommand);
+  const response = await withSpan("s3.get_object", trace, { key: Key }, () =>
+    s3Client.send(getObjectCommand),
+  );
   const s3Duration = performance.now() - s3StartTime;
   console.log(`S3 fetch for ${Key} completed in ${s3Duration.toFixed(2)}ms`);
 
@@ -61,6 +175,7 @@ console.log("main function started");
 
 // Start the cleanup interval for worker directories
 startCleanupInterval(WORKERS_PATH);
+workerPool.startEvictionInterval();
 
 const port = 9000;
 console.log(`Starting HTTP server on port ${port}`);
@@ -69,10 +184,44 @@ const handler = async (req: Request) => {
   // const get function path on s3 from header
   const headers = req.headers;
   const functionPath = headers.get("x-origan-function-path");
+  // Function requests always carry their path, only scrapers call /metrics
+  if (!functionPath && new URL(req.url).pathname === "/metrics") {
+    return new Response(await metricsRegistry.render(), {
+      headers: { "Content-Type": METRICS_CONTENT_TYPE },
+    });
+  }
   if (!functionPath) {
     console.error("Function path not provided in headers");
     return new Response("Function path not provided", { status: 400 });
   }
+
+  // Continues the gateway trace, the worker receives the invoke span
+  return withSpan(
+    "runner.request",
+    parseTraceparent(headers.get(TRACEPARENT_HEADER)),
+    { functionPath },
+    (trace) => invokeFunction(req, functionPath, trace),
+  );
+};
+
+async function invokeFunction(
+  req: Request,
+  functionPath: string,
+  trace: SpanContext,
+) {
+  const headers = req.headers;
+  if (requiresMiddleware(headers.get("x-origan-middleware-paths"))) {
+    console.error(`Middleware of ${functionPath} cannot run on this runner`);
+    recordFailure("invoke");
+    return new Response(
+      JSON.stringify({ msg: "Middleware are not supported by this runner" }),
+      {
+        status: 501,
+        headers: { "Content-Type": "application/json" },
+      },
+    );
+  }
+
   const deploymentId = headers.get("x-origan-deployment-id");
   const projectId = headers.get("x-origan-project-id");
   const startTime = performance.now();
@@ -83,115 +232,217 @@ const handler = async (req: Request) => {
     `${WORKERS_PATH}/${projectId}/${deploymentId}/${queryHash}`,
   );
 
-  const memoryLimitMb = 150;
-  const workerTimeoutMs = 1 * 60 * 1000;
+  // WebSocket connections keep their worker alive for the whole session.
+  // Idle timeouts and per-deployment limits are enforced by the gateway.
+  const isWebSocket = headers.get("upgrade")?.toLowerCase() === "websocket";
+
+  const memoryLimitMb = readLimit(
+    headers.get("x-origan-memory-limit-mb"),
+    DEFAULT_MEMORY_LIMIT_MB,
+    MAX_MEMORY_LIMIT_MB,
+  );
+  const workerTimeoutMs = isWebSocket
+    ? wsSessionTimeoutMs
+    : readLimit(
+        headers.get("x-origan-timeout-ms"),
+        DEFAULT_WORKER_TIMEOUT_MS,
+        MAX_WORKER_TIMEOUT_MS,
+      );
   const noModuleCache = false;
-  let envVars = Object.entries(envVarsObj) as [string, string][];
 
   console.error(`serving the request for ${functionPath}`);
 
   try {
     await Deno.mkdir(workerPath, { recursive: true });
+  } catch (error) {
+    console.error("Error preparing worker directory:", error);
+    return failedToFetch();
+  }
 
-    const fileContent = await getObject(envVarsObj.BUCKET_NAME, functionPath);
-
-    if (!fileContent) {
-      throw new Error("Failed to get file content from S3");
-    }
-
-    await Deno.writeTextFile(`${workerPath}/index.ts`, `${fileContent}`, {
-      create: true,
-    });
+  // Boots a worker running the function source, fetched once per deployment
+  const bootWorker = async (lifetimeMs: number) => {
+    let envVars: [string, string][];
+    try {
+      const fileContent = await sourceCache.get(functionPath, () =>
+        getObject(envVarsObj.BUCKET_NAME, functionPath, trace),
+      );
 
-    // Fetch deployment metadata including environment variables
-    if (deploymentId) {
-      try {
-        const metadataPath = `deployments/${deploymentId}/metadata.json`;
-        const metadataContent = await getObject(
-          envVarsObj.BUCKET_NAME,
-          metadataPath,
-        );
-
-        if (metadataContent) {
-          const metadata = JSON.parse(metadataContent);
-          if (metadata.environmentVariables) {
-            // Merge deployment environment variables with system env vars
-            // Deployment vars take precedence
-            const deploymentEnvVars = metadata.environmentVariables;
-            const mergedEnvVars = {
-              ...envVarsObj,
-              ...deploymentEnvVars,
-            };
-            envVars = Object.entries(mergedEnvVars) as [string, string][];
-            console.log(
-              `Loaded ${
-                Object.keys(deploymentEnvVars).length
-              } environment variables from metadata`,
-            );
-          }
-        }
-      } catch (error) {
-        console.warn(
-          `Failed to load metadata for deployment ${deploymentId}:`,
-          error,
-        );
-        // Continue with system env vars only
+      if (!fileContent) {
+        throw new Error("Failed to get file content from S3");
       }
+
+      await Deno.writeTextFile(`${workerPath}/index.ts`, `${fileContent}`, {
+        create: true,
+      });
+
+      envVars = Object.entries({
+        ...envVarsObj,
+        // Deployment vars take precedence
+        ...(deploymentId
+          ? await loadDeploymentEnvVars(deploymentId, trace)
+          : {}),
+      }) as [string, string][];
+    } catch (error) {
+      throw new SourceFetchError(
+        error instanceof Error ? error.message : String(error),
+        { cause: error },
+      );
     }
-  } catch (error) {
-    console.error("Error fetching from S3:", error);
-    return new Response(
-      JSON.stringify({ msg: "Failed to fetch function from S3" }),
-      {
-        status: 500,
-        headers: { "Content-Type": "application/json" },
-      },
-    );
-  }
 
-  console.log(`Worker path: ${workerPath}`);
+    console.log(`Worker path: ${workerPath}`);
 
-  try {
     // Add function path to environment variables so it's available in the worker
     const envVarsWithPath = [
       ...envVars,
       ["ORIGAN_FUNCTION_PATH", functionPath] as [string, string],
     ];
 
-    const worker = await EdgeRuntime.userWorkers.create({
-      servicePath: workerPath,
-      memoryLimitMb,
-      workerTimeoutMs,
-      noModuleCache,
-      envVars: envVarsWithPath,
-    });
-
+    const stopBootTimer = workerBootDuration.startTimer();
+    const worker = await withSpan(
+      "runner.create_worker",
+      trace,
+      { memoryLimitMb, workerTimeoutMs: lifetimeMs },
+      () =>
+        EdgeRuntime.userWorkers.create({
+          servicePath: workerPath,
+          memoryLimitMb,
+          workerTimeoutMs: lifetimeMs,
+          noModuleCache,
+          envVars: envVarsWithPath,
+        }),
+    );
+    stopBootTimer();
     console.log("Worker created successfully");
+    return worker;
+  };
+
+  let stage: "boot" | "invoke" = "boot";
+  let pooledWorker: UserWorker | undefined;
+  const poolKey = `${workerPath}:${memoryLimitMb}`;
+  try {
+    if (isWebSocket) {
+      // Sessions get a worker of their own, bounded by the session timeout
+      const worker = await bootWorker(workerTimeoutMs);
+      stage = "invoke";
+      // The worker upgrades the original request to take over its connection
+      const response = await worker.fetch(req);
+      workerInvocations.inc({ status: "success" });
+      return response;
+    }
+
+    // The worker must outlive the request timeout to be reused for it
+    const { worker, warm } = await workerPool.acquire(
+      poolKey,
+      workerTimeoutMs,
+      bootWorker,
+    );
+    pooledWorker = worker;
+    stage = "invoke";
+    console.log(warm ? "Reusing warm worker" : "Using new worker");
 
     const newReq = new Request(req);
 
     // We should not need that anymore as we are copying the request
     EdgeRuntime.applySupabaseTag(req, newReq);
 
-    const response = await worker.fetch(newReq);
+    const deadline = AbortSignal.timeout(workerTimeoutMs);
+    const response = await withSpan(
+      "runner.invoke",
+      trace,
+      { warm },
+      (invokeSpan) => {
+        // Concurrent requests share the worker, the trace only travels
+        // with the request
+        newReq.headers.set(TRACEPARENT_HEADER, formatTraceparent(invokeSpan));
+        return Promise.race([
+          worker.fetch(newReq, { signal: deadline }),
+          rejectOnAbort(deadline, workerTimeoutMs),
+        ]);
+      },
+    );
 
     const duration = performance.now() - startTime;
     console.log(`Request execution completed in ${duration.toFixed(2)}ms`);
+    workerInvocations.inc({ status: "success" });
 
     return response;
   } catch (e: unknown) {
+    if (e instanceof SourceFetchError) {
+      console.error("Error fetching from S3:", e.cause);
+      return failedToFetch();
+    }
+
+    // A worker that failed, e.g. after running out of memory or still
+    // busy past its timeout, is not reused
+    if (pooledWorker) {
+      workerPool.evict(poolKey, pooledWorker);
+    }
+
+    if (e instanceof FunctionTimeoutError) {
+      console.error(e.message);
+      recordFailure(stage);
+      return new Response(JSON.stringify({ msg: e.message }), {
+        status: 504,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
     const duration = performance.now() - startTime;
     const error = {
       msg: e instanceof Error ? e.message : "Unknown error occurred",
     };
 
     console.error(`Request failed after ${duration.toFixed(2)}ms:`, error.msg);
+    recordFailure(stage);
 
     return new Response(JSON.stringify(error), {
       status: 500,
       headers: { "Content-Type": "application/json" },
     });
   }
-};
+}
+
+function failedToFetch() {
+  recordFailure("fetch");
+  return new Response(
+    JSON.stringify({ msg: "Failed to fetch function from S3" }),
+    {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    },
+  );
+}
+
+// Environment variables of the deployment, none when its metadata is missing
+async function loadDeploymentEnvVars(
+  deploymentId: string,
+  trace: SpanContext,
+): Promise<Record<string, string>> {
+  try {
+    const metadata = await metadataCache.get(deploymentId, async () =>
+      JSON.parse(
+        await getObject(
+          envVarsObj.BUCKET_NAME,
+          `deployments/${deploymentId}/metadata.json`,
+          trace,
+        ),
+      ),
+    );
+    const deploymentEnvVars = metadata?.environmentVariables ?? {};
+    console.log(
+      `Loaded ${
+        Object.keys(deploymentEnvVars).length
+      } environment variables from metadata`,
+    );
+    return deploymentEnvVars;
+  } catch (error) {
+    console.warn(
+      `Failed to load metadata for deployment ${deploymentId}:`,
+      error,
+    );
+    // Continue with system env vars only
+    return {};
+  }
+}
 
 serve(handler, { port });
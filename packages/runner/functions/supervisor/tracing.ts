@@ -0,0 +1,78 @@
+/**
+ * Module continuing the W3C trace started by the gateway
+ */
+
+export const TRACEPARENT_HEADER = "traceparent";
+
+export type SpanContext = {
+  traceId: string;
+  spanId: string;
+  flags: string;
+};
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+function randomHex(bytes: number) {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export function parseTraceparent(value: string | null): SpanContext | null {
+  const match = value?.trim().toLowerCase().match(TRACEPARENT_PATTERN);
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) {
+    return null;
+  }
+  return { traceId: match[1], spanId: match[2], flags: match[3] };
+}
+
+export function formatTraceparent(context: SpanContext) {
+  return `00-${context.traceId}-${context.spanId}-${context.flags}`;
+}
+
+/**
+ * Runs `fn` in a child span of `parent`, a new trace when there is none.
+ * Finished spans are logged as JSON lines, like the gateway ones.
+ */
+export async function withSpan<T>(
+  name: string,
+  parent: SpanContext | null,
+  attributes: Record<string, string | number>,
+  fn: (context: SpanContext) => Promise<T>,
+): Promise<T> {
+  const context: SpanContext = {
+    traceId: parent?.traceId ?? randomHex(16),
+    spanId: randomHex(8),
+    flags: parent?.flags ?? "01",
+  };
+  const startTime = new Date();
+  const startedAt = performance.now();
+  const logSpan = (error?: unknown) => {
+    console.log(
+      JSON.stringify({
+        type: "span",
+        service: "runner",
+        name,
+        traceId: context.traceId,
+        spanId: context.spanId,
+        parentSpanId: parent?.spanId,
+        startTime: startTime.toISOString(),
+        durationMs: Math.round((performance.now() - startedAt) * 100) / 100,
+        status: error ? "error" : "ok",
+        ...(error !== undefined && {
+          error: error instanceof Error ? error.message : String(error),
+        }),
+        attributes,
+      }),
+    );
+  };
+
+  try {
+    const result = await fn(context);
+    logSpan();
+    return result;
+  } catch (error) {
+    logSpan(error);
+    throw error;
+  }
+}
@@ -0,0 +1,149 @@
+import {
+  assertEquals,
+  assertRejects,
+  assertStrictEquals,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { ArtefactCache, WorkerPool } from "./worker-pool.ts";
+
+function createBoot() {
+  let booted = 0;
+  const lifetimes: number[] = [];
+  return {
+    boot: (lifetimeMs: number) => {
+      lifetimes.push(lifetimeMs);
+      return Promise.resolve({ id: ++booted });
+    },
+    get booted() {
+      return booted;
+    },
+    lifetimes,
+  };
+}
+
+const requiredMs = 1_000;
+
+Deno.test("WorkerPool reuses a live worker", async () => {
+  const pool = new WorkerPool<{ id: number }>({
+    maxSize: 10,
+    idleTimeoutMs: 60_000,
+  });
+  const workers = createBoot();
+
+  const first = await pool.acquire("fn", requiredMs, workers.boot);
+  const second = await pool.acquire("fn", requiredMs, workers.boot);
+
+  assertEquals(first.warm, false);
+  assertEquals(second.warm, true);
+  assertStrictEquals(second.worker, first.worker);
+  assertEquals(workers.booted, 1);
+});
+
+Deno.test("WorkerPool shares concurrent cold boots", async () => {
+  const pool = new WorkerPool<{ id: number }>({
+    maxSize: 10,
+    idleTimeoutMs: 60_000,
+  });
+  const workers = createBoot();
+
+  const [first, second] = await Promise.all([
+    pool.acquire("fn", requiredMs, workers.boot),
+    pool.acquire("fn", requiredMs, workers.boot),
+  ]);
+
+  assertStrictEquals(first.worker, second.worker);
+  assertEquals(workers.booted, 1);
+});
+
+Deno.test("WorkerPool boots workers living their idle timeout past the request timeout", async () => {
+  const pool = new WorkerPool<{ id: number }>({
+    maxSize: 10,
+    idleTimeoutMs: 500,
+  });
+  const workers = createBoot();
+
+  await pool.acquire("fn", 100, workers.boot);
+  // The worker would stop before the request timeout
+  const next = await pool.acquire("fn", 1_000, workers.boot);
+
+  assertEquals(next.warm, false);
+  assertEquals(workers.lifetimes, [600, 1_500]);
+});
+
+Deno.test("WorkerPool drops idle and evicted workers", async () => {
+  const pool = new WorkerPool<{ id: number }>({
+    maxSize: 10,
+    idleTimeoutMs: 1_000,
+  });
+  const workers = createBoot();
+
+  await pool.acquire("idle", requiredMs, workers.boot);
+  const { worker } = await pool.acquire("failed", requiredMs, workers.boot);
+  assertEquals(pool.size, 2);
+
+  pool.evict("failed", worker);
+  assertEquals(pool.size, 1);
+
+  pool.evictIdle(Date.now() + 600);
+  assertEquals(pool.size, 1);
+  pool.evictIdle(Date.now() + 1_500);
+  assertEquals(pool.size, 0);
+});
+
+Deno.test("WorkerPool drops the least recently used worker when full", async () => {
+  const pool = new WorkerPool<{ id: number }>({
+    maxSize: 2,
+    idleTimeoutMs: 60_000,
+  });
+  const workers = createBoot();
+
+  await pool.acquire("a", requiredMs, workers.boot);
+  await pool.acquire("b", requiredMs, workers.boot);
+  await pool.acquire("a", requiredMs, workers.boot);
+  await pool.acquire("c", requiredMs, workers.boot);
+
+  assertEquals(pool.size, 2);
+  assertEquals((await pool.acquire("a", requiredMs, workers.boot)).warm, true);
+  assertEquals((await pool.acquire("b", requiredMs, workers.boot)).warm, false);
+});
+
+Deno.test("ArtefactCache loads each key once", async () => {
+  const cache = new ArtefactCache<string>(10);
+  let loads = 0;
+  const load = () => Promise.resolve(`source ${++loads}`);
+
+  const [first, second] = await Promise.all([
+    cache.get("fn", load),
+    cache.get("fn", load),
+  ]);
+
+  assertEquals(first, "source 1");
+  assertEquals(second, "source 1");
+  assertEquals(await cache.get("fn", load), "source 1");
+  assertEquals(loads, 1);
+});
+
+Deno.test("ArtefactCache evicts the least recently used entry", async () => {
+  const cache = new ArtefactCache<string>(2);
+  let loads = 0;
+  const load = () => Promise.resolve(`value ${++loads}`);
+
+  await cache.get("a", load);
+  await cache.get("b", load);
+  await cache.get("a", load);
+  await cache.get("c", load);
+
+  assertEquals(await cache.get("a", load), "value 1");
+  assertEquals(await cache.get("b", load), "value 4");
+});
+
+Deno.test("ArtefactCache does not keep failed loads", async () => {
+  const cache = new ArtefactCache<string>(10);
+
+  await assertRejects(() =>
+    cache.get("fn", () => Promise.reject(new Error("S3 unavailable"))),
+  );
+  assertEquals(
+    await cache.get("fn", () => Promise.resolve("source")),
+    "source",
+  );
+});
@@ -0,0 +1,149 @@
+/**
+ * Module keeping deployment artefacts and user workers in memory between
+ * requests
+ */
+
+/**
+ * Bounded cache of immutable values (function sources, deployment
+ * metadata). Concurrent misses of a key share a single load, failed loads
+ * are not cached.
+ */
+export class ArtefactCache<T> {
+  private values = new Map<string, T>();
+  private pending = new Map<string, Promise<T>>();
+
+  constructor(private maxEntries: number) {}
+
+  async get(key: string, load: () => Promise<T>): Promise<T> {
+    if (this.values.has(key)) {
+      const value = this.values.get(key) as T;
+      // Most recently used last
+      this.values.delete(key);
+      this.values.set(key, value);
+      return value;
+    }
+
+    let loading = this.pending.get(key);
+    if (!loading) {
+      loading = load()
+        .then((value) => {
+          this.values.set(key, value);
+          if (this.values.size > this.maxEntries) {
+            const oldest = this.values.keys().next().value;
+            if (oldest !== undefined) this.values.delete(oldest);
+          }
+          return value;
+        })
+        .finally(() => this.pending.delete(key));
+      this.pending.set(key, loading);
+    }
+    return loading;
+  }
+}
+
+type PooledWorker<W> = {
+  worker: W;
+  lastUsedAt: number;
+  // Wall clock limit of the worker, it cannot serve requests past it
+  expiresAt: number;
+};
+
+export type WorkerPoolOptions = {
+  maxSize: number;
+  idleTimeoutMs: number;
+};
+
+/**
+ * Live user workers, reused across requests. Workers idle for longer than
+ * `idleTimeoutMs` are dropped, as is the least recently used one when the
+ * pool is full. Concurrent cold requests of a key share one boot.
+ *
+ * Dropped workers are not terminated, they stop at the wall clock limit
+ * they were booted with: the request timeout plus `idleTimeoutMs`.
+ */
+export class WorkerPool<W> {
+  private workers = new Map<string, PooledWorker<W>>();
+  private booting = new Map<string, Promise<W>>();
+
+  constructor(private options: WorkerPoolOptions) {}
+
+  get size() {
+    return this.workers.size;
+  }
+
+  /**
+   * Returns a worker of `key` that stays alive for at least `requiredMs`,
+   * booting one with `boot` when there is none. `boot` receives the wall
+   * clock limit to create the worker with.
+   */
+  async acquire(
+    key: string,
+    requiredMs: number,
+    boot: (lifetimeMs: number) => Promise<W>,
+  ): Promise<{ worker: W; warm: boolean }> {
+    const now = Date.now();
+    const pooled = this.workers.get(key);
+    this.workers.delete(key);
+    if (pooled && pooled.expiresAt - now >= requiredMs) {
+      pooled.lastUsedAt = now;
+      // Most recently used last
+      this.workers.set(key, pooled);
+      return { worker: pooled.worker, warm: true };
+    }
+
+    let pending = this.booting.get(key);
+    if (!pending) {
+      const bootedAt = Date.now();
+      const lifetimeMs = requiredMs + this.options.idleTimeoutMs;
+      pending = boot(lifetimeMs)
+        .then((worker) => {
+          this.add(key, worker, bootedAt + lifetimeMs);
+          return worker;
+        })
+        .finally(() => this.booting.delete(key));
+      this.booting.set(key, pending);
+    }
+    return { worker: await pending, warm: false };
+  }
+
+  /**
+   * Drops the worker of `key`, e.g. after it failed a request. Requests
+   * already holding it are not interrupted.
+   */
+  evict(key: string, worker: W) {
+    if (this.workers.get(key)?.worker === worker) {
+      this.workers.delete(key);
+    }
+  }
+
+  evictIdle(now = Date.now()) {
+    for (const [key, pooled] of this.workers) {
+      if (
+        now - pooled.lastUsedAt > this.options.idleTimeoutMs ||
+        pooled.expiresAt <= now
+      ) {
+        this.workers.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Start the idle eviction interval
+   * @returns Timeout ID that can be used to clear the interval
+   */
+  startEvictionInterval(): number {
+    return setInterval(
+      () => this.evictIdle(),
+      Math.min(this.options.idleTimeoutMs, 30 * 1000),
+    );
+  }
+
+  private add(key: string, worker: W, expiresAt: number) {
+    while (this.workers.size >= this.options.maxSize) {
+      const oldest = this.workers.keys().next().value;
+      if (oldest === undefined) break;
+      this.workers.delete(oldest);
+    }
+    this.workers.set(key, { worker, lastUsedAt: Date.now(), expiresAt });
+  }
+}
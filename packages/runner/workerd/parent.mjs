@@ -2,6 +2,13 @@ import { AwsClient } from "./aws4fetch.mjs";
 
 const codeCache = new Map();
 const metadataCache = new Map();
+const activeSockets = new Map();
+
+const TRACEPARENT_HEADER = "traceparent";
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+const DEFAULT_WS_IDLE_TIMEOUT_MS = 60 * 1000;
+const DEFAULT_WS_MAX_CONNECTIONS_PER_DEPLOYMENT = 1000;
 
 function buildNatsConnection(url) {
   const socket = new WebSocket(url);
@@ -65,6 +72,63 @@ function toHex(bytes) {
     .join("");
 }
 
+function parseTraceparent(value) {
+  const match = value?.trim().toLowerCase().match(TRACEPARENT_PATTERN);
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) {
+    return null;
+  }
+  return { traceId: match[1], spanId: match[2], flags: match[3] };
+}
+
+/**
+ * Starts a child span of `parent`, continuing the gateway trace, or a new
+ * trace without one. Finished spans are logged as JSON lines.
+ */
+function startSpan(name, parent, attributes = {}) {
+  const context = {
+    traceId:
+      parent?.traceId ?? toHex(crypto.getRandomValues(new Uint8Array(16))),
+    spanId: toHex(crypto.getRandomValues(new Uint8Array(8))),
+    flags: parent?.flags ?? "01",
+  };
+  const startTime = new Date();
+  return {
+    context,
+    traceparent: `00-${context.traceId}-${context.spanId}-${context.flags}`,
+    end(error) {
+      console.log(
+        JSON.stringify({
+          type: "span",
+          service: "runner",
+          name,
+          traceId: context.traceId,
+          spanId: context.spanId,
+          parentSpanId: parent?.spanId,
+          startTime: startTime.toISOString(),
+          durationMs: Date.now() - startTime.getTime(),
+          status: error ? "error" : "ok",
+          ...(error !== undefined && {
+            error: error instanceof Error ? error.message : String(error),
+          }),
+          attributes,
+        }),
+      );
+    },
+  };
+}
+
+async function withSpan(name, parent, attributes, fn) {
+  const span = startSpan(name, parent, attributes);
+  try {
+    const result = await fn(span);
+    span.end();
+    return result;
+  } catch (error) {
+    span.end(error);
+    throw error;
+  }
+}
+
 async function fetchS3Object(env, key) {
   const baseUrl = env.BUCKET_URL;
   const bucket = env.BUCKET_NAME;
@@ -123,6 +187,21 @@ async function loadUserCode(env, functionPath) {
   return code;
 }
 
+// Middleware can only be loaded from the deployment being invoked
+function parseMiddlewarePaths(value, deploymentId) {
+  let paths;
+  try {
+    paths = JSON.parse(value || "[]");
+  } catch {
+    return null;
+  }
+  const prefix = `deployments/${deploymentId}/`;
+  const valid =
+    Array.isArray(paths) &&
+    paths.every((path) => typeof path === "string" && path.startsWith(prefix));
+  return valid ? paths : null;
+}
+
 async function sha1Hex(message) {
   const encoder = new TextEncoder();
   const data = encoder.encode(message);
@@ -130,9 +209,97 @@ async function sha1Hex(message) {
   return toHex(digest);
 }
 
-function buildWrapperModule(envVars, natsWsServer) {
+function isWebSocketUpgrade(request) {
+  return request.headers.get("upgrade")?.toLowerCase() === "websocket";
+}
+
+function acquireSocket(env, deploymentId) {
+  const max =
+    Number(env.WS_MAX_CONNECTIONS_PER_DEPLOYMENT) ||
+    DEFAULT_WS_MAX_CONNECTIONS_PER_DEPLOYMENT;
+  const count = activeSockets.get(deploymentId) || 0;
+  if (count >= max) {
+    return false;
+  }
+  activeSockets.set(deploymentId, count + 1);
+  return true;
+}
+
+function releaseSocket(deploymentId) {
+  const count = activeSockets.get(deploymentId) || 0;
+  if (count <= 1) {
+    activeSockets.delete(deploymentId);
+  } else {
+    activeSockets.set(deploymentId, count - 1);
+  }
+}
+
+// Reserved codes cannot be sent in a close frame
+function toSendableCloseCode(code) {
+  return code === 1005 || code === 1006 || code === 1015 || !code ? 1000 : code;
+}
+
+/**
+ * Bridges the client socket with the one accepted by the user worker, so
+ * idle connections can be closed and counted per deployment.
+ */
+function relayWebSocket(env, upstream, deploymentId) {
+  const idleTimeoutMs =
+    Number(env.WS_IDLE_TIMEOUT_MS) || DEFAULT_WS_IDLE_TIMEOUT_MS;
+  const pair = new WebSocketPair();
+  const [client, server] = Object.values(pair);
+  upstream.accept();
+  server.accept();
+
+  let idleTimer;
+  let closed = false;
+  const close = (code, reason) => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    clearTimeout(idleTimer);
+    releaseSocket(deploymentId);
+    const sendableCode = toSendableCloseCode(code);
+    for (const socket of [server, upstream]) {
+      try {
+        socket.close(sendableCode, reason || "");
+      } catch {
+        // Already closed
+      }
+    }
+  };
+  const touch = () => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => close(1001, "Idle timeout"), idleTimeoutMs);
+  };
+
+  server.addEventListener("message", (event) => {
+    touch();
+    upstream.send(event.data);
+  });
+  upstream.addEventListener("message", (event) => {
+    touch();
+    server.send(event.data);
+  });
+  server.addEventListener("close", (event) => close(event.code, event.reason));
+  upstream.addEventListener("close", (event) =>
+    close(event.code, event.reason),
+  );
+  server.addEventListener("error", () => close(1011, "Client error"));
+  upstream.addEventListener("error", () => close(1011, "Worker error"));
+  touch();
+
+  return new Response(null, { status: 101, webSocket: client });
+}
+
+function buildWrapperModule(envVars, natsWsServer, middlewareCount = 0) {
   const envJson = JSON.stringify(envVars || {});
   const natsUrlJson = JSON.stringify(natsWsServer || "");
+  const middlewareImports = Array.from(
+    { length: middlewareCount },
+    (_, index) => `() => import("./middleware-${index}.js")`,
+  ).join(", ");
   return `
 import { AsyncLocalStorage } from "node:async_hooks";
 
@@ -249,6 +416,7 @@ async function __sendLog(level, args) {
       functionPath,
       projectId,
       deploymentId,
+      traceId: store.traceId,
     });
     if (!store.conn) {
       store.conn = await __getNatsConnection();
@@ -288,19 +456,118 @@ async function __getUser() {
   return __userPromise;
 }
 
-async function __handle(request, env, ctx) {
-  const user = await __getUser();
+// Middleware modules of the route, outermost directory first
+const __middlewareImports = [${middlewareImports}];
+let __middlewarePromise;
+async function __getMiddleware() {
+  if (!__middlewarePromise) {
+    __middlewarePromise = Promise.all(
+      __middlewareImports.map(async (load) => {
+        const module = await load();
+        const middleware =
+          (module.default && module.default.fetch) || module.default;
+        if (typeof middleware !== "function") {
+          throw new Error("Middleware module does not export a function");
+        }
+        return middleware;
+      }),
+    );
+  }
+  return __middlewarePromise;
+}
+
+function __decodeParam(value) {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// Context given to functions as their third argument, next to the
+// request and env. See docs/architecture/function-context.md
+function __buildContext(request, ctx) {
+  let params = {};
+  try {
+    const raw = JSON.parse(
+      request.headers.get("x-origan-route-params") || "{}",
+    );
+    for (const [name, value] of Object.entries(raw)) {
+      params[name] = __decodeParam(String(value));
+    }
+  } catch {
+    params = {};
+  }
+  return {
+    params: Object.freeze(params),
+    route: request.headers.get("x-origan-route-pattern"),
+    waitUntil: (promise) => ctx?.waitUntil?.(promise),
+    passThroughOnException: () => ctx?.passThroughOnException?.(),
+  };
+}
+
+const __HANDLER_METHODS = ["GET", "POST", "PUT", "DELETE"];
+
+function __invokeHandler(user, request, env, context) {
+  // HEAD is answered by the GET handler, without the body
+  const head = request.method === "HEAD";
+  const handlerMethod = head ? "GET" : request.method;
+  // A named export for the method wins over the default handler
   const handler =
+    (__HANDLER_METHODS.includes(handlerMethod) && user[handlerMethod]) ||
     (user.default && user.default.fetch) ||
     user.fetch ||
     user.default;
   if (typeof handler !== "function") {
+    const allowed = __HANDLER_METHODS.filter(
+      (method) => typeof user[method] === "function",
+    );
+    if (allowed.length > 0) {
+      if (allowed.includes("GET")) allowed.push("HEAD");
+      return new Response("Method not allowed", {
+        status: 405,
+        headers: { Allow: allowed.join(", ") },
+      });
+    }
     throw new Error("User module does not export a fetch handler");
   }
-  const store = { conn: null };
+  const response = handler(request, env, context);
+  return head ? __withoutBody(response) : response;
+}
+
+async function __withoutBody(pending) {
+  const response = await pending;
+  await response.body?.cancel();
+  return new Response(null, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+async function __handle(request, env, ctx) {
+  const [user, middleware] = await Promise.all([
+    __getUser(),
+    __getMiddleware(),
+  ]);
+  const context = __buildContext(request, ctx);
+  // Each middleware either returns its own response or calls next(),
+  // optionally with another request, to run the rest of the chain
+  const run = (index, current) => {
+    if (index === middleware.length) {
+      return __invokeHandler(user, current, env, context);
+    }
+    return middleware[index](current, env, {
+      ...context,
+      next: (next = current) => run(index + 1, next),
+    });
+  };
+  // The parent sets the traceparent of the invocation, logs carry its trace
+  const traceparent = request.headers.get("traceparent");
+  const store = { conn: null, traceId: traceparent?.split("-")[1] };
   return __logStorage.run(store, async () => {
     try {
-      return await handler(request, env, ctx);
+      return await run(0, request);
     } finally {
       if (store.conn?.socket) {
         store.conn.socket.close();
@@ -341,6 +608,7 @@ export default {
             functionPath,
             projectId,
             deploymentId,
+            traceId: payload?.traceId,
           }),
         );
         return new Response(null, { status: 204 });
@@ -357,11 +625,34 @@ export default {
       return new Response("Missing required headers", { status: 400 });
     }
 
+    const middlewarePaths = parseMiddlewarePaths(
+      request.headers.get("x-origan-middleware-paths"),
+      deploymentId,
+    );
+    if (!middlewarePaths) {
+      return new Response("Invalid middleware paths", { status: 400 });
+    }
+
+    const isUpgrade = isWebSocketUpgrade(request);
+    if (isUpgrade && !acquireSocket(env, deploymentId)) {
+      return new Response("Too many WebSocket connections", { status: 503 });
+    }
+    // Released by the relay once the socket closes
+    let socketHandedOver = false;
+
     const functionHash = await sha1Hex(functionPath);
     const invocationId = crypto.randomUUID();
     const workerName = `${projectId}-${deploymentId}-${functionHash}-${invocationId}`;
     const logSubject = `logs.${projectId}.${deploymentId}.${functionHash}`;
 
+    const requestSpan = startSpan(
+      "runner.request",
+      parseTraceparent(request.headers.get(TRACEPARENT_HEADER)),
+      { functionPath },
+    );
+    const { traceId } = requestSpan.context;
+    let failure;
+
     const natsConn = await getNatsConnection(env);
     try {
       await publishNatsLog(
@@ -372,12 +663,22 @@ export default {
           level: "info",
           message: "Invocation started",
           functionPath,
+          traceId,
         }),
         natsConn,
       );
 
-      const envVars = await loadMetadata(env, deploymentId);
-      const code = await loadUserCode(env, functionPath);
+      const [envVars, code, ...middlewareCode] = await withSpan(
+        "runner.load_source",
+        requestSpan.context,
+        { functionPath },
+        () =>
+          Promise.all([
+            loadMetadata(env, deploymentId),
+            loadUserCode(env, functionPath),
+            ...middlewarePaths.map((path) => loadUserCode(env, path)),
+          ]),
+      );
 
       const mergedEnv = {
         ...envVars,
@@ -386,27 +687,53 @@ export default {
         ORIGAN_PROJECT_ID: projectId,
       };
 
-      const worker = await env.USER_LOADER.get(workerName, async () => {
-        return {
-          mainModule: "wrapper.js",
-          modules: {
-            "wrapper.js": buildWrapperModule(
-              mergedEnv,
-              env.EVENTS_NATS_WS_SERVER,
-            ),
-            "user.js": code,
-          },
-          compatibilityDate: "2026-01-01",
-          compatibilityFlags: [
-            "nodejs_compat",
-            "nodejs_compat_populate_process_env",
-          ],
-          env: mergedEnv,
-        };
-      });
+      const worker = await withSpan(
+        "runner.create_worker",
+        requestSpan.context,
+        { workerName },
+        () =>
+          env.USER_LOADER.get(workerName, async () => {
+            return {
+              mainModule: "wrapper.js",
+              modules: {
+                "wrapper.js": buildWrapperModule(
+                  mergedEnv,
+                  env.EVENTS_NATS_WS_SERVER,
+                  middlewareCode.length,
+                ),
+                "user.js": code,
+                ...Object.fromEntries(
+                  middlewareCode.map((source, index) => [
+                    `middleware-${index}.js`,
+                    source,
+                  ]),
+                ),
+              },
+              compatibilityDate: "2026-01-01",
+              compatibilityFlags: [
+                "nodejs_compat",
+                "nodejs_compat_populate_process_env",
+              ],
+              env: mergedEnv,
+            };
+          }),
+      );
 
       const fetcher = worker.getEntrypoint();
-      const response = await fetcher.fetch(request);
+      let response = await withSpan(
+        "runner.invoke",
+        requestSpan.context,
+        {},
+        (invokeSpan) => {
+          const headers = new Headers(request.headers);
+          headers.set(TRACEPARENT_HEADER, invokeSpan.traceparent);
+          return fetcher.fetch(new Request(request, { headers }));
+        },
+      );
+      if (isUpgrade && response.webSocket) {
+        response = relayWebSocket(env, response.webSocket, deploymentId);
+        socketHandedOver = true;
+      }
       await publishNatsLog(
         env,
         logSubject,
@@ -415,12 +742,14 @@ export default {
           level: "info",
           message: `Invocation completed with status ${response.status}`,
           functionPath,
+          traceId,
         }),
         natsConn,
       );
       return response;
     } catch (error) {
       console.error("Runner error:", error);
+      failure = error;
       await publishNatsLog(
         env,
         logSubject,
@@ -430,11 +759,16 @@ export default {
           message:
             error instanceof Error ? error.message : "Unknown runner error",
           functionPath,
+          traceId,
         }),
         natsConn,
       );
       return new Response("Failed to run worker", { status: 500 });
     } finally {
+      requestSpan.end(failure);
+      if (isUpgrade && !socketHandedOver) {
+        releaseSocket(deploymentId);
+      }
       if (natsConn?.socket) {
         natsConn.socket.close();
       }
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { extractFunctionConfig, extractHandlerMethods } from "../src";
+
+describe("extractFunctionConfig", () => {
+  it("reads numeric limits from the config export", () => {
+    const source = `
+      export const config = {
+        timeoutMs: 2 * 60 * 1000,
+        memoryLimitMb: 256,
+        maxBodyBytes: 5_000_000,
+      };
+
+      export default async function handler() {
+        return new Response("ok");
+      }
+    `;
+
+    expect(extractFunctionConfig(source)).toEqual({
+      timeoutMs: 120000,
+      memoryLimitMb: 256,
+      maxBodyBytes: 5000000,
+    });
+  });
+
+  it("returns an empty config without export", () => {
+    expect(extractFunctionConfig("export default () => {}")).toEqual({});
+  });
+
+  it("rejects values that are not integer literals", () => {
+    const source = "export const config = { timeoutMs: TIMEOUT };";
+
+    expect(() => extractFunctionConfig(source)).toThrow(/Invalid timeoutMs/);
+  });
+
+  it("reads the schedule as a string literal", () => {
+    const source = `
+      export const config = { schedule: "0,30 3 * * *", timeoutMs: 60_000 };
+    `;
+
+    expect(extractFunctionConfig(source)).toEqual({
+      schedule: "0,30 3 * * *",
+      timeoutMs: 60000,
+    });
+    expect(() =>
+      extractFunctionConfig("export const config = { schedule: NIGHTLY };"),
+    ).toThrow(/Invalid schedule/);
+  });
+});
+
+describe("extractHandlerMethods", () => {
+  it("lists the methods with a named handler export", () => {
+    const source = `
+      export async function GET(request) {
+        return new Response("list");
+      }
+
+      export const POST = async (request) => new Response("created");
+
+      const remove = () => new Response(null, { status: 204 });
+      export { remove as DELETE };
+    `;
+
+    expect(extractHandlerMethods(source)).toEqual(["GET", "POST", "DELETE"]);
+  });
+
+  it("handles every method with a default export", () => {
+    expect(extractHandlerMethods("export default () => {}")).toBeUndefined();
+    expect(
+      extractHandlerMethods(
+        "export function GET() {}\nexport default () => {}",
+      ),
+    ).toBeUndefined();
+    expect(
+      extractHandlerMethods(
+        "const handler = () => {};\nexport { handler as default };",
+      ),
+    ).toBeUndefined();
+  });
+});
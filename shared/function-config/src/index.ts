@@ -0,0 +1,105 @@
+export interface FunctionConfig {
+  timeoutMs?: number;
+  memoryLimitMb?: number;
+  maxBodyBytes?: number;
+  // Cron expression of a scheduled function, which is then not routed
+  schedule?: string;
+}
+
+const FUNCTION_CONFIG_KEYS = [
+  "timeoutMs",
+  "memoryLimitMb",
+  "maxBodyBytes",
+] as const;
+
+const HANDLER_METHODS = ["GET", "POST", "PUT", "DELETE"] as const;
+
+/**
+ * Reads `export const config = { ... }` from a function source without
+ * executing it. Limits must be integer literals, optionally multiplied
+ * (e.g. `2 * 60 * 1000`), the schedule a string literal.
+ */
+export function extractFunctionConfig(source: string): FunctionConfig {
+  const match = /export\s+const\s+config\s*(?::[^=]+)?=\s*\{/.exec(source);
+  if (!match) {
+    return {};
+  }
+
+  const start = match.index + match[0].length;
+  let depth = 1;
+  let end = start;
+  while (end < source.length && depth > 0) {
+    if (source[end] === "{") depth++;
+    if (source[end] === "}") depth--;
+    end++;
+  }
+  const body = source.slice(start, end - 1);
+
+  const config: FunctionConfig = {};
+  for (const key of FUNCTION_CONFIG_KEYS) {
+    const valueMatch = new RegExp(`\\b${key}\\s*:\\s*([^,}\\n]+)`).exec(body);
+    if (!valueMatch) continue;
+    config[key] = evaluateLimit(key, valueMatch[1]);
+  }
+
+  const scheduleMatch = /\bschedule\s*:\s*([^}\n]*)/.exec(body);
+  if (scheduleMatch) {
+    // Cron lists contain commas, so the literal is matched as a whole
+    const literal = /^(["'`])([^"'`\n]*)\1/.exec(scheduleMatch[1]);
+    if (!literal) {
+      throw new Error(
+        `Invalid schedule in function config: ${scheduleMatch[1].trim()} (expected a string literal)`,
+      );
+    }
+    config.schedule = literal[2];
+  }
+  return config;
+}
+
+function evaluateLimit(key: string, expression: string) {
+  const factors = expression
+    .split("*")
+    .map((factor) => factor.trim().replace(/_/g, ""));
+  const value = factors.reduce(
+    (product, factor) => product * (/^\d+$/.test(factor) ? Number(factor) : 0),
+    1,
+  );
+  if (!Number.isSafeInteger(value) || value <= 0) {
+    throw new Error(
+      `Invalid ${key} in function config: ${expression.trim()} (expected a positive integer literal)`,
+    );
+  }
+  return value;
+}
+
+/**
+ * Lists the methods a function exports a named handler for, e.g.
+ * `export async function GET()` or `export { handler as POST }`. Returns
+ * undefined when there are none, or when a default export handles every
+ * other method.
+ */
+export function extractHandlerMethods(source: string): string[] | undefined {
+  const exported = new Set<string>();
+  for (const match of source.matchAll(
+    /export\s+(?:async\s+)?(?:function|const|let|var)\s+([A-Za-z_$][\w$]*)/g,
+  )) {
+    exported.add(match[1]);
+  }
+  for (const match of source.matchAll(/export\s*\{([^}]*)\}/g)) {
+    for (const specifier of match[1].split(",")) {
+      const name = specifier
+        .trim()
+        .split(/\s+as\s+/)
+        .pop();
+      if (name) exported.add(name);
+    }
+  }
+
+  const methods = HANDLER_METHODS.filter((method) => exported.has(method));
+  const hasDefault =
+    exported.has("default") || /export\s+default\b/.test(source);
+  if (methods.length === 0 || hasDefault) {
+    return undefined;
+  }
+  return methods;
+}
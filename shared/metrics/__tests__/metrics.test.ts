@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { createHttpMetrics, MetricsRegistry } from "../src";
+
+describe("MetricsRegistry", () => {
+  it("renders counters and gauges with the service label", async () => {
+    const registry = new MetricsRegistry("gateway");
+    const counter = registry.counter({
+      name: "test_total",
+      help: "Test counter",
+      labelNames: ["status"],
+    });
+    const gauge = registry.gauge({ name: "test_depth", help: "Test gauge" });
+
+    counter.inc({ status: 200 });
+    counter.inc({ status: 200 }, 2);
+    counter.inc({ status: 500 });
+    gauge.set({}, 4);
+
+    expect(await registry.render()).toBe(
+      [
+        "# HELP test_total Test counter",
+        "# TYPE test_total counter",
+        'test_total{service="gateway",status="200"} 3',
+        'test_total{service="gateway",status="500"} 1',
+        "# HELP test_depth Test gauge",
+        "# TYPE test_depth gauge",
+        'test_depth{service="gateway"} 4',
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("renders cumulative histogram buckets", async () => {
+    const registry = new MetricsRegistry("runner");
+    const histogram = registry.histogram({
+      name: "boot_seconds",
+      help: "Boot time",
+      buckets: [0.1, 1],
+    });
+
+    histogram.observe({}, 0.05);
+    histogram.observe({}, 0.5);
+    histogram.observe({}, 3);
+
+    const output = await registry.render();
+    expect(output).toContain(
+      'boot_seconds_bucket{service="runner",le="0.1"} 1',
+    );
+    expect(output).toContain('boot_seconds_bucket{service="runner",le="1"} 2');
+    expect(output).toContain(
+      'boot_seconds_bucket{service="runner",le="+Inf"} 3',
+    );
+    expect(output).toContain('boot_seconds_sum{service="runner"} 3.55');
+    expect(output).toContain('boot_seconds_count{service="runner"} 3');
+  });
+
+  it("runs collectors before rendering and escapes label values", async () => {
+    const registry = new MetricsRegistry("control-api");
+    const gauge = registry.gauge({
+      name: "queue_depth",
+      help: "Queue depth",
+      labelNames: ["name"],
+    });
+    registry.addCollector(async () => {
+      gauge.set({ name: 'say "hi"\n' }, 7);
+    });
+
+    expect(await registry.render()).toContain(
+      'queue_depth{service="control-api",name="say \\"hi\\"\\n"} 7',
+    );
+  });
+
+  it("refuses to register the same metric twice", () => {
+    const registry = new MetricsRegistry("gateway");
+    createHttpMetrics(registry);
+    expect(() => createHttpMetrics(registry)).toThrow(
+      "Metric origan_http_requests_total is already registered",
+    );
+  });
+});
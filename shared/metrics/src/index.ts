@@ -0,0 +1,269 @@
+// Dependency free and self contained: the Deno runner supervisor imports
+// this file directly, Node services use the compiled package.
+
+export type Labels = Record<string, string | number>;
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+// Seconds, from fast static responses to slow function invocations
+export const DEFAULT_DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30,
+];
+
+/**
+ * Metric names used across services, so that dashboards
+ * can query every service the same way.
+ */
+export const metricNames = {
+  httpRequestsTotal: "origan_http_requests_total",
+  httpRequestDurationSeconds: "origan_http_request_duration_seconds",
+  trpcProcedureDurationSeconds: "origan_trpc_procedure_duration_seconds",
+  buildQueueDepth: "origan_build_queue_depth",
+  workerBootDurationSeconds: "origan_worker_boot_duration_seconds",
+  workerInvocationsTotal: "origan_worker_invocations_total",
+  workerFailuresTotal: "origan_worker_failures_total",
+  workerPoolSize: "origan_worker_pool_size",
+} as const;
+
+type MetricOptions = {
+  name: string;
+  help: string;
+  labelNames?: string[];
+};
+
+abstract class Metric<T> {
+  readonly name: string;
+  readonly help: string;
+  readonly labelNames: string[];
+  protected values = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(options: MetricOptions) {
+    this.name = options.name;
+    this.help = options.help;
+    this.labelNames = options.labelNames ?? [];
+  }
+
+  abstract readonly type: "counter" | "gauge" | "histogram";
+  abstract render(defaultLabels: Labels): string[];
+
+  reset() {
+    this.values.clear();
+  }
+
+  protected entry(labels: Labels, initial: () => T) {
+    const picked: Labels = {};
+    for (const labelName of this.labelNames) {
+      picked[labelName] = labels[labelName] ?? "";
+    }
+    const key = JSON.stringify(this.labelNames.map((name) => picked[name]));
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { labels: picked, value: initial() };
+      this.values.set(key, entry);
+    }
+    return entry;
+  }
+}
+
+export class Counter extends Metric<number> {
+  readonly type = "counter";
+
+  inc(labels: Labels = {}, value = 1) {
+    this.entry(labels, () => 0).value += value;
+  }
+
+  render(defaultLabels: Labels) {
+    return [...this.values.values()].map(
+      ({ labels, value }) =>
+        `${this.name}${formatLabels({ ...defaultLabels, ...labels })} ${value}`,
+    );
+  }
+}
+
+export class Gauge extends Metric<number> {
+  readonly type = "gauge";
+
+  set(labels: Labels, value: number) {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  inc(labels: Labels = {}, value = 1) {
+    this.entry(labels, () => 0).value += value;
+  }
+
+  dec(labels: Labels = {}, value = 1) {
+    this.entry(labels, () => 0).value -= value;
+  }
+
+  render(defaultLabels: Labels) {
+    return [...this.values.values()].map(
+      ({ labels, value }) =>
+        `${this.name}${formatLabels({ ...defaultLabels, ...labels })} ${value}`,
+    );
+  }
+}
+
+type HistogramValue = { counts: number[]; sum: number; count: number };
+
+export class Histogram extends Metric<HistogramValue> {
+  readonly type = "histogram";
+  readonly buckets: number[];
+
+  constructor(options: MetricOptions & { buckets?: number[] }) {
+    super(options);
+    this.buckets = [...(options.buckets ?? DEFAULT_DURATION_BUCKETS)].sort(
+      (a, b) => a - b,
+    );
+  }
+
+  observe(labels: Labels, value: number) {
+    const entry = this.entry(labels, () => ({
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) {
+        entry.value.counts[i]++;
+      }
+    }
+    entry.value.sum += value;
+    entry.value.count++;
+  }
+
+  /**
+   * Starts a timer observing the elapsed seconds when the returned function
+   * is called, with labels known only at the end (e.g. the status).
+   */
+  startTimer(labels: Labels = {}) {
+    const start = performance.now();
+    return (endLabels: Labels = {}) => {
+      this.observe(
+        { ...labels, ...endLabels },
+        (performance.now() - start) / 1000,
+      );
+    };
+  }
+
+  render(defaultLabels: Labels) {
+    const lines: string[] = [];
+    for (const { labels, value } of this.values.values()) {
+      const allLabels = { ...defaultLabels, ...labels };
+      this.buckets.forEach((bucket, i) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...allLabels, le: bucket })} ${value.counts[i]}`,
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...allLabels, le: "+Inf" })} ${value.count}`,
+        `${this.name}_sum${formatLabels(allLabels)} ${value.sum}`,
+        `${this.name}_count${formatLabels(allLabels)} ${value.count}`,
+      );
+    }
+    return lines;
+  }
+}
+
+/**
+ * Holds the metrics of a service and renders them in the Prometheus text
+ * format. Every sample carries the `service` label.
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Counter | Gauge | Histogram>();
+  private collectors: (() => Promise<void> | void)[] = [];
+  private defaultLabels: Labels;
+
+  constructor(service: string) {
+    this.defaultLabels = { service };
+  }
+
+  counter(options: MetricOptions) {
+    return this.register(new Counter(options));
+  }
+
+  gauge(options: MetricOptions) {
+    return this.register(new Gauge(options));
+  }
+
+  histogram(options: MetricOptions & { buckets?: number[] }) {
+    return this.register(new Histogram(options));
+  }
+
+  /**
+   * Runs before every render, to refresh gauges read from elsewhere
+   * (e.g. a database) only when scraped.
+   */
+  addCollector(collector: () => Promise<void> | void) {
+    this.collectors.push(collector);
+  }
+
+  async render() {
+    for (const collector of this.collectors) {
+      try {
+        await collector();
+      } catch (error) {
+        console.error("Metrics collector failed:", error);
+      }
+    }
+
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(
+        `# HELP ${metric.name} ${escapeHelp(metric.help)}`,
+        `# TYPE ${metric.name} ${metric.type}`,
+        ...metric.render(this.defaultLabels),
+      );
+    }
+    return `${lines.join("\n")}\n`;
+  }
+
+  private register<T extends Counter | Gauge | Histogram>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+/**
+ * Request counter and latency histogram labelled by route type and status,
+ * shared by every HTTP service.
+ */
+export function createHttpMetrics(registry: MetricsRegistry) {
+  const labelNames = ["route_type", "status"];
+  return {
+    requests: registry.counter({
+      name: metricNames.httpRequestsTotal,
+      help: "HTTP requests served",
+      labelNames,
+    }),
+    duration: registry.histogram({
+      name: metricNames.httpRequestDurationSeconds,
+      help: "HTTP request duration in seconds",
+      labelNames,
+    }),
+  };
+}
+
+function formatLabels(labels: Labels) {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  const formatted = entries.map(
+    ([name, value]) => `${name}="${escapeLabelValue(String(value))}"`,
+  );
+  return `{${formatted.join(",")}}`;
+}
+
+function escapeLabelValue(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function escapeHelp(help: string) {
+  return help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
@@ -52,6 +52,48 @@ export async function setupStreams(
       }
     });
 
+  const gatewaySubjects = [
+    subjects.gateway.configInvalidations(),
+    subjects.gateway.certificateInvalidations(),
+    subjects.gateway.responseCachePurges(),
+  ];
+  await jsm.streams
+    .add({
+      name: STREAM_NAMES.GATEWAY_EVENTS,
+      subjects: gatewaySubjects,
+      storage: StorageType.File,
+      max_age: MAX_AGE_1H,
+      discard: DiscardPolicy.Old,
+    })
+    .catch(async (error: Error) => {
+      if (error.message.includes("already in use")) {
+        // Streams created before a subject was added must pick it up
+        await jsm.streams.update(STREAM_NAMES.GATEWAY_EVENTS, {
+          subjects: gatewaySubjects,
+        });
+        console.log("Gateway events stream already exists");
+      } else {
+        throw error;
+      }
+    });
+
+  // Access logs are only buffered until control-api aggregates them
+  await jsm.streams
+    .add({
+      name: STREAM_NAMES.ACCESS_LOGS,
+      subjects: [subjects.gateway.accessLogs()],
+      storage: StorageType.File,
+      max_age: MAX_AGE_1H,
+      discard: DiscardPolicy.Old,
+    })
+    .catch((error: Error) => {
+      if (error.message.includes("already in use")) {
+        console.log("Access logs stream already exists");
+      } else {
+        throw error;
+      }
+    });
+
   return jsm.jetstream();
 }
 
@@ -4,10 +4,16 @@ export { Publisher } from "./publisher";
 export { STREAM_NAMES, subjects } from "./subjects";
 export { Subscriber } from "./subscriber";
 export type {
+  AccessLogBatch,
+  AccessLogEvent,
+  AccessLogSource,
   BuildEvent,
   BuildLogEntry,
   BuildStatus,
+  CertificateInvalidationEvent,
   DeploymentLogEvent,
+  DomainConfigInvalidationEvent,
   LogLevel,
   NatsConfig,
+  ResponseCachePurgeEvent,
 } from "./types";
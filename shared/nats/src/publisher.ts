@@ -1,6 +1,14 @@
 import type { JetStreamClient } from "@nats-io/jetstream";
 import { subjects } from "./subjects";
-import type { BuildEvent, BuildLogEntry, DeploymentLogEvent } from "./types";
+import type {
+  AccessLogBatch,
+  BuildEvent,
+  BuildLogEntry,
+  CertificateInvalidationEvent,
+  DeploymentLogEvent,
+  DomainConfigInvalidationEvent,
+  ResponseCachePurgeEvent,
+} from "./types";
 
 export class Publisher {
   constructor(private js: JetStreamClient) {}
@@ -38,6 +46,57 @@ export class Publisher {
     }
   }
 
+  async publishDomainConfigInvalidation(
+    event: DomainConfigInvalidationEvent,
+  ): Promise<void> {
+    try {
+      await this.js.publish(
+        subjects.gateway.configInvalidations(),
+        this.encode(event),
+      );
+    } catch (error) {
+      console.error("Error publishing domain config invalidation:", error);
+      throw error;
+    }
+  }
+
+  async publishCertificateInvalidation(
+    event: CertificateInvalidationEvent,
+  ): Promise<void> {
+    try {
+      await this.js.publish(
+        subjects.gateway.certificateInvalidations(),
+        this.encode(event),
+      );
+    } catch (error) {
+      console.error("Error publishing certificate invalidation:", error);
+      throw error;
+    }
+  }
+
+  async publishResponseCachePurge(
+    event: ResponseCachePurgeEvent,
+  ): Promise<void> {
+    try {
+      await this.js.publish(
+        subjects.gateway.responseCachePurges(),
+        this.encode(event),
+      );
+    } catch (error) {
+      console.error("Error publishing response cache purge:", error);
+      throw error;
+    }
+  }
+
+  async publishAccessLogs(batch: AccessLogBatch): Promise<void> {
+    try {
+      await this.js.publish(subjects.gateway.accessLogs(), this.encode(batch));
+    } catch (error) {
+      console.error("Error publishing access logs:", error);
+      throw error;
+    }
+  }
+
   private encode(data: unknown): Uint8Array {
     return new TextEncoder().encode(JSON.stringify(data));
   }
@@ -1,6 +1,8 @@
 export const STREAM_NAMES = {
   BUILD_EVENTS: "BUILD_EVENTS_STREAM",
   DEPLOYMENT_EVENTS: "DEPLOYMENT_EVENTS_STREAM",
+  GATEWAY_EVENTS: "GATEWAY_EVENTS_STREAM",
+  ACCESS_LOGS: "ACCESS_LOGS_STREAM",
 } as const;
 
 export const subjects = {
@@ -12,10 +14,21 @@ export const subjects = {
     logs: (projectId: string, deploymentId: string, functionHash = "*") =>
       `logs.${projectId}.${deploymentId}.${functionHash}`,
   },
+  gateway: {
+    configInvalidations: () => "gateway.config.invalidate",
+    certificateInvalidations: () => "gateway.certificates.invalidate",
+    responseCachePurges: () => "gateway.cache.purge",
+    accessLogs: () => "gateway.access.logs",
+  },
 } as const;
 
 export type BuildSubject =
   | ReturnType<typeof subjects.builds.status>
   | ReturnType<typeof subjects.builds.logs>;
 export type DeploymentSubject = ReturnType<typeof subjects.deployments.logs>;
-export type Subject = BuildSubject | DeploymentSubject;
+export type GatewaySubject =
+  | ReturnType<typeof subjects.gateway.configInvalidations>
+  | ReturnType<typeof subjects.gateway.certificateInvalidations>
+  | ReturnType<typeof subjects.gateway.responseCachePurges>
+  | ReturnType<typeof subjects.gateway.accessLogs>;
+export type Subject = BuildSubject | DeploymentSubject | GatewaySubject;
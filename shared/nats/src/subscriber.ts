@@ -4,7 +4,15 @@ import type {
   Subscription,
 } from "@nats-io/nats-core/lib/core";
 import { subjects } from "./subjects";
-import type { BuildEvent, BuildLogEntry, DeploymentLogEvent } from "./types";
+import type {
+  AccessLogBatch,
+  BuildEvent,
+  BuildLogEntry,
+  CertificateInvalidationEvent,
+  DeploymentLogEvent,
+  DomainConfigInvalidationEvent,
+  ResponseCachePurgeEvent,
+} from "./types";
 
 export class Subscriber {
   constructor(private client: NatsConnection) {}
@@ -70,6 +78,74 @@ export class Subscriber {
     }
   }
 
+  async onDomainConfigInvalidation(
+    handler: (event: DomainConfigInvalidationEvent, msg: Msg) => Promise<void>,
+    queueGroup?: string,
+  ): Promise<Subscription> {
+    try {
+      const subject = subjects.gateway.configInvalidations();
+      const subscription = queueGroup
+        ? await this.client.subscribe(subject, { queue: queueGroup })
+        : await this.client.subscribe(subject);
+      this.handleMessages(subscription, handler);
+      return subscription;
+    } catch (error) {
+      console.error("Error subscribing to domain config invalidations:", error);
+      throw error;
+    }
+  }
+
+  async onCertificateInvalidation(
+    handler: (event: CertificateInvalidationEvent, msg: Msg) => Promise<void>,
+    queueGroup?: string,
+  ): Promise<Subscription> {
+    try {
+      const subject = subjects.gateway.certificateInvalidations();
+      const subscription = queueGroup
+        ? await this.client.subscribe(subject, { queue: queueGroup })
+        : await this.client.subscribe(subject);
+      this.handleMessages(subscription, handler);
+      return subscription;
+    } catch (error) {
+      console.error("Error subscribing to certificate invalidations:", error);
+      throw error;
+    }
+  }
+
+  async onResponseCachePurge(
+    handler: (event: ResponseCachePurgeEvent, msg: Msg) => Promise<void>,
+    queueGroup?: string,
+  ): Promise<Subscription> {
+    try {
+      const subject = subjects.gateway.responseCachePurges();
+      const subscription = queueGroup
+        ? await this.client.subscribe(subject, { queue: queueGroup })
+        : await this.client.subscribe(subject);
+      this.handleMessages(subscription, handler);
+      return subscription;
+    } catch (error) {
+      console.error("Error subscribing to response cache purges:", error);
+      throw error;
+    }
+  }
+
+  async onAccessLogs(
+    handler: (batch: AccessLogBatch, msg: Msg) => Promise<void>,
+    queueGroup?: string,
+  ): Promise<Subscription> {
+    try {
+      const subject = subjects.gateway.accessLogs();
+      const subscription = queueGroup
+        ? await this.client.subscribe(subject, { queue: queueGroup })
+        : await this.client.subscribe(subject);
+      this.handleMessages(subscription, handler);
+      return subscription;
+    } catch (error) {
+      console.error("Error subscribing to access logs:", error);
+      throw error;
+    }
+  }
+
   private handleMessages<T>(
     subscription: Subscription,
     handler: (data: T, msg: Msg) => Promise<void>,
@@ -24,6 +24,52 @@ export interface DeploymentLogEvent {
   projectId: string;
   deploymentId: string;
   functionPath?: string;
+  // W3C trace id of the request that produced the log
+  traceId?: string;
+}
+
+export interface DomainConfigInvalidationEvent {
+  timestamp: string;
+  domains: string[];
+  reason?: string;
+}
+
+export interface CertificateInvalidationEvent {
+  timestamp: string;
+  domains: string[];
+  reason?: string;
+}
+
+// Drops gateway cached responses of a project. Without prefixes nor tags,
+// every response of the deployment (or of the project) is dropped.
+export interface ResponseCachePurgeEvent {
+  timestamp: string;
+  projectId: string;
+  deploymentId?: string;
+  pathPrefixes?: string[];
+  tags?: string[];
+}
+
+export type AccessLogSource = "static" | "dynamic" | "cache" | "gateway";
+
+export interface AccessLogEvent {
+  timestamp: string;
+  host: string;
+  projectId: string;
+  deploymentId: string;
+  method: string;
+  path: string;
+  status: number;
+  bytes: number;
+  durationMs: number;
+  // Which part of the gateway produced the response
+  source: AccessLogSource;
+}
+
+// Gateways publish access logs in batches to keep the message rate low
+export interface AccessLogBatch {
+  timestamp: string;
+  events: AccessLogEvent[];
 }
 
 export interface NatsConfig {